@@ -6,17 +6,33 @@ import MetricCard from "./MetricCard";
 import LiveabilityScorecard from "./LiveabilityScorecard";
 import AlertPanel from "./AlertPanel";
 import DataSourcePanel from "./DataSourcePanel";
+import LivabilityTrendChart from "./LivabilityTrendChart";
+import LivabilityComparison from "./LivabilityComparison";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useEnvironmentalData } from "@/hooks/useEnvironmentalData";
-import { BarChart3, TrendingUp, MapPin, Filter, RefreshCw, AlertCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useEnvironmentalData, type MetricTrend } from "@/hooks/useEnvironmentalData";
+import { useDataSources } from "@/hooks/useDataSources";
+import { useLivabilityHistory, type HistoryInterval } from "@/hooks/useLivabilityHistory";
+import { useLivabilityComparison } from "@/hooks/useLivabilityComparison";
+import { useLivabilityGrid, type GridBounds } from "@/hooks/useLivabilityGrid";
+import { BarChart3, MapPin, Filter, RefreshCw, AlertCircle } from "lucide-react";
+
+// Comparison windows offered for metric trends, in hours
+const TREND_WINDOWS = [
+  { hours: 6, label: "6 hours" },
+  { hours: 24, label: "24 hours" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" }
+];
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState("overview");
+  const [trendWindowHours, setTrendWindowHours] = useState(24);
   
   // Default location (San Francisco Bay Area)
   const [currentLocation] = useState({ latitude: 37.7749, longitude: -122.4194 });
@@ -31,8 +47,23 @@ export default function Dashboard() {
     fetchEnvironmentalData,
     calculateLivability,
     generateAlerts,
+    acknowledgeAlert,
     dismissAlert,
-  } = useEnvironmentalData(currentLocation.latitude, currentLocation.longitude);
+  } = useEnvironmentalData(currentLocation.latitude, currentLocation.longitude, trendWindowHours);
+
+  const { sources, toggleSource } = useDataSources();
+
+  const [historyInterval, setHistoryInterval] = useState<HistoryInterval>("day");
+  const { history, isHistoryLoading } = useLivabilityHistory(
+    currentLocation.latitude,
+    currentLocation.longitude,
+    historyInterval
+  );
+
+  const { comparison, isComparing, compare } = useLivabilityComparison();
+
+  const [mapBounds, setMapBounds] = useState<GridBounds | null>(null);
+  const { grid } = useLivabilityGrid(mapBounds);
 
   // Process metrics from real data
   const processMetrics = () => {
@@ -41,10 +72,29 @@ export default function Dashboard() {
     }
 
     const metrics = [];
+    // Source-weighted estimates, falling back to the latest single reading
+    const fused = dashboardData.fusedMetrics;
+    const trends = dashboardData.trends;
+
+    // Arrow and change for a card; cards showing 100 - metric invert the trend
+    const describeTrend = (trend: MetricTrend | undefined, inverted = false) => {
+      if (!trend || trend.direction === "stable" || trend.current === null || trend.previous === null) {
+        return { trend: "stable" as const, trendValue: trend?.readingCount ? "Stable" : "" };
+      }
+
+      const current = inverted ? 100 - trend.current : trend.current;
+      const previous = inverted ? 100 - trend.previous : trend.previous;
+      const direction = current > previous ? "up" as const : "down" as const;
+      const arrow = direction === "up" ? "↑" : "↓";
+      const change = previous !== 0
+        ? `${Math.abs(((current - previous) / previous) * 100).toFixed(1)}%`
+        : `${Math.abs(current - previous).toFixed(1)}`;
+      return { trend: direction, trendValue: `${change} ${arrow}` };
+    };
     
     // Air Quality Metric
     if (dashboardData.currentMetrics.airQuality) {
-      const aqi = dashboardData.currentMetrics.airQuality.aqi;
+      const aqi = Math.round(fused?.airQuality?.value ?? dashboardData.currentMetrics.airQuality.aqi);
       const getAQIStatus = (aqi: number) => {
         if (aqi <= 50) return { status: "good" as const, description: "Good air quality" };
         if (aqi <= 100) return { status: "warning" as const, description: "Moderate air quality" };
@@ -56,17 +106,16 @@ export default function Dashboard() {
         title: "Air Quality Index",
         value: aqi,
         unit: "AQI",
-        trend: "stable" as const,
-        trendValue: "",
+        ...describeTrend(trends?.airQuality),
         status: aqiStatus.status,
         description: aqiStatus.description,
-        lastUpdated: new Date(dashboardData.currentMetrics.airQuality.timestamp).toLocaleTimeString()
+        lastUpdated: new Date(fused?.airQuality?.observedAt ?? dashboardData.currentMetrics.airQuality.timestamp).toLocaleTimeString()
       });
     }
 
     // Water Security Metric
     if (dashboardData.currentMetrics.waterSecurity) {
-      const stress = dashboardData.currentMetrics.waterSecurity.waterStressLevel;
+      const stress = fused?.waterSecurity?.value ?? dashboardData.currentMetrics.waterSecurity.waterStressLevel;
       const getWaterStatus = (stress: number) => {
         if (stress <= 40) return { status: "good" as const, description: "Low water stress" };
         if (stress <= 70) return { status: "warning" as const, description: "Moderate water stress" };
@@ -78,18 +127,19 @@ export default function Dashboard() {
         title: "Water Security",
         value: Math.round(100 - stress), // Convert stress to security percentage
         unit: "%",
-        trend: "stable" as const,
-        trendValue: "",
+        ...describeTrend(trends?.waterSecurity, true),
+        higherIsBetter: true,
         status: waterStatus.status,
         description: waterStatus.description,
-        lastUpdated: new Date(dashboardData.currentMetrics.waterSecurity.timestamp).toLocaleTimeString()
+        lastUpdated: new Date(fused?.waterSecurity?.observedAt ?? dashboardData.currentMetrics.waterSecurity.timestamp).toLocaleTimeString()
       });
     }
 
     // Green Space Metric
     if (dashboardData.currentMetrics.greenSpace) {
-      const coverage = dashboardData.currentMetrics.greenSpace.vegetationCoverage || 
-                     (dashboardData.currentMetrics.greenSpace.ndvi * 100);
+      const coverage = fused?.greenSpace?.value ??
+                     (dashboardData.currentMetrics.greenSpace.vegetationCoverage || 
+                     (dashboardData.currentMetrics.greenSpace.ndvi * 100));
       const getGreenStatus = (coverage: number) => {
         if (coverage >= 60) return { status: "good" as const, description: "Excellent green coverage" };
         if (coverage >= 30) return { status: "warning" as const, description: "Moderate green coverage" };
@@ -101,11 +151,53 @@ export default function Dashboard() {
         title: "Green Space Coverage",
         value: Math.round(coverage),
         unit: "%",
-        trend: "stable" as const,
-        trendValue: "",
+        ...describeTrend(trends?.greenSpace),
+        higherIsBetter: true,
         status: greenStatus.status,
         description: greenStatus.description,
-        lastUpdated: new Date(dashboardData.currentMetrics.greenSpace.timestamp).toLocaleTimeString()
+        lastUpdated: new Date(fused?.greenSpace?.observedAt ?? dashboardData.currentMetrics.greenSpace.timestamp).toLocaleTimeString()
+      });
+    }
+
+    // Urban Heat Metric
+    const heat = fused?.heat ?? null;
+    if (heat) {
+      const getHeatStatus = (temperature: number) => {
+        if (temperature <= 30) return { status: "good" as const, description: "Comfortable surface temperatures" };
+        if (temperature <= 40) return { status: "warning" as const, description: "Elevated heat exposure" };
+        return { status: "danger" as const, description: "Extreme surface heat" };
+      };
+
+      const heatStatus = getHeatStatus(heat.value);
+      metrics.push({
+        title: "Land Surface Temperature",
+        value: Math.round(heat.value),
+        unit: "°C",
+        ...describeTrend(trends?.heat),
+        status: heatStatus.status,
+        description: heatStatus.description,
+        lastUpdated: new Date(heat.observedAt).toLocaleTimeString()
+      });
+    }
+
+    // Flood Exposure Metric
+    const flood = fused?.flood ?? null;
+    if (flood) {
+      const getFloodStatus = (risk: number) => {
+        if (risk <= 25) return { status: "good" as const, description: "Low flood exposure" };
+        if (risk <= 65) return { status: "warning" as const, description: "Moderate flood exposure" };
+        return { status: "danger" as const, description: "High flood exposure" };
+      };
+
+      const floodStatus = getFloodStatus(flood.value);
+      metrics.push({
+        title: "Flood Risk",
+        value: Math.round(flood.value),
+        unit: "/100",
+        ...describeTrend(trends?.flood),
+        status: floodStatus.status,
+        description: floodStatus.description,
+        lastUpdated: new Date(flood.observedAt).toLocaleTimeString()
       });
     }
 
@@ -123,7 +215,7 @@ export default function Dashboard() {
   };
 
   const handleAlertAction = (alertId: string) => {
-    console.log(`Alert action taken: ${alertId}`);
+    acknowledgeAlert(alertId);
   };
 
   const handleDataSourceRefresh = (sourceId: string) => {
@@ -133,11 +225,14 @@ export default function Dashboard() {
       calculateLivability(dashboardData?.location);
     } else if (sourceId === "alerts") {
       generateAlerts(dashboardData?.location);
+    } else {
+      // Individual providers are fetched together with the rest of the location's data
+      fetchEnvironmentalData();
     }
   };
 
   const handleDataSourceToggle = (sourceId: string) => {
-    console.log(`Data source toggled: ${sourceId}`);
+    toggleSource(sourceId);
   };
 
   return (
@@ -153,6 +248,22 @@ export default function Dashboard() {
             <div className="w-[70%] h-full flex flex-col border-r">
               {/* Quick Metrics Bar */}
               <div className="p-4 border-b bg-muted/30">
+                <div className="flex items-center justify-end gap-2 mb-3">
+                  <span className="text-xs text-muted-foreground">Trends vs previous</span>
+                  <Select
+                    value={String(trendWindowHours)}
+                    onValueChange={(value) => setTrendWindowHours(Number(value))}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs" data-testid="select-trend-window">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TREND_WINDOWS.map(({ hours, label }) => (
+                        <SelectItem key={hours} value={String(hours)}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="grid grid-cols-3 gap-4">
                   {isDashboardLoading ? (
                     // Loading skeletons
@@ -173,7 +284,7 @@ export default function Dashboard() {
               
               {/* Map Container */}
               <div className="flex-1 p-4">
-                <EnvironmentalMap onLayerToggle={handleLayerToggle} />
+                <EnvironmentalMap grid={grid} onLayerToggle={handleLayerToggle} onBoundsChange={setMapBounds} />
               </div>
             </div>
             
@@ -213,10 +324,21 @@ export default function Dashboard() {
                   ) : dashboardData?.livabilityScore ? (
                     <LiveabilityScorecard 
                       data={{
-                        airQuality: dashboardData.livabilityScore.airQualityScore,
-                        waterSecurity: dashboardData.livabilityScore.waterSecurityScore,
-                        greenSpace: dashboardData.livabilityScore.greenSpaceScore,
-                        overall: dashboardData.livabilityScore.overallScore
+                        dimensions: dashboardData.livabilityScore.dimensionScores ?? [
+                          { key: "airQuality", label: "Air Quality", score: dashboardData.livabilityScore.airQualityScore },
+                          { key: "waterSecurity", label: "Water Security", score: dashboardData.livabilityScore.waterSecurityScore },
+                          { key: "greenSpace", label: "Green Space", score: dashboardData.livabilityScore.greenSpaceScore }
+                        ],
+                        overall: dashboardData.livabilityScore.overallScore,
+                        dominantPollutant: dashboardData.livabilityScore.dominantPollutant,
+                        confidence: dashboardData.livabilityScore.confidenceLower != null &&
+                          dashboardData.livabilityScore.confidenceUpper != null
+                          ? {
+                              lower: dashboardData.livabilityScore.confidenceLower,
+                              upper: dashboardData.livabilityScore.confidenceUpper
+                            }
+                          : null,
+                        dataQuality: dashboardData.livabilityScore.dataQuality
                       }} 
                       location={dashboardData.location || "San Francisco Bay Area"}
                     />
@@ -256,37 +378,20 @@ export default function Dashboard() {
                   
                   {/* Tabbed Content */}
                   <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                    <TabsList className="grid w-full grid-cols-3">
+                    <TabsList className="grid w-full grid-cols-4">
                       <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
+                      <TabsTrigger value="compare" data-testid="tab-compare">Compare</TabsTrigger>
                       <TabsTrigger value="alerts" data-testid="tab-alerts">Alerts</TabsTrigger>
                       <TabsTrigger value="sources" data-testid="tab-sources">Sources</TabsTrigger>
                     </TabsList>
                     
                     <TabsContent value="overview" className="space-y-4 mt-4">
-                      <Card>
-                        <CardHeader>
-                          <CardTitle className="text-base flex items-center gap-2">
-                            <TrendingUp className="h-4 w-4" />
-                            Weekly Trends
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="space-y-3">
-                            <div className="flex justify-between items-center">
-                              <span className="text-sm">Air Quality</span>
-                              <Badge variant="default" className="text-xs">Improving</Badge>
-                            </div>
-                            <div className="flex justify-between items-center">
-                              <span className="text-sm">Water Security</span>
-                              <Badge variant="secondary" className="text-xs">Stable</Badge>
-                            </div>
-                            <div className="flex justify-between items-center">
-                              <span className="text-sm">Green Space</span>
-                              <Badge variant="destructive" className="text-xs">Declining</Badge>
-                            </div>
-                          </div>
-                        </CardContent>
-                      </Card>
+                      <LivabilityTrendChart
+                        history={history}
+                        interval={historyInterval}
+                        onIntervalChange={setHistoryInterval}
+                        isLoading={isHistoryLoading}
+                      />
                       
                       <Card>
                         <CardHeader>
@@ -314,6 +419,18 @@ export default function Dashboard() {
                       </Card>
                     </TabsContent>
                     
+                    <TabsContent value="compare" className="mt-4">
+                      <LivabilityComparison
+                        comparison={comparison}
+                        isComparing={isComparing}
+                        currentLocation={{
+                          ...currentLocation,
+                          label: dashboardData?.location ?? "Current location"
+                        }}
+                        onCompare={(regions, baseline) => compare({ regions, baseline })}
+                      />
+                    </TabsContent>
+                    
                     <TabsContent value="alerts" className="mt-4">
                       <AlertPanel 
                         onDismiss={handleAlertDismiss}
@@ -323,6 +440,7 @@ export default function Dashboard() {
                     
                     <TabsContent value="sources" className="mt-4">
                       <DataSourcePanel 
+                        sources={sources}
                         onRefresh={handleDataSourceRefresh}
                         onToggle={handleDataSourceToggle}
                       />
@@ -1,14 +1,16 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Satellite, Database, RefreshCw, ExternalLink } from "lucide-react";
+import { Satellite, Database, RefreshCw, Power, PowerOff } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 
-interface DataSource {
+export interface DataSource {
   id: string;
   name: string;
-  type: "nasa" | "local";
+  type: "nasa" | "local" | "fixture";
   status: "active" | "inactive" | "error";
-  lastUpdate: string;
+  enabled: boolean;
+  lastUpdate: string | null;
   description: string;
   coverage?: string;
 }
@@ -32,62 +34,7 @@ const statusVariants = {
 };
 
 export default function DataSourcePanel({
-  sources = [
-    {
-      id: "aura-omi",
-      name: "Aura OMI",
-      type: "nasa",
-      status: "active",
-      lastUpdate: "3 min ago",
-      description: "Ozone Monitoring Instrument for air quality data",
-      coverage: "Global"
-    },
-    {
-      id: "tempo",
-      name: "TEMPO",
-      type: "nasa", 
-      status: "active",
-      lastUpdate: "1 min ago",
-      description: "Tropospheric Emissions Monitoring",
-      coverage: "North America"
-    },
-    {
-      id: "grace",
-      name: "GRACE",
-      type: "nasa",
-      status: "active", 
-      lastUpdate: "5 min ago",
-      description: "Gravity Recovery and Climate Experiment",
-      coverage: "Global"
-    },
-    {
-      id: "landsat",
-      name: "Landsat",
-      type: "nasa",
-      status: "active",
-      lastUpdate: "2 min ago", 
-      description: "Land surface imaging for vegetation analysis",
-      coverage: "Global"
-    },
-    {
-      id: "traffic-data",
-      name: "Traffic Data",
-      type: "local",
-      status: "active",
-      lastUpdate: "30 sec ago",
-      description: "Real-time traffic flow and congestion data",
-      coverage: "San Francisco Bay Area"
-    },
-    {
-      id: "rainfall-data", 
-      name: "Rainfall Monitoring",
-      type: "local",
-      status: "inactive",
-      lastUpdate: "2 hours ago",
-      description: "Local weather station precipitation data",
-      coverage: "Regional"
-    }
-  ],
+  sources = [],
   onRefresh,
   onToggle
 }: DataSourcePanelProps) {
@@ -103,7 +50,10 @@ export default function DataSourcePanel({
   };
 
   const nasaSources = sources.filter(s => s.type === "nasa");
-  const localSources = sources.filter(s => s.type === "local");
+  const localSources = sources.filter(s => s.type !== "nasa");
+
+  const formatLastUpdate = (lastUpdate: string | null) =>
+    lastUpdate ? `Updated ${formatDistanceToNow(new Date(lastUpdate), { addSuffix: true })}` : "Not fetched yet";
 
   return (
     <Card className="w-full" data-testid="card-data-sources">
@@ -144,7 +94,7 @@ export default function DataSourcePanel({
                         </p>
                         <div className="flex items-center gap-4 mt-1">
                           <span className="text-xs text-muted-foreground">
-                            Updated {source.lastUpdate}
+                            {formatLastUpdate(source.lastUpdate)}
                           </span>
                           {source.coverage && (
                             <span className="text-xs text-muted-foreground">
@@ -171,7 +121,7 @@ export default function DataSourcePanel({
                         data-testid={`button-toggle-${source.id}`}
                         className="h-7 w-7"
                       >
-                        <ExternalLink className="h-3 w-3" />
+                        {source.enabled ? <Power className="h-3 w-3" /> : <PowerOff className="h-3 w-3" />}
                       </Button>
                     </div>
                   </div>
@@ -182,68 +132,70 @@ export default function DataSourcePanel({
         </div>
 
         {/* Local Data Sources */}
-        <div>
-          <h4 className="font-medium mb-3 flex items-center gap-2">
-            <Database className="h-4 w-4" />
-            Local Datasets
-          </h4>
-          <div className="space-y-2">
-            {localSources.map((source) => (
-              <Card key={source.id} className="hover-elevate" data-testid={`source-${source.id}`}>
-                <CardContent className="p-3">
-                  <div className="flex items-center justify-between gap-3">
-                    <div className="flex items-center gap-3">
-                      <div className={`w-2 h-2 rounded-full ${statusColors[source.status]}`} />
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium text-sm" data-testid={`text-source-name-${source.id}`}>
-                            {source.name}
-                          </span>
-                          <Badge variant={statusVariants[source.status]} className="text-xs">
-                            {source.status}
-                          </Badge>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          {source.description}
-                        </p>
-                        <div className="flex items-center gap-4 mt-1">
-                          <span className="text-xs text-muted-foreground">
-                            Updated {source.lastUpdate}
-                          </span>
-                          {source.coverage && (
+        {localSources.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-3 flex items-center gap-2">
+              <Database className="h-4 w-4" />
+              Local Datasets
+            </h4>
+            <div className="space-y-2">
+              {localSources.map((source) => (
+                <Card key={source.id} className="hover-elevate" data-testid={`source-${source.id}`}>
+                  <CardContent className="p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-3">
+                        <div className={`w-2 h-2 rounded-full ${statusColors[source.status]}`} />
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-sm" data-testid={`text-source-name-${source.id}`}>
+                              {source.name}
+                            </span>
+                            <Badge variant={statusVariants[source.status]} className="text-xs">
+                              {source.status}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {source.description}
+                          </p>
+                          <div className="flex items-center gap-4 mt-1">
                             <span className="text-xs text-muted-foreground">
-                              Coverage: {source.coverage}
+                              {formatLastUpdate(source.lastUpdate)}
                             </span>
-                          )}
+                            {source.coverage && (
+                              <span className="text-xs text-muted-foreground">
+                                Coverage: {source.coverage}
+                              </span>
+                            )}
+                          </div>
                         </div>
                       </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRefresh(source.id)}
+                          data-testid={`button-refresh-${source.id}`}
+                          className="h-7 w-7"
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleToggle(source.id)}
+                          data-testid={`button-toggle-${source.id}`}
+                          className="h-7 w-7"
+                        >
+                          {source.enabled ? <Power className="h-3 w-3" /> : <PowerOff className="h-3 w-3" />}
+                        </Button>
+                      </div>
                     </div>
-                    <div className="flex gap-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleRefresh(source.id)}
-                        data-testid={`button-refresh-${source.id}`}
-                        className="h-7 w-7"
-                      >
-                        <RefreshCw className="h-3 w-3" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleToggle(source.id)}
-                        data-testid={`button-toggle-${source.id}`}
-                        className="h-7 w-7"
-                      >
-                        <ExternalLink className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
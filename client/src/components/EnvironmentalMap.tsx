@@ -3,6 +3,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Layers, ZoomIn, ZoomOut, RotateCcw } from "lucide-react";
+import type { GridBounds, LivabilityGrid } from "@/hooks/useLivabilityGrid";
 
 // Import Leaflet dynamically to avoid SSR issues
 import L from 'leaflet';
@@ -16,21 +17,42 @@ interface MapLayer {
 
 interface EnvironmentalMapProps {
   layers?: MapLayer[];
+  grid?: LivabilityGrid; // Drawn as the livability choropleth
   onLayerToggle?: (layerId: string) => void;
+  onBoundsChange?: (bounds: GridBounds) => void;
 }
 
+// Visible area, clamped to valid coordinates when zoomed out past one world
+const toGridBounds = (map: L.Map): GridBounds => {
+  const bounds = map.getBounds();
+  return {
+    minLon: Math.max(-180, bounds.getWest()),
+    minLat: Math.max(-90, bounds.getSouth()),
+    maxLon: Math.min(180, bounds.getEast()),
+    maxLat: Math.min(90, bounds.getNorth())
+  };
+};
+
 export default function EnvironmentalMap({ 
   layers = [
+    { id: 'livability', name: 'Livability', active: true, color: 'bg-emerald-500' },
     { id: 'air-quality', name: 'Air Quality', active: true, color: 'bg-blue-500' },
     { id: 'water-stress', name: 'Water Stress', active: true, color: 'bg-cyan-500' },
     { id: 'green-space', name: 'Green Space', active: false, color: 'bg-green-500' },
     { id: 'traffic', name: 'Traffic Data', active: false, color: 'bg-orange-500' }
   ],
-  onLayerToggle
+  grid,
+  onLayerToggle,
+  onBoundsChange
 }: EnvironmentalMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
+  const gridLayerRef = useRef<L.GeoJSON | null>(null);
+  const onBoundsChangeRef = useRef(onBoundsChange);
   const [selectedLayers, setSelectedLayers] = useState(layers);
+  const showGrid = selectedLayers.find(layer => layer.id === 'livability')?.active ?? false;
+
+  onBoundsChangeRef.current = onBoundsChange;
 
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
@@ -43,32 +65,9 @@ export default function EnvironmentalMap({
       attribution: '© OpenStreetMap contributors'
     }).addTo(map);
 
-    // Add some sample markers for demonstration
-    // todo: remove mock functionality
-    const sampleData = [
-      { lat: 37.7749, lng: -122.4194, type: 'air-quality', value: 45 },
-      { lat: 37.7849, lng: -122.4094, type: 'water-stress', value: 78 },
-      { lat: 37.7649, lng: -122.4294, type: 'green-space', value: 32 }
-    ];
-
-    sampleData.forEach(point => {
-      const marker = L.circleMarker([point.lat, point.lng], {
-        radius: 8,
-        fillColor: point.type === 'air-quality' ? '#3b82f6' : 
-                   point.type === 'water-stress' ? '#06b6d4' : '#10b981',
-        color: '#fff',
-        weight: 2,
-        opacity: 1,
-        fillOpacity: 0.8
-      }).addTo(map);
-
-      marker.bindPopup(`
-        <div class="p-2">
-          <div class="font-semibold">${point.type.replace('-', ' ').toUpperCase()}</div>
-          <div>Value: ${point.value}</div>
-        </div>
-      `);
-    });
+    // Report the visible area so the livability grid follows the view
+    map.on('moveend', () => onBoundsChangeRef.current?.(toGridBounds(map)));
+    onBoundsChangeRef.current?.(toGridBounds(map));
 
     mapInstanceRef.current = map;
 
@@ -80,6 +79,34 @@ export default function EnvironmentalMap({
     };
   }, []);
 
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    gridLayerRef.current?.remove();
+    gridLayerRef.current = null;
+    if (!grid || !showGrid) return;
+
+    gridLayerRef.current = L.geoJSON(grid as unknown as GeoJSON.FeatureCollection, {
+      style: (feature) => ({
+        fillColor: feature?.properties.color,
+        fillOpacity: 0.45,
+        color: feature?.properties.color,
+        weight: 0.5
+      }),
+      onEachFeature: (feature, layer) => {
+        const { overallScore, category, readingCount } = (feature as unknown as LivabilityGrid['features'][number]).properties;
+        layer.bindPopup(`
+          <div class="p-2">
+            <div class="font-semibold">Livability ${overallScore}</div>
+            <div>${category}</div>
+            <div>${readingCount} readings</div>
+          </div>
+        `);
+      }
+    }).addTo(map);
+  }, [grid, showGrid]);
+
   const handleLayerToggle = (layerId: string) => {
     const updatedLayers = selectedLayers.map(layer =>
       layer.id === layerId ? { ...layer, active: !layer.active } : layer
@@ -170,6 +197,24 @@ export default function EnvironmentalMap({
         </Button>
       </div>
 
+      {/* Livability Legend */}
+      {showGrid && grid && (
+        <div className="absolute bottom-4 right-4 z-[1000]">
+          <Card className="p-3 shadow-lg" data-testid="card-map-legend">
+            <div className="text-xs font-medium mb-2">Livability</div>
+            <div className="space-y-1">
+              {grid.legend.map(band => (
+                <div key={band.category} className="flex items-center gap-2 text-xs">
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: band.color }} />
+                  <span>{band.category}</span>
+                  <span className="text-muted-foreground ml-auto">{band.minScore}+</span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        </div>
+      )}
+
       {/* Status Bar */}
       <div className="absolute bottom-4 left-4 z-[1000]">
         <Badge variant="secondary" className="bg-background/90 backdrop-blur">
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { DimensionKey } from "@/hooks/useEnvironmentalData";
+import type { ComparisonRegion, LivabilityComparison as Comparison } from "@/hooks/useLivabilityComparison";
+import { Columns3, MapPin, Pin, X } from "lucide-react";
+
+export interface ComparisonPin {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+interface LivabilityComparisonProps {
+  comparison?: Comparison;
+  isComparing?: boolean;
+  currentLocation?: { latitude: number; longitude: number; label: string };
+  onCompare?: (regions: ComparisonRegion[], baseline?: string) => void;
+  storageKey?: string;
+}
+
+const DIMENSION_LABELS: Record<DimensionKey, string> = {
+  airQuality: "Air Quality",
+  waterSecurity: "Water Security",
+  greenSpace: "Green Space",
+  heat: "Urban Heat",
+  flood: "Flood Exposure",
+  noise: "Noise"
+};
+
+const TOP_RANKED = "top-ranked";
+
+export default function LivabilityComparison({
+  comparison,
+  isComparing = false,
+  currentLocation,
+  onCompare,
+  storageKey = "livability-comparison-pins"
+}: LivabilityComparisonProps) {
+  // Pins outlive the session so a shortlist of neighborhoods stays put
+  const [pins, setPins] = useState<ComparisonPin[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? "[]");
+    } catch {
+      return [];
+    }
+  });
+  const [draft, setDraft] = useState({ name: "", lat: "", lon: "" });
+  const [baseline, setBaseline] = useState(TOP_RANKED);
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(pins));
+  }, [pins, storageKey]);
+
+  const addPin = (pin: ComparisonPin) => {
+    setPins(current => [...current.filter(p => p.name !== pin.name), pin]);
+  };
+
+  const removePin = (name: string) => {
+    setPins(current => current.filter(p => p.name !== name));
+    if (baseline === name) setBaseline(TOP_RANKED);
+  };
+
+  const draftLat = parseFloat(draft.lat);
+  const draftLon = parseFloat(draft.lon);
+  const draftValid = draft.name.trim() !== "" &&
+    Math.abs(draftLat) <= 90 && Math.abs(draftLon) <= 180;
+
+  const handlePin = () => {
+    if (!draftValid) return;
+    addPin({ name: draft.name.trim(), lat: draftLat, lon: draftLon });
+    setDraft({ name: "", lat: "", lon: "" });
+  };
+
+  const handleCompare = () => {
+    onCompare?.(
+      pins.map(({ name, lat, lon }) => ({ name, point: { lat, lon } })),
+      baseline === TOP_RANKED ? undefined : baseline
+    );
+  };
+
+  const formatDelta = (delta: number | undefined) => {
+    if (delta === undefined || delta === 0) return null;
+    return (
+      <span className={`text-xs ml-1 ${delta > 0 ? "text-green-600" : "text-red-600"}`}>
+        {delta > 0 ? `+${delta}` : delta}
+      </span>
+    );
+  };
+
+  const rankings = comparison?.rankings ?? [];
+  const dimensionKeys = Array.from(new Set(rankings.flatMap(r => r.dimensions.map(d => d.key))));
+
+  return (
+    <Card data-testid="card-livability-comparison">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Columns3 className="h-4 w-4" />
+          Compare Neighborhoods
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Input
+            placeholder="Name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            data-testid="input-pin-name"
+          />
+          <div className="flex gap-2">
+            <Input
+              placeholder="Latitude"
+              inputMode="decimal"
+              value={draft.lat}
+              onChange={(e) => setDraft({ ...draft, lat: e.target.value })}
+              data-testid="input-pin-lat"
+            />
+            <Input
+              placeholder="Longitude"
+              inputMode="decimal"
+              value={draft.lon}
+              onChange={(e) => setDraft({ ...draft, lon: e.target.value })}
+              data-testid="input-pin-lon"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handlePin} disabled={!draftValid} data-testid="button-add-pin">
+              <Pin className="h-3 w-3 mr-1" />
+              Pin
+            </Button>
+            {currentLocation && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => addPin({ name: currentLocation.label, lat: currentLocation.latitude, lon: currentLocation.longitude })}
+                data-testid="button-pin-current"
+              >
+                <MapPin className="h-3 w-3 mr-1" />
+                Pin current location
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {pins.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {pins.map(pin => (
+              <Badge key={pin.name} variant="secondary" className="gap-1" data-testid={`badge-pin-${pin.name}`}>
+                {pin.name}
+                <button onClick={() => removePin(pin.name)} aria-label={`Unpin ${pin.name}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Select value={baseline} onValueChange={setBaseline}>
+            <SelectTrigger className="h-9 text-xs" data-testid="select-comparison-baseline">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TOP_RANKED}>Baseline: top ranked</SelectItem>
+              {pins.map(pin => (
+                <SelectItem key={pin.name} value={pin.name}>Baseline: {pin.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={handleCompare}
+            disabled={pins.length < 2 || isComparing}
+            data-testid="button-compare"
+          >
+            {isComparing ? "Comparing..." : "Compare"}
+          </Button>
+        </div>
+
+        {rankings.length > 0 && (
+          <Table data-testid="table-comparison">
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {rankings.map(region => (
+                  <TableHead key={region.name} className="text-center">
+                    #{region.ranking} {region.name}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">Overall</TableCell>
+                {rankings.map(region => (
+                  <TableCell key={region.name} className="text-center">
+                    <span className="font-semibold">{region.overallScore}</span>
+                    {formatDelta(region.deltas?.overall)}
+                    <div className="text-xs text-muted-foreground">{region.category.category}</div>
+                  </TableCell>
+                ))}
+              </TableRow>
+              {dimensionKeys.map(key => (
+                <TableRow key={key}>
+                  <TableCell>{DIMENSION_LABELS[key]}</TableCell>
+                  {rankings.map(region => {
+                    const dimension = region.dimensions.find(d => d.key === key);
+                    return (
+                      <TableCell key={region.name} className="text-center">
+                        {dimension ? dimension.score : "–"}
+                        {formatDelta(region.deltas?.dimensions[key])}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {comparison && comparison.unscored.length > 0 && (
+          <div className="space-y-1 text-xs text-muted-foreground" data-testid="text-unscored-regions">
+            {comparison.unscored.map(region => (
+              <div key={region.name}>{region.name}: {region.reason}</div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
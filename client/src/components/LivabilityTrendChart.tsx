@@ -0,0 +1,145 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { DimensionKey } from "@/hooks/useEnvironmentalData";
+import type { HistoryInterval, LivabilityHistory } from "@/hooks/useLivabilityHistory";
+import { TrendingUp } from "lucide-react";
+
+const SERIES: Array<{ key: "overall" | DimensionKey; label: string; color: string }> = [
+  { key: "overall", label: "Overall", color: "hsl(var(--foreground))" },
+  { key: "airQuality", label: "Air Quality", color: "hsl(var(--chart-1))" },
+  { key: "waterSecurity", label: "Water Security", color: "hsl(var(--chart-4))" },
+  { key: "greenSpace", label: "Green Space", color: "hsl(var(--chart-3))" },
+  { key: "heat", label: "Urban Heat", color: "hsl(var(--chart-2))" },
+  { key: "flood", label: "Flood Exposure", color: "hsl(var(--chart-5))" },
+  { key: "noise", label: "Noise", color: "hsl(var(--muted-foreground))" }
+];
+
+const INTERVAL_LABELS: Record<HistoryInterval, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly"
+};
+
+// Changes smaller than this many points read as stable
+const STABLE_BAND = 2;
+
+interface LivabilityTrendChartProps {
+  history?: LivabilityHistory;
+  interval: HistoryInterval;
+  onIntervalChange: (interval: HistoryInterval) => void;
+  isLoading?: boolean;
+}
+
+export default function LivabilityTrendChart({
+  history,
+  interval,
+  onIntervalChange,
+  isLoading = false
+}: LivabilityTrendChartProps) {
+  const buckets = history?.buckets ?? [];
+
+  // Only chart dimensions scored somewhere in the range
+  const series = SERIES.filter(({ key }) =>
+    key === "overall" || buckets.some(bucket => bucket.dimensions[key])
+  );
+
+  const config = Object.fromEntries(
+    series.map(({ key, label, color }) => [key, { label, color }])
+  ) satisfies ChartConfig;
+
+  const rows = buckets.map(bucket => ({
+    start: bucket.start,
+    overall: bucket.overall.mean,
+    ...Object.fromEntries(
+      Object.entries(bucket.dimensions).map(([key, summary]) => [key, summary?.mean])
+    )
+  }));
+
+  const formatBucket = (start: string) => {
+    const date = new Date(start);
+    return interval === "month"
+      ? date.toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" })
+      : date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+  };
+
+  const getTrendBadge = (change: number | null | undefined) => {
+    if (change === null || change === undefined) return { variant: "outline" as const, label: "No trend yet" };
+    if (change >= STABLE_BAND) return { variant: "default" as const, label: `Improving +${change}` };
+    if (change <= -STABLE_BAND) return { variant: "destructive" as const, label: `Declining ${change}` };
+    return { variant: "secondary" as const, label: "Stable" };
+  };
+
+  return (
+    <Card data-testid="card-livability-trends">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-base flex items-center gap-2">
+          <TrendingUp className="h-4 w-4" />
+          Livability Trends
+        </CardTitle>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={interval}
+          onValueChange={(value) => value && onIntervalChange(value as HistoryInterval)}
+          data-testid="toggle-trend-interval"
+        >
+          {(Object.keys(INTERVAL_LABELS) as HistoryInterval[]).map(key => (
+            <ToggleGroupItem key={key} value={key} className="text-xs" data-testid={`toggle-interval-${key}`}>
+              {INTERVAL_LABELS[key]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-history">
+            No livability scores recorded in this range yet.
+          </p>
+        ) : (
+          <ChartContainer config={config} className="aspect-auto h-48 w-full">
+            <LineChart data={rows} margin={{ left: -20, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="start" tickFormatter={formatBucket} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatBucket(payload[0]?.payload.start)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {series.map(({ key }) => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  type="monotone"
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={key === "overall" ? 2.5 : 1.5}
+                  dot={rows.length === 1}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {rows.length > 0 && (
+          <div className="space-y-2">
+            {series.map(({ key, label }) => {
+              const badge = getTrendBadge(key === "overall" ? history?.trend.overall : history?.trend.dimensions[key]);
+              return (
+                <div key={key} className="flex justify-between items-center">
+                  <span className="text-sm">{label}</span>
+                  <Badge variant={badge.variant} className="text-xs" data-testid={`badge-trend-${key}`}>
+                    {badge.label}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,30 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import type { CategoryDataQuality, DataQuality } from "@/hooks/useEnvironmentalData";
+
+interface LiveabilityDimension {
+  key: string;
+  label: string;
+  score: number;
+}
 
 interface LiveabilityData {
-  airQuality: number;
-  waterSecurity: number;
-  greenSpace: number;
+  dimensions: LiveabilityDimension[]; // Rendered in order, one row each
   overall: number;
+  dominantPollutant?: string | null;
+  confidence?: { lower: number; upper: number } | null;
+  dataQuality?: DataQuality | null;
 }
 
+const POLLUTANT_LABELS: Record<string, string> = {
+  pm25: "PM2.5",
+  pm10: "PM10",
+  ozone: "Ozone",
+  no2: "NO₂",
+  so2: "SO₂"
+};
+
 interface LiveabilityProps {
   data: LiveabilityData;
   location?: string;
@@ -20,6 +37,27 @@ export default function LiveabilityScorecard({ data, location = "Current Locatio
     return "text-red-600";
   };
 
+  const getQualityVariant = (rating: DataQuality["rating"]) => {
+    if (rating === "high") return "default" as const;
+    if (rating === "medium") return "secondary" as const;
+    return "destructive" as const;
+  };
+
+  const summarizeQuality = (quality: DataQuality) => {
+    const categories = Object.entries(quality)
+      .filter(([key]) => key !== "rating")
+      .map(([, category]) => category as CategoryDataQuality);
+    const readings = categories.reduce((sum, c) => sum + c.readingCount, 0);
+    const sources = new Set(categories.flatMap(c => Object.keys(c.sources))).size;
+    const ages = categories.map(c => c.stalenessHours).filter((h): h is number => h !== null);
+    const oldest = ages.length > 0 ? Math.max(...ages) : null;
+    return `${readings} readings from ${sources} sources` +
+      (oldest !== null ? ` · oldest category ${oldest < 1 ? "under 1" : Math.round(oldest)}h old` : "");
+  };
+
+  // airQuality -> air-quality, keeping the existing test ids
+  const toTestId = (key: string) => key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
   const getProgressColor = (score: number) => {
     if (score >= 70) return "bg-green-500";
     if (score >= 50) return "bg-yellow-500";
@@ -36,51 +74,45 @@ export default function LiveabilityScorecard({ data, location = "Current Locatio
           </span>
         </CardTitle>
         <p className="text-sm text-muted-foreground">{location}</p>
+        {data.confidence && (
+          <p className="text-xs text-muted-foreground" data-testid="text-confidence-interval">
+            95% confidence: {data.confidence.lower}–{data.confidence.upper}
+          </p>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="space-y-3">
-          <div className="flex justify-between items-center">
-            <span className="text-sm font-medium">Air Quality</span>
-            <span className={`text-sm font-semibold ${getScoreColor(data.airQuality)}`}>
-              {data.airQuality}/100
-            </span>
+        {data.dimensions.map(dimension => (
+          <div key={dimension.key} className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">{dimension.label}</span>
+              <span className={`text-sm font-semibold ${getScoreColor(dimension.score)}`}>
+                {dimension.score}/100
+              </span>
+            </div>
+            <Progress 
+              value={dimension.score} 
+              className="h-2"
+              data-testid={`progress-${toTestId(dimension.key)}`}
+            />
+            {dimension.key === "airQuality" && data.dominantPollutant && (
+              <p className="text-xs text-muted-foreground" data-testid="text-dominant-pollutant">
+                Driven by {POLLUTANT_LABELS[data.dominantPollutant] ?? data.dominantPollutant}
+              </p>
+            )}
           </div>
-          <Progress 
-            value={data.airQuality} 
-            className="h-2"
-            data-testid="progress-air-quality"
-          />
-        </div>
-
-        <div className="space-y-3">
-          <div className="flex justify-between items-center">
-            <span className="text-sm font-medium">Water Security</span>
-            <span className={`text-sm font-semibold ${getScoreColor(data.waterSecurity)}`}>
-              {data.waterSecurity}/100
-            </span>
-          </div>
-          <Progress 
-            value={data.waterSecurity} 
-            className="h-2"
-            data-testid="progress-water-security"
-          />
-        </div>
-
-        <div className="space-y-3">
-          <div className="flex justify-between items-center">
-            <span className="text-sm font-medium">Green Space</span>
-            <span className={`text-sm font-semibold ${getScoreColor(data.greenSpace)}`}>
-              {data.greenSpace}/100
-            </span>
-          </div>
-          <Progress 
-            value={data.greenSpace} 
-            className="h-2"
-            data-testid="progress-green-space"
-          />
-        </div>
+        ))}
 
-        <div className="pt-2 border-t">
+        <div className="pt-2 border-t space-y-2">
+          {data.dataQuality && (
+            <div className="flex items-center justify-between gap-2" data-testid="data-quality">
+              <Badge variant={getQualityVariant(data.dataQuality.rating)} className="capitalize">
+                {data.dataQuality.rating} data quality
+              </Badge>
+              <span className="text-xs text-muted-foreground text-right">
+                {summarizeQuality(data.dataQuality)}
+              </span>
+            </div>
+          )}
           <div className="flex justify-center">
             <span className="text-xs text-muted-foreground">
               Last updated: {new Date().toLocaleTimeString()}
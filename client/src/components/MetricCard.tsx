@@ -8,6 +8,7 @@ interface MetricCardProps {
   unit?: string;
   trend?: "up" | "down" | "stable";
   trendValue?: string;
+  higherIsBetter?: boolean; // Colours a rising trend green instead of red
   status: "good" | "warning" | "danger";
   description?: string;
   lastUpdated?: string;
@@ -31,11 +32,13 @@ export default function MetricCard({
   unit,
   trend,
   trendValue,
+  higherIsBetter = false,
   status,
   description,
   lastUpdated
 }: MetricCardProps) {
   const TrendIcon = trend === "up" ? TrendingUp : trend === "down" ? TrendingDown : Minus;
+  const improving = trend === "up" ? higherIsBetter : !higherIsBetter;
   
   return (
     <Card className="hover-elevate" data-testid={`card-metric-${title.toLowerCase().replace(/\s+/g, '-')}`}>
@@ -57,7 +60,7 @@ export default function MetricCard({
           {trend && trendValue && (
             <div className="flex items-center gap-1">
               <TrendIcon className={`h-4 w-4 ${
-                trend === "up" ? "text-red-500" : trend === "down" ? "text-green-500" : "text-gray-500"
+                trend === "stable" ? "text-gray-500" : improving ? "text-green-500" : "text-red-500"
               }`} />
               <span className="text-xs text-muted-foreground">{trendValue}</span>
             </div>
@@ -1,4 +1,37 @@
-import DataSourcePanel from '../DataSourcePanel'
+import DataSourcePanel, { type DataSource } from '../DataSourcePanel'
+
+const sampleSources: DataSource[] = [
+  {
+    id: "aura-omi",
+    name: "Aura OMI",
+    type: "nasa",
+    status: "active",
+    enabled: true,
+    lastUpdate: new Date(Date.now() - 3 * 60 * 1000).toISOString(),
+    description: "Ozone Monitoring Instrument for air quality data",
+    coverage: "Global"
+  },
+  {
+    id: "tempo",
+    name: "TEMPO",
+    type: "nasa",
+    status: "active",
+    enabled: true,
+    lastUpdate: new Date(Date.now() - 60 * 1000).toISOString(),
+    description: "Tropospheric Emissions Monitoring",
+    coverage: "North America"
+  },
+  {
+    id: "rainfall-data",
+    name: "Rainfall Monitoring",
+    type: "local",
+    status: "inactive",
+    enabled: false,
+    lastUpdate: null,
+    description: "Local weather station precipitation data",
+    coverage: "Regional"
+  }
+]
 
 export default function DataSourcePanelExample() {
   const handleRefresh = (sourceId: string) => {
@@ -12,9 +45,10 @@ export default function DataSourcePanelExample() {
   return (
     <div className="p-4 max-w-lg">
       <DataSourcePanel 
+        sources={sampleSources}
         onRefresh={handleRefresh}
         onToggle={handleToggle}
       />
     </div>
   )
-}
\ No newline at end of file
+}
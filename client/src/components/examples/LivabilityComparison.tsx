@@ -0,0 +1,52 @@
+import LivabilityComparison from '../LivabilityComparison'
+
+export default function LivabilityComparisonExample() {
+  const dimensions = (air: number, water: number, green: number) => [
+    { key: 'airQuality' as const, label: 'Air Quality', score: air, weight: 0.4 },
+    { key: 'waterSecurity' as const, label: 'Water Security', score: water, weight: 0.33 },
+    { key: 'greenSpace' as const, label: 'Green Space', score: green, weight: 0.27 }
+  ]
+
+  const comparison = {
+    profile: 'balanced',
+    normalization: 'step' as const,
+    baseline: 'Mission District',
+    rankings: [
+      {
+        name: 'Mission District',
+        ranking: 1,
+        overallScore: 78,
+        category: { category: 'Good', description: 'Generally favorable environmental conditions', color: 'lightgreen' },
+        confidence: { level: 0.95, lower: 72, upper: 84 },
+        dimensions: dimensions(85, 70, 76),
+        unscoredDimensions: [],
+        center: { lat: 37.7599, lon: -122.4148 },
+        readingCount: 18,
+        deltas: { overall: 0, dimensions: { airQuality: 0, waterSecurity: 0, greenSpace: 0 } }
+      },
+      {
+        name: 'SoMa',
+        ranking: 2,
+        overallScore: 61,
+        category: { category: 'Moderate', description: 'Mixed environmental conditions', color: 'yellow' },
+        confidence: { level: 0.95, lower: 54, upper: 68 },
+        dimensions: dimensions(60, 70, 48),
+        unscoredDimensions: [],
+        center: { lat: 37.7785, lon: -122.4056 },
+        readingCount: 12,
+        deltas: { overall: -17, dimensions: { airQuality: -25, waterSecurity: 0, greenSpace: -28 } }
+      }
+    ],
+    unscored: [{ name: 'Farallon Islands', reason: 'No recent air quality, water security readings' }]
+  }
+
+  return (
+    <div className="p-4 max-w-md">
+      <LivabilityComparison
+        comparison={comparison}
+        currentLocation={{ latitude: 37.7749, longitude: -122.4194, label: 'San Francisco' }}
+        onCompare={(regions, baseline) => console.log('Compare', regions, baseline)}
+      />
+    </div>
+  )
+}
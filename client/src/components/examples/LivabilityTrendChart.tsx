@@ -0,0 +1,42 @@
+import { useState } from 'react'
+import LivabilityTrendChart from '../LivabilityTrendChart'
+import type { HistoryInterval } from '@/hooks/useLivabilityHistory'
+
+export default function LivabilityTrendChartExample() {
+  const [interval, setInterval] = useState<HistoryInterval>('week')
+
+  const bucket = (start: string, end: string, overall: number, air: number, water: number, green: number) => ({
+    start,
+    end,
+    scoreCount: 7,
+    overall: { mean: overall, min: overall - 4, max: overall + 4 },
+    dimensions: {
+      airQuality: { mean: air, min: air - 5, max: air + 5 },
+      waterSecurity: { mean: water, min: water - 3, max: water + 3 },
+      greenSpace: { mean: green, min: green - 2, max: green + 2 }
+    }
+  })
+
+  const history = {
+    interval,
+    from: '2026-02-09T00:00:00.000Z',
+    to: '2026-03-09T00:00:00.000Z',
+    radiusKm: 1,
+    buckets: [
+      bucket('2026-02-09T00:00:00.000Z', '2026-02-16T00:00:00.000Z', 68, 72, 65, 70),
+      bucket('2026-02-16T00:00:00.000Z', '2026-02-23T00:00:00.000Z', 70, 76, 66, 68),
+      bucket('2026-02-23T00:00:00.000Z', '2026-03-02T00:00:00.000Z', 71, 80, 64, 66),
+      bucket('2026-03-02T00:00:00.000Z', '2026-03-09T00:00:00.000Z', 73, 85, 65, 62)
+    ],
+    trend: {
+      overall: 5,
+      dimensions: { airQuality: 13, waterSecurity: 0, greenSpace: -8 }
+    }
+  }
+
+  return (
+    <div className="p-4 max-w-md">
+      <LivabilityTrendChart history={history} interval={interval} onIntervalChange={setInterval} />
+    </div>
+  )
+}
@@ -3,10 +3,15 @@ import LiveabilityScorecard from '../LiveabilityScorecard'
 export default function LiveabilityScorecardExample() {
   // todo: remove mock functionality 
   const mockData = {
-    airQuality: 72,
-    waterSecurity: 65,
-    greenSpace: 45,
-    overall: 61
+    dimensions: [
+      { key: "airQuality", label: "Air Quality", score: 72 },
+      { key: "waterSecurity", label: "Water Security", score: 65 },
+      { key: "greenSpace", label: "Green Space", score: 45 },
+      { key: "heat", label: "Urban Heat", score: 58 },
+      { key: "flood", label: "Flood Exposure", score: 80 }
+    ],
+    overall: 63,
+    dominantPollutant: "pm25"
   }
 
   return (
@@ -19,6 +19,7 @@ export default function MetricCardExample() {
         unit="%"
         trend="up"
         trendValue="3% ↑"
+        higherIsBetter
         status="warning"
         description="Moderate stress level"
         lastUpdated="5 min ago"
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface DataSourceStatus {
+  id: string;
+  name: string;
+  type: "nasa" | "local" | "fixture";
+  category: "air_quality" | "water_security" | "green_space" | "heat" | "flood" | "noise";
+  description: string;
+  coverage: string;
+  cadenceMinutes: number;
+  resolutionKm: number;
+  enabled: boolean;
+  status: "active" | "inactive" | "error";
+  lastUpdate: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Hook for the server's registered environmental data providers
+ */
+export function useDataSources() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: sources,
+    isLoading: isSourcesLoading,
+    refetch: refetchSources
+  } = useQuery<DataSourceStatus[]>({
+    queryKey: ["/api/data-sources"],
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  // Enable or disable a provider
+  const setEnabledMutation = useMutation({
+    mutationFn: async ({ sourceId, enabled }: { sourceId: string; enabled: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/data-sources/${sourceId}`, { enabled });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+    },
+  });
+
+  const toggleSource = (sourceId: string) => {
+    const source = sources?.find(s => s.id === sourceId);
+    if (source) {
+      setEnabledMutation.mutate({ sourceId, enabled: !source.enabled });
+    }
+  };
+
+  return {
+    sources: sources ?? [],
+    isSourcesLoading,
+    isTogglingSource: setEnabledMutation.isPending,
+    toggleSource,
+    refetchSources,
+  };
+}
@@ -36,14 +36,68 @@ export interface EnvironmentalMetrics {
     longitude: number;
     source: string;
   } | null;
+  heat?: {
+    id: string;
+    landSurfaceTemperature: number; // °C
+    urbanHeatIsland?: number;
+    timestamp: string;
+    latitude: number;
+    longitude: number;
+    source: string;
+  } | null;
+  flood?: {
+    id: string;
+    floodRisk: number; // 0-100
+    inundatedArea?: number;
+    timestamp: string;
+    latitude: number;
+    longitude: number;
+    source: string;
+  } | null;
+  noise?: {
+    id: string;
+    noiseLevel: number; // dB(A)
+    timestamp: string;
+    latitude: number;
+    longitude: number;
+    source: string;
+  } | null;
+}
+
+export interface CategoryDataQuality {
+  readingCount: number;
+  sources: Record<string, number>;
+  stalenessHours: number | null;
+  disagreement: { sources: [string, string]; points: number } | null;
+  standardError: number;
+}
+
+export type DimensionKey = "airQuality" | "waterSecurity" | "greenSpace" | "heat" | "flood" | "noise";
+
+export interface DimensionScore {
+  key: DimensionKey;
+  label: string;
+  score: number;
+  weight: number;
 }
 
+// Quality per scored dimension; heat, flood and noise appear only where they were scored
+export type DataQuality = { rating: "high" | "medium" | "low" } &
+  Record<"airQuality" | "waterSecurity" | "greenSpace", CategoryDataQuality> &
+  Partial<Record<DimensionKey, CategoryDataQuality>>;
+
 export interface LivabilityScore {
   id: string;
   airQualityScore: number;
   waterSecurityScore: number;
   greenSpaceScore: number;
   overallScore: number;
+  profile?: string | null; // Scoring profile that produced the score
+  dominantPollutant?: string | null;
+  confidenceLower?: number | null; // 95% interval around overallScore
+  confidenceUpper?: number | null;
+  dataQuality?: DataQuality | null;
+  dimensionScores?: DimensionScore[] | null; // Absent on scores stored before dimensions were configurable
   location: string;
   timestamp: string;
   category?: {
@@ -54,6 +108,18 @@ export interface LivabilityScore {
   recommendations?: string[];
 }
 
+export type AlertStatus = "active" | "acknowledged" | "resolved" | "dismissed" | "expired";
+
+export interface AlertTransition {
+  from: AlertStatus;
+  to: AlertStatus;
+  at: string;
+  by: string;
+  reason: string | null;
+}
+
+export type AlertAction = "acknowledge" | "resolve" | "dismiss";
+
 export interface EnvironmentalAlert {
   id: string;
   type: "info" | "warning" | "danger";
@@ -67,25 +133,77 @@ export interface EnvironmentalAlert {
   isActive: boolean;
   actionable: boolean;
   recommendations?: any;
+  status: AlertStatus;
+  statusHistory: AlertTransition[]; // Oldest first
+  rule: string | null;
+  fingerprint: string | null;      // One open alert per condition and location cell
+  occurrences: number;             // Generation runs that detected the condition
+  lastSeenAt: string;
   timestamp: string;
+  updatedAt: string;
+}
+
+export interface SourceContribution {
+  source: string;
+  provider: string | null;
+  readingCount: number;
+  resolutionKm: number;
+  quality: number;
+  ageHours: number;
+  weight: number; // Share of the fused estimate, 0-1
+}
+
+export interface FusedEstimate {
+  value: number;
+  observedAt: string;
+  provenance: SourceContribution[];
 }
 
+export interface FusedMetrics {
+  airQuality: (FusedEstimate & { index: { aqi: number; dominantPollutant: string | null } }) | null;
+  waterSecurity: FusedEstimate | null; // Water stress level
+  greenSpace: FusedEstimate | null;    // Vegetation coverage
+  heat?: FusedEstimate | null;         // Land surface temperature
+  flood?: FusedEstimate | null;        // Flood risk
+  noise?: FusedEstimate | null;        // Noise level
+}
+
+export interface MetricTrend {
+  direction: "up" | "down" | "stable";
+  current: number | null;       // Mean over the latest window
+  previous: number | null;      // Mean over the window before it
+  change: number | null;
+  changePercent: number | null;
+  slopePerHour: number | null;
+  significant: boolean;         // Slope differs from zero at the 95% level
+  readingCount: number;
+}
+
+export type MetricTrends = Record<keyof EnvironmentalMetrics, MetricTrend>;
+
 export interface DashboardData {
   location: string;
   currentMetrics: EnvironmentalMetrics;
+  fusedMetrics?: FusedMetrics;
+  trends?: MetricTrends;
+  trendWindowHours?: number;
   livabilityScore: LivabilityScore | null;
   alerts: EnvironmentalAlert[];
   historicalData: {
     airQuality: any[];
     waterSecurity: any[];
     greenSpace: any[];
+    heat?: any[];
+    flood?: any[];
+    noise?: any[];
   };
 }
 
 /**
- * Hook for managing environmental data for a specific location
+ * Hook for managing environmental data for a specific location; metric trends
+ * compare the last trendWindowHours with the window before it
  */
-export function useEnvironmentalData(latitude: number, longitude: number) {
+export function useEnvironmentalData(latitude: number, longitude: number, trendWindowHours: number = 24) {
   const queryClient = useQueryClient();
 
   // Fetch comprehensive dashboard data
@@ -95,7 +213,11 @@ export function useEnvironmentalData(latitude: number, longitude: number) {
     error: dashboardError,
     refetch: refetchDashboard
   } = useQuery<DashboardData>({
-    queryKey: ["/api/dashboard", latitude, longitude],
+    queryKey: ["/api/dashboard", latitude, longitude, trendWindowHours],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/dashboard/${latitude}/${longitude}?trendWindow=${trendWindowHours}`);
+      return await response.json();
+    },
     enabled: !!(latitude && longitude),
     staleTime: 5 * 60 * 1000, // 5 minutes
     refetchInterval: 10 * 60 * 1000, // 10 minutes
@@ -123,8 +245,12 @@ export function useEnvironmentalData(latitude: number, longitude: number) {
       return await response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ 
-        queryKey: ["/api/dashboard", latitude, longitude] 
+      queryClient.invalidateQueries({
+        queryKey: ["/api/dashboard", latitude, longitude]
+      });
+      // The new score lands in the current history bucket
+      queryClient.invalidateQueries({
+        queryKey: ["/api/livability", latitude, longitude]
       });
     },
   });
@@ -153,10 +279,10 @@ export function useEnvironmentalData(latitude: number, longitude: number) {
     refetchInterval: 5 * 60 * 1000, // 5 minutes
   });
 
-  // Dismiss alert
-  const dismissAlertMutation = useMutation({
-    mutationFn: async (alertId: string) => {
-      const response = await apiRequest("PATCH", `/api/alerts/${alertId}/dismiss`);
+  // Acknowledge, resolve or dismiss an alert
+  const updateAlertMutation = useMutation({
+    mutationFn: async ({ alertId, action, reason }: { alertId: string; action: AlertAction; reason?: string }) => {
+      const response = await apiRequest("PATCH", `/api/alerts/${alertId}/${action}`, { reason });
       return await response.json();
     },
     onSuccess: () => {
@@ -186,7 +312,9 @@ export function useEnvironmentalData(latitude: number, longitude: number) {
     fetchEnvironmentalData: () => fetchEnvironmentalDataMutation.mutate(),
     calculateLivability: (location?: string) => calculateLivabilityMutation.mutate(location),
     generateAlerts: (location?: string) => generateAlertsMutation.mutate(location),
-    dismissAlert: (alertId: string) => dismissAlertMutation.mutate(alertId),
+    acknowledgeAlert: (alertId: string) => updateAlertMutation.mutate({ alertId, action: "acknowledge" }),
+    resolveAlert: (alertId: string, reason?: string) => updateAlertMutation.mutate({ alertId, action: "resolve", reason }),
+    dismissAlert: (alertId: string, reason?: string) => updateAlertMutation.mutate({ alertId, action: "dismiss", reason }),
     refetchDashboard,
     refetchAlerts,
   };
@@ -0,0 +1,59 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { DimensionKey, DimensionScore } from "./useEnvironmentalData";
+
+export interface ComparisonRegion {
+  name: string;
+  point?: { lat: number; lon: number };
+  radiusKm?: number;                // Around a point
+  polygon?: Array<[number, number]>; // [lon, lat] vertices
+}
+
+export interface ComparisonRequest {
+  regions: ComparisonRegion[];
+  profile?: string;
+  baseline?: string; // Defaults to the top ranked region
+}
+
+export interface RankedRegion {
+  name: string;
+  ranking: number;
+  overallScore: number;
+  category: { category: string; description: string; color: string };
+  confidence: { lower: number; upper: number; level: number } | null;
+  dimensions: DimensionScore[];
+  unscoredDimensions: DimensionKey[];
+  center: { lat: number; lon: number };
+  readingCount: number;
+  deltas: {                                          // Versus the baseline
+    overall: number;
+    dimensions: Partial<Record<DimensionKey, number>>;
+  } | null;
+}
+
+export interface LivabilityComparison {
+  profile: string;
+  normalization: "step" | "linear";
+  baseline: string | null;
+  rankings: RankedRegion[]; // Best first
+  unscored: Array<{ name: string; reason: string }>;
+}
+
+/**
+ * Hook for ranking several regions against each other
+ */
+export function useLivabilityComparison() {
+  const compareMutation = useMutation({
+    mutationFn: async (request: ComparisonRequest): Promise<LivabilityComparison> => {
+      const response = await apiRequest("POST", "/api/livability/compare", request);
+      return await response.json();
+    },
+  });
+
+  return {
+    comparison: compareMutation.data,
+    isComparing: compareMutation.isPending,
+    compareError: compareMutation.error,
+    compare: (request: ComparisonRequest) => compareMutation.mutate(request),
+  };
+}
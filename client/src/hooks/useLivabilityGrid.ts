@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import type { DimensionKey } from "./useEnvironmentalData";
+
+export interface GridBounds {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export interface LivabilityCategoryBand {
+  category: string;
+  description: string;
+  color: string;
+  minScore: number;
+}
+
+export interface GridCellFeature {
+  type: "Feature";
+  id: string;
+  geometry: { type: "Polygon"; coordinates: Array<Array<[number, number]>> };
+  properties: {
+    overallScore: number;
+    category: string;
+    color: string;
+    confidence: { level: number; lower: number; upper: number } | null;
+    dimensions: Partial<Record<DimensionKey, number>>;
+    readingCount: number;
+  };
+}
+
+export interface LivabilityGrid {
+  type: "FeatureCollection";
+  bbox: [number, number, number, number];
+  features: GridCellFeature[]; // Only cells with enough readings to score
+  resolution: number;
+  profile: string;
+  normalization: "step" | "linear";
+  cellCount: number;
+  cachedCells: number;
+  legend: LivabilityCategoryBand[]; // Best first
+}
+
+// Cell sizes in degrees, finest first; the server allows at most 400 cells over a
+// view up to 2 degrees across
+const RESOLUTIONS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5];
+const MAX_CELLS = 400;
+const MAX_SPAN_DEGREES = 2;
+
+/**
+ * Finest resolution that keeps the view within the server's cell limit
+ */
+export function gridResolutionFor(bounds: GridBounds): number {
+  const fits = (resolution: number) =>
+    (Math.ceil(bounds.maxLat / resolution) - Math.floor(bounds.minLat / resolution)) *
+    (Math.ceil(bounds.maxLon / resolution) - Math.floor(bounds.minLon / resolution)) <= MAX_CELLS;
+  return RESOLUTIONS.find(fits) ?? RESOLUTIONS[RESOLUTIONS.length - 1];
+}
+
+/**
+ * Whether the server will grid this view; wider views show no choropleth
+ */
+export function canGrid(bounds: GridBounds): boolean {
+  return bounds.maxLon - bounds.minLon <= MAX_SPAN_DEGREES && bounds.maxLat - bounds.minLat <= MAX_SPAN_DEGREES;
+}
+
+/**
+ * Hook for the livability choropleth covering the visible map area
+ */
+export function useLivabilityGrid(view: GridBounds | null) {
+  // Rounded before the span check so the request matches what was checked
+  const bounds: GridBounds | null = view && {
+    minLon: Number(view.minLon.toFixed(4)),
+    minLat: Number(view.minLat.toFixed(4)),
+    maxLon: Number(view.maxLon.toFixed(4)),
+    maxLat: Number(view.maxLat.toFixed(4)),
+  };
+  const enabled = bounds !== null && canGrid(bounds);
+  const resolution = bounds ? gridResolutionFor(bounds) : null;
+  const bbox = bounds ? [bounds.minLon, bounds.minLat, bounds.maxLon, bounds.maxLat].join(",") : "";
+
+  const {
+    data: grid,
+    isLoading: isGridLoading,
+    refetch: refetchGrid
+  } = useQuery<LivabilityGrid>({
+    queryKey: [`/api/livability/grid?bbox=${bbox}&resolution=${resolution}`],
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: previous => previous, // Keep the last grid on screen while panning
+  });
+
+  return {
+    grid: enabled ? grid : undefined, // Not the last grid once the view is too wide
+    isGridLoading,
+    refetchGrid,
+  };
+}
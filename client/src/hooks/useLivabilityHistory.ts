@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import type { DimensionKey } from "./useEnvironmentalData";
+
+export type HistoryInterval = "day" | "week" | "month";
+
+export interface ScoreSummary {
+  mean: number;
+  min: number;
+  max: number;
+}
+
+export interface HistoryBucket {
+  start: string; // Inclusive; weeks start on Monday
+  end: string;   // Exclusive
+  scoreCount: number;
+  overall: ScoreSummary;
+  dimensions: Partial<Record<DimensionKey, ScoreSummary>>;
+}
+
+export interface LivabilityHistory {
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  radiusKm: number;
+  buckets: HistoryBucket[]; // Oldest first; intervals without scores are left out
+  trend: {                  // Change in mean score from the first bucket to the last
+    overall: number | null;
+    dimensions: Partial<Record<DimensionKey, number>>;
+  };
+}
+
+/**
+ * Hook for a location's livability scores grouped by day, week or month
+ */
+export function useLivabilityHistory(latitude: number, longitude: number, interval: HistoryInterval) {
+  const {
+    data: history,
+    isLoading: isHistoryLoading,
+    refetch: refetchHistory
+  } = useQuery<LivabilityHistory>({
+    queryKey: ["/api/livability", latitude, longitude, `history?interval=${interval}`],
+    enabled: !!(latitude && longitude),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    history,
+    isHistoryLoading,
+    refetchHistory,
+  };
+}
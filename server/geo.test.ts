@@ -0,0 +1,115 @@
+// Unit tests for the great-circle and geohash helpers
+// Stored geohashes are matched by prefix, so a cover is checked the same way
+
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EARTH_RADIUS_KM,
+  GEOHASH_PRECISION,
+  boundingBoxes,
+  encodeGeohash,
+  geohashCover,
+  haversineKm,
+} from "./geo";
+
+// Point reached by travelling distanceKm from lat/lon on the given bearing
+function destination(lat: number, lon: number, bearingDegrees: number, distanceKm: number) {
+  const rad = Math.PI / 180;
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const bearing = bearingDegrees * rad;
+  const lat1 = lat * rad;
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+  );
+  const lon2 = lon * rad + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { lat: lat2 / rad, lon: ((lon2 / rad + 540) % 360) - 180 };
+}
+
+// Mirrors the LIKE 'prefix%' prefilter on the stored geohash column
+function matchesCover(prefixes: string[], lat: number, lon: number) {
+  const hash = encodeGeohash(lat, lon);
+  return prefixes.some(prefix => hash.startsWith(prefix));
+}
+
+describe("encodeGeohash", () => {
+  const vectors: Array<[number, number, string]> = [
+    [57.64911, 10.40744, "u4pruydqq"],
+    [42.6, -5.6, "ezs42"],
+    [37.8324, 112.5584, "ww8p1r4t8"],
+    [-25.382708, -49.265506, "6gkzwgjz"],
+    [0, 0, "s0000"],
+    [-90, -180, "00000"],
+  ];
+
+  for (const [lat, lon, expected] of vectors) {
+    test(`encodes ${lat},${lon} as ${expected}`, () => {
+      assert.equal(encodeGeohash(lat, lon, expected.length), expected);
+    });
+  }
+
+  test("defaults to the stored precision", () => {
+    assert.equal(encodeGeohash(57.64911, 10.40744).length, GEOHASH_PRECISION);
+  });
+
+  test("shorter hashes are prefixes of longer ones", () => {
+    const full = encodeGeohash(-33.8688, 151.2093);
+    for (let precision = 1; precision < GEOHASH_PRECISION; precision++) {
+      assert.equal(encodeGeohash(-33.8688, 151.2093, precision), full.slice(0, precision));
+    }
+  });
+});
+
+describe("geohashCover", () => {
+  const circles: Array<[string, number, number, number]> = [
+    ["a mid-latitude city", 37.7749, -122.4194, 25],
+    ["a small radius", 51.5074, -0.1278, 0.5],
+    ["a large radius", 10, 20, 400],
+    ["just west of the antimeridian", 0, 179.95, 30],
+    ["just east of the antimeridian", -16.5, -179.9, 50],
+    ["a high northern latitude", 78.2232, 15.6267, 40],
+    ["a high southern latitude", -77.85, 166.67, 60],
+    ["the antimeridian at high latitude", 65.5, -179.98, 20],
+  ];
+
+  for (const [name, lat, lon, radiusKm] of circles) {
+    test(`covers every point on a circle at ${name}`, () => {
+      const prefixes = geohashCover(lat, lon, radiusKm);
+      assert.ok(prefixes.length > 0);
+      assert.ok(prefixes.length <= 9);
+
+      for (let bearing = 0; bearing < 360; bearing += 5) {
+        const point = destination(lat, lon, bearing, radiusKm * 0.999);
+        assert.ok(haversineKm(lat, lon, point.lat, point.lon) <= radiusKm);
+        assert.ok(
+          matchesCover(prefixes, point.lat, point.lon),
+          `${point.lat},${point.lon} (bearing ${bearing}) is outside ${prefixes.join(",")}`
+        );
+      }
+      assert.ok(matchesCover(prefixes, lat, lon));
+    });
+  }
+
+  test("includes cells on both sides of the antimeridian", () => {
+    const prefixes = geohashCover(0, 179.95, 30);
+    assert.ok(prefixes.some(prefix => encodeGeohash(0, 179.95).startsWith(prefix)));
+    assert.ok(prefixes.some(prefix => encodeGeohash(0, -179.95).startsWith(prefix)));
+  });
+
+  test("gives no prefilter when the circle reaches a pole", () => {
+    for (const [lat, radiusKm] of [[89.9, 50], [-89.5, 100], [85, 600]]) {
+      assert.deepEqual(geohashCover(lat, 45, radiusKm), []);
+
+      const boxes = boundingBoxes(lat, 45, radiusKm);
+      assert.equal(boxes.length, 1);
+      assert.equal(boxes[0].minLon, -180);
+      assert.equal(boxes[0].maxLon, 180);
+    }
+  });
+
+  test("gives no prefilter when the circle is wider than the coarsest cells", () => {
+    assert.deepEqual(geohashCover(0, 0, 6000), []);
+  });
+});
@@ -0,0 +1,181 @@
+// Great-circle helpers for location queries
+// Distances are in kilometers on a spherical Earth
+
+export const EARTH_RADIUS_KM = 6371.0088;
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * Haversine distance between two points in kilometers
+ */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(Math.min(1, a)));
+}
+
+/**
+ * Boxes that together enclose every point within radiusKm, used to prefilter
+ * before the exact haversine check. A box crossing the antimeridian is split in
+ * two, and a circle reaching a pole spans every longitude.
+ */
+export function boundingBoxes(lat: number, lon: number, radiusKm: number): BoundingBox[] {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const minLat = lat - toDegrees(angular);
+  const maxLat = lat + toDegrees(angular);
+
+  if (minLat <= -90 || maxLat >= 90 || angular >= Math.PI / 2) {
+    return [{ minLat: Math.max(minLat, -90), maxLat: Math.min(maxLat, 90), minLon: -180, maxLon: 180 }];
+  }
+
+  const dLon = toDegrees(Math.asin(Math.sin(angular) / Math.cos(toRadians(lat))));
+  const minLon = lon - dLon;
+  const maxLon = lon + dLon;
+
+  if (minLon < -180) {
+    return [
+      { minLat, maxLat, minLon: minLon + 360, maxLon: 180 },
+      { minLat, maxLat, minLon: -180, maxLon }
+    ];
+  }
+  if (maxLon > 180) {
+    return [
+      { minLat, maxLat, minLon, maxLon: 180 },
+      { minLat, maxLat, minLon: -180, maxLon: maxLon - 360 }
+    ];
+  }
+
+  return [{ minLat, maxLat, minLon, maxLon }];
+}
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Stored precision; 9 characters is a cell of roughly 5 m
+export const GEOHASH_PRECISION = 9;
+
+const KM_PER_DEGREE = EARTH_RADIUS_KM * Math.PI / 180;
+
+/**
+ * Encode a point as a base32 geohash; longer hashes are nested cells of shorter ones
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number = GEOHASH_PRECISION): string {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // Bits alternate, starting with longitude
+
+  while (hash.length < precision) {
+    const range = evenBit ? lonRange : latRange;
+    const coordinate = evenBit ? lon : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+// Cell size in degrees for a geohash length
+function geohashCellDegrees(precision: number) {
+  const lonBits = Math.ceil(precision * 5 / 2);
+  const latBits = Math.floor(precision * 5 / 2);
+  return { lat: 180 / 2 ** latBits, lon: 360 / 2 ** lonBits };
+}
+
+/**
+ * Geohash prefixes whose cells together cover every point within radiusKm: the
+ * cell containing the point and its eight neighbours, at the finest precision
+ * where a cell is at least radiusKm across. Returns no prefixes (no usable cell
+ * filter) when the circle reaches a pole or is wider than the coarsest cells.
+ */
+export function geohashCover(lat: number, lon: number, radiusKm: number): string[] {
+  const boxes = boundingBoxes(lat, lon, radiusKm);
+  if (boxes.length === 1 && boxes[0].minLon === -180 && boxes[0].maxLon === 180) {
+    return [];
+  }
+
+  // Cells are narrowest in km at the poleward edge of the search area
+  const edgeLat = Math.max(Math.abs(boxes[0].minLat), Math.abs(boxes[0].maxLat));
+  const lonKmPerDegree = KM_PER_DEGREE * Math.cos(edgeLat * Math.PI / 180);
+
+  let precision = 0;
+  for (let p = 1; p <= GEOHASH_PRECISION; p++) {
+    const cell = geohashCellDegrees(p);
+    if (cell.lat * KM_PER_DEGREE < radiusKm || cell.lon * lonKmPerDegree < radiusKm) break;
+    precision = p;
+  }
+  if (precision === 0) return [];
+
+  const cell = geohashCellDegrees(precision);
+  const wrapLon = (value: number) => ((value + 540) % 360) - 180;
+  const prefixes = new Set<string>();
+
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLon of [-1, 0, 1]) {
+      const neighbourLat = Math.min(Math.max(lat + dLat * cell.lat, -90), 90);
+      prefixes.add(encodeGeohash(neighbourLat, wrapLon(lon + dLon * cell.lon), precision));
+    }
+  }
+
+  return Array.from(prefixes);
+}
+
+// Polygon vertex in GeoJSON order
+export type LonLat = [lon: number, lat: number];
+
+/**
+ * Ray-casting test in plain degrees, which is exact enough for neighbourhood-sized
+ * polygons; rings crossing the antimeridian are not supported
+ */
+export function pointInPolygon(lat: number, lon: number, ring: LonLat[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lon < (lonJ - lonI) * (lat - latI) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Circle around a polygon's vertex centroid reaching its farthest vertex, used to
+ * fetch candidate rows before the exact pointInPolygon check
+ */
+export function enclosingCircle(ring: LonLat[]): { lat: number; lon: number; radiusKm: number } {
+  // GeoJSON rings repeat the first vertex at the end
+  const [firstLon, firstLat] = ring[0];
+  const [lastLon, lastLat] = ring[ring.length - 1];
+  const vertices = firstLon === lastLon && firstLat === lastLat ? ring.slice(0, -1) : ring;
+
+  const lat = vertices.reduce((sum, [, vertexLat]) => sum + vertexLat, 0) / vertices.length;
+  const lon = vertices.reduce((sum, [vertexLon]) => sum + vertexLon, 0) / vertices.length;
+  const radiusKm = Math.max(...vertices.map(([vertexLon, vertexLat]) => haversineKm(lat, lon, vertexLat, vertexLon)));
+  return { lat, lon, radiusKm };
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import backfillService from "./services/backfillService";
+import monitoringService from "./services/monitoringService";
+import notificationService from "./services/notificationService";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +70,16 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Continue any backfill jobs interrupted by a previous shutdown
+    backfillService.resumeIncompleteJobs().catch(error => {
+      console.error("Error resuming backfill jobs:", error);
+    });
+
+    // Refresh watched locations as they fall due
+    monitoringService.start();
+
+    // Retry alert notifications that failed to deliver
+    notificationService.start();
   });
 })();
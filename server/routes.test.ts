@@ -0,0 +1,1532 @@
+// Route-level integration tests for the Express API
+// Boots the app against in-memory storage and the seeded simulators
+
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { createServer, type Server } from "http";
+import net, { type AddressInfo } from "net";
+import { createHmac } from "crypto";
+import { PgDialect, getTableConfig } from "drizzle-orm/pg-core";
+import { airQualityData, alertThresholdOverrides } from "@shared/schema";
+import { geohashCover } from "./geo";
+
+process.env.STORAGE_DRIVER = "memory";
+process.env.SIMULATION_SEED = "42";
+delete process.env.OPENAI_API_KEY;
+
+const { registerRoutes } = await import("./routes");
+const { storage, createStorage, observationLocationKey, withinRadius } = await import("./storage");
+const { default: livabilityCalculator } = await import("./services/livabilityCalculator");
+const { default: nasaDataService } = await import("./services/nasaDataService");
+const { default: monitoringService } = await import("./services/monitoringService");
+const { default: notificationService } = await import("./services/notificationService");
+
+let server: Server;
+let baseUrl: string;
+
+async function request(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : undefined };
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("storage selection", () => {
+  const { STORAGE_DRIVER, NODE_ENV } = process.env;
+  after(() => {
+    process.env.STORAGE_DRIVER = STORAGE_DRIVER;
+    if (NODE_ENV === undefined) delete process.env.NODE_ENV;
+    else process.env.NODE_ENV = NODE_ENV;
+  });
+
+  test("falls back to memory outside production only", () => {
+    delete process.env.DATABASE_URL;
+    delete process.env.STORAGE_DRIVER;
+    process.env.NODE_ENV = "development";
+    assert.ok(createStorage());
+
+    process.env.NODE_ENV = "production";
+    assert.throws(() => createStorage(), /DATABASE_URL is not set/);
+    assert.ok(createStorage("memory"));
+  });
+});
+
+describe("coordinate validation", () => {
+  const routes: Array<[string, string]> = [
+    ["GET", "/api/environmental-data/abc/-122.4"],
+    ["GET", "/api/livability/37.7/abc"],
+    ["GET", "/api/livability/abc/-122.4/history"],
+    ["POST", "/api/alerts/generate/abc/abc"],
+    ["GET", "/api/air-quality/north/-122.4"],
+    ["GET", "/api/water-security/37.7/west"],
+    ["GET", "/api/green-space/x/y"],
+    ["GET", "/api/dashboard/abc/-122.4"],
+  ];
+
+  for (const [method, path] of routes) {
+    test(`${method} ${path} rejects invalid coordinates`, async () => {
+      const res = await request(method, path);
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, "Invalid coordinates");
+    });
+  }
+});
+
+describe("environmental data ingestion", () => {
+  test("stores readings from every covering provider", async () => {
+    const res = await request("GET", "/api/environmental-data/37.7749/-122.4194");
+    assert.equal(res.status, 200);
+
+    const sources = new Set(res.body.airQuality.map((r: any) => r.source));
+    assert.deepEqual([...sources].sort(), ["nasa_omi", "nasa_tempo"]);
+    assert.ok(res.body.waterSecurity.length > 0);
+    assert.ok(res.body.greenSpace.length > 0);
+  });
+
+  test("re-ingesting the same location does not duplicate readings", async () => {
+    await request("GET", "/api/environmental-data/40.7128/-74.0060");
+    const first = await storage.getAirQualityDataByLocation(40.7128, -74.0060);
+    await request("GET", "/api/environmental-data/40.7128/-74.0060");
+    const second = await storage.getAirQualityDataByLocation(40.7128, -74.0060);
+
+    assert.equal(second.length, first.length);
+  });
+
+  test("keys readings either side of the equator, prime meridian and antimeridian alike", async () => {
+    assert.equal(observationLocationKey(-0.0004, -0.0004), observationLocationKey(0.0004, 0.0004));
+    assert.equal(observationLocationKey(-0.0004, -0.0004), "0.000,0.000");
+    assert.equal(observationLocationKey(12.5, 180), observationLocationKey(12.5, -180));
+    assert.equal(observationLocationKey(12.5, 179.9996), "12.500,-180.000");
+
+    const timestamp = new Date("2024-03-01T00:00:00Z");
+    for (const [latitude, longitude] of [[-0.0004, 179.9998], [0.0004, -179.9998]]) {
+      await storage.insertAirQualityData({ latitude, longitude, aqi: 30, source: "fixture-key", timestamp });
+    }
+    const stored = await storage.getAirQualityDataByLocation(0, 180, { radiusKm: 1 });
+    assert.equal(stored.filter(r => r.source === "fixture-key").length, 1);
+  });
+
+  test("skips providers whose coverage excludes the point", async () => {
+    const res = await request("GET", "/api/environmental-data/48.8566/2.3522");
+    assert.equal(res.status, 200);
+    assert.ok(res.body.airQuality.every((r: any) => r.source !== "nasa_tempo"));
+  });
+});
+
+describe("livability", () => {
+  test("returns 404 when a location has no environmental data", async () => {
+    const res = await request("GET", "/api/livability/-33.8688/151.2093");
+    assert.equal(res.status, 404);
+    assert.equal(res.body.error, "Insufficient environmental data for livability calculation");
+  });
+
+  test("scores a location after ingestion", async () => {
+    await request("GET", "/api/environmental-data/34.0522/-118.2437");
+    const res = await request("GET", "/api/livability/34.0522/-118.2437?location=Los%20Angeles");
+
+    assert.equal(res.status, 200);
+    for (const key of ["airQualityScore", "waterSecurityScore", "greenSpaceScore", "overallScore"]) {
+      assert.ok(res.body[key] >= 0 && res.body[key] <= 100, `${key} out of range`);
+    }
+    assert.ok(res.body.category.category);
+    assert.ok(Array.isArray(res.body.recommendations));
+    assert.ok(res.body.id);
+  });
+});
+
+describe("scoring profiles", () => {
+  const publicHealth = {
+    name: "public-health",
+    description: "Weights air quality above everything else",
+    weights: { airQuality: 0.7, waterSecurity: 0.2, greenSpace: 0.1 },
+  };
+
+  before(async () => {
+    await request("GET", "/api/environmental-data/51.5074/-0.1278");
+  });
+
+  test("lists the built-in profile as the default", async () => {
+    const res = await request("GET", "/api/livability/profiles");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.filter((p: any) => p.isDefault).map((p: any) => p.name), ["balanced"]);
+  });
+
+  test("rejects weights that do not sum to 1", async () => {
+    const res = await request("POST", "/api/livability/profiles", {
+      ...publicHealth,
+      weights: { airQuality: 0.5, waterSecurity: 0.5, greenSpace: 0.5 },
+    });
+    assert.equal(res.status, 400);
+  });
+
+  test("creates a profile and refuses duplicate names", async () => {
+    const created = await request("POST", "/api/livability/profiles", publicHealth);
+    assert.equal(created.status, 201);
+    assert.deepEqual(created.body.weights, publicHealth.weights);
+
+    assert.equal((await request("POST", "/api/livability/profiles", publicHealth)).status, 409);
+    assert.equal((await request("POST", "/api/livability/profiles", { ...publicHealth, name: "balanced" })).status, 409);
+  });
+
+  test("scores with the requested profile", async () => {
+    const res = await request("GET", "/api/livability/51.5074/-0.1278?profile=public-health");
+    assert.equal(res.status, 200);
+    assert.equal(res.body.profile, "public-health");
+    assert.equal(res.body.factors.airQuality.weight, 0.7);
+
+    assert.equal((await request("GET", "/api/livability/51.5074/-0.1278?profile=missing")).status, 404);
+  });
+
+  test("rejects blank or repeated profile parameters", async () => {
+    for (const query of ["profile=", "profile=%20", "profile=balanced&profile=public-health"]) {
+      const res = await request("GET", `/api/livability/51.5074/-0.1278?${query}`);
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, "Profile must be a non-empty name");
+    }
+  });
+
+  test("selecting a default changes the profile used without a query parameter", async () => {
+    assert.equal((await request("PUT", "/api/livability/profiles/default", { name: "missing" })).status, 404);
+
+    const selected = await request("PUT", "/api/livability/profiles/default", { name: "public-health" });
+    assert.equal(selected.status, 200);
+
+    try {
+      const res = await request("GET", "/api/livability/51.5074/-0.1278");
+      assert.equal(res.body.profile, "public-health");
+    } finally {
+      await request("PUT", "/api/livability/profiles/default", { name: "balanced" });
+    }
+
+    const res = await request("GET", "/api/livability/51.5074/-0.1278");
+    assert.equal(res.body.profile, "balanced");
+  });
+});
+
+describe("normalization", () => {
+  before(async () => {
+    await storage.insertAirQualityData({ latitude: 30, longitude: 30, aqi: 75, source: "fixture" });
+    await storage.insertWaterSecurityData({ latitude: 30, longitude: 30, waterStressLevel: 30, source: "fixture" });
+    await storage.insertGreenSpaceData({ latitude: 30, longitude: 30, ndvi: 0.5, vegetationCoverage: 70, source: "fixture" });
+  });
+
+  test("step mode scores the whole band the same", async () => {
+    const res = await request("GET", "/api/livability/30/30");
+    assert.equal(res.body.normalization, "step");
+    assert.equal(res.body.airQualityScore, 60);
+    assert.deepEqual(res.body.factors.airQuality.segment, { label: "moderate", from: 50, to: 100 });
+  });
+
+  test("linear mode interpolates between breakpoints", async () => {
+    const res = await request("GET", "/api/livability/30/30?normalization=linear");
+    assert.equal(res.body.normalization, "linear");
+    assert.equal(res.body.airQualityScore, 73); // Halfway from 85 at AQI 50 to 60 at AQI 100
+    assert.equal(res.body.waterSecurityScore, 70);
+    assert.equal(res.body.greenSpaceScore, 90);
+    assert.deepEqual(res.body.factors.greenSpace.segment, { label: "excellent-good", from: 80, to: 60 });
+  });
+
+  test("rejects unknown modes", async () => {
+    assert.equal((await request("GET", "/api/livability/30/30?normalization=cubic")).status, 400);
+  });
+});
+
+describe("pollutant sub-indices", () => {
+  test("scores air quality from the dominant pollutant rather than the reported AQI", async () => {
+    await storage.insertAirQualityData({ latitude: 31, longitude: 31, aqi: 30, pm25: 40, no2: 20, source: "fixture" });
+    await storage.insertWaterSecurityData({ latitude: 31, longitude: 31, waterStressLevel: 30, source: "fixture" });
+    await storage.insertGreenSpaceData({ latitude: 31, longitude: 31, ndvi: 0.5, source: "fixture" });
+
+    const res = await request("GET", "/api/livability/31/31");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.airQualityIndex, { aqi: 112, dominantPollutant: "pm25", subIndices: { pm25: 112, no2: 19 } });
+    assert.equal(res.body.airQualityScore, 35);
+
+    const dashboard = await request("GET", "/api/dashboard/31/31");
+    assert.equal(dashboard.body.livabilityScore.dominantPollutant, "pm25");
+  });
+
+  test("keeps a fused concentration at a breakpoint in its band", () => {
+    // Weighted means of identical readings can land a hair below the value itself
+    const fused = (35.5 * 0.1 + 35.5 * 0.2) / (0.1 + 0.2);
+    assert.ok(fused < 35.5);
+
+    const index = livabilityCalculator.summarizeAirQuality([{ aqi: 0, pm25: fused }]);
+    assert.equal(index.subIndices.pm25, 101);
+  });
+});
+
+describe("score confidence", () => {
+  test("reports reading counts, source disagreement and an interval around the score", async () => {
+    await storage.insertAirQualityData({ latitude: 32, longitude: 32, aqi: 40, source: "fixture" });
+    await storage.insertWaterSecurityData({ latitude: 32, longitude: 32, waterStressLevel: 30, source: "fixture" });
+    await storage.insertGreenSpaceData({ latitude: 32, longitude: 32, ndvi: 0.8, vegetationCoverage: 80, source: "nasa_landsat" });
+    await storage.insertGreenSpaceData({ latitude: 32, longitude: 32, ndvi: 0.2, vegetationCoverage: 20, source: "nasa_modis" });
+
+    const res = await request("GET", "/api/livability/32/32");
+    assert.equal(res.status, 200);
+
+    const { confidence, dataQuality, overallScore } = res.body;
+    assert.equal(confidence.level, 0.95);
+    assert.ok(confidence.lower < overallScore && overallScore < confidence.upper);
+    assert.equal(dataQuality.greenSpace.readingCount, 2);
+    assert.deepEqual(dataQuality.greenSpace.sources, { nasa_landsat: 1, nasa_modis: 1 });
+    assert.deepEqual([...dataQuality.greenSpace.disagreement.sources].sort(), ["nasa_landsat", "nasa_modis"]);
+    assert.equal(dataQuality.greenSpace.disagreement.points, 60);
+    assert.equal(dataQuality.airQuality.disagreement, null);
+    assert.equal(dataQuality.rating, "low");
+
+    const dashboard = await request("GET", "/api/dashboard/32/32");
+    assert.equal(dashboard.body.livabilityScore.confidenceLower, confidence.lower);
+    assert.equal(dashboard.body.livabilityScore.dataQuality.rating, "low");
+  });
+});
+
+describe("source fusion", () => {
+  async function seedGreenSpace(latitude: number, longitude: number, landsatQuality?: number) {
+    const now = Date.now();
+    for (let hour = 0; hour < 12; hour++) {
+      await storage.insertGreenSpaceData({
+        latitude, longitude, ndvi: 0.2, vegetationCoverage: 20, source: "nasa_modis",
+        timestamp: new Date(now - hour * 60 * 60 * 1000),
+      });
+    }
+    await storage.insertGreenSpaceData({
+      latitude, longitude, ndvi: 0.8, vegetationCoverage: 80, source: "nasa_landsat",
+      timestamp: new Date(now),
+      metadata: landsatQuality === undefined ? undefined : { quality: landsatQuality },
+    });
+  }
+
+  test("weights sources rather than reading counts", async () => {
+    await seedGreenSpace(33, 33);
+
+    const res = await request("GET", "/api/dashboard/33/33");
+    const greenSpace = res.body.fusedMetrics.greenSpace;
+
+    // A plain mean of the 13 readings would be about 25
+    assert.ok(greenSpace.value > 45 && greenSpace.value < 55, `fused value ${greenSpace.value}`);
+    assert.deepEqual(
+      greenSpace.provenance.map((p: any) => [p.provider, p.readingCount]).sort(),
+      [["landsat", 1], ["modis", 12]]
+    );
+    const totalWeight = greenSpace.provenance.reduce((sum: number, p: any) => sum + p.weight, 0);
+    assert.ok(Math.abs(totalWeight - 1) < 0.01);
+  });
+
+  test("down-weights low quality retrievals", async () => {
+    await seedGreenSpace(34, 34, 0.25);
+
+    const res = await request("GET", "/api/dashboard/34/34");
+    assert.ok(res.body.fusedMetrics.greenSpace.value < 35);
+  });
+});
+
+describe("livability dimensions", () => {
+  before(async () => {
+    await storage.insertAirQualityData({ latitude: 35, longitude: 35, aqi: 40, source: "fixture" });
+    await storage.insertWaterSecurityData({ latitude: 35, longitude: 35, waterStressLevel: 30, source: "fixture" });
+    await storage.insertGreenSpaceData({ latitude: 35, longitude: 35, ndvi: 0.5, vegetationCoverage: 70, source: "fixture" });
+  });
+
+  test("spreads the weight of dimensions without readings over the scored ones", async () => {
+    const res = await request("GET", "/api/livability/35/35");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.dimensions.map((d: any) => d.key), ["airQuality", "waterSecurity", "greenSpace"]);
+    assert.deepEqual(res.body.unscoredDimensions, ["heat", "flood"]);
+    assert.ok(Math.abs(res.body.factors.airQuality.weight - 0.4) < 1e-9);
+    const totalWeight = res.body.dimensions.reduce((sum: number, d: any) => sum + d.weight, 0);
+    assert.ok(Math.abs(totalWeight - 1) < 0.01);
+  });
+
+  test("scores the core dimensions with the original 40/35/25 weighting", async () => {
+    const res = await request("GET", "/api/livability/35/35");
+    assert.deepEqual(
+      res.body.dimensions.map((d: any) => [d.key, d.score, Number(d.weight.toFixed(9))]),
+      [["airQuality", 85, 0.4], ["waterSecurity", 60, 0.35], ["greenSpace", 80, 0.25]]
+    );
+    assert.equal(res.body.overallScore, 75);
+  });
+
+  test("scores heat and flood exposure once readings exist", async () => {
+    await storage.insertHeatData({ latitude: 35, longitude: 35, landSurfaceTemperature: 38, source: "fixture" });
+    await storage.insertFloodExposureData({ latitude: 35, longitude: 35, floodRisk: 20, source: "fixture" });
+
+    const res = await request("GET", "/api/livability/35/35");
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      res.body.dimensions.map((d: any) => [d.key, d.score]),
+      [["airQuality", 85], ["waterSecurity", 60], ["greenSpace", 80], ["heat", 40], ["flood", 80]]
+    );
+    assert.deepEqual(res.body.unscoredDimensions, []);
+    assert.equal(res.body.factors.heat.weight, 0.15);
+    assert.equal(res.body.dataQuality.heat.readingCount, 1);
+    assert.ok(res.body.recommendations.includes("Expand street tree canopy and shade structures"));
+
+    const dashboard = await request("GET", "/api/dashboard/35/35");
+    assert.equal(dashboard.body.livabilityScore.dimensionScores.length, 5);
+    assert.equal(dashboard.body.fusedMetrics.heat.value, 38);
+  });
+
+  test("profiles can weight the new dimensions", async () => {
+    const created = await request("POST", "/api/livability/profiles", {
+      name: "heat-resilience",
+      weights: { airQuality: 0.2, waterSecurity: 0.2, greenSpace: 0.1, heat: 0.5 },
+    });
+    assert.equal(created.status, 201);
+
+    const res = await request("GET", "/api/livability/35/35?profile=heat-resilience");
+    assert.equal(res.body.factors.heat.weight, 0.5);
+    assert.equal(res.body.factors.flood.weight, 0);
+  });
+
+  test("serves heat readings and leaves the noise placeholder disabled", async () => {
+    const heat = await request("GET", "/api/heat/35/35");
+    assert.deepEqual(heat.body.map((r: any) => r.landSurfaceTemperature), [38]);
+
+    const sources = await request("GET", "/api/data-sources");
+    assert.equal(sources.body.find((s: any) => s.id === "noise-model").enabled, false);
+
+    const ingested = await request("GET", "/api/environmental-data/-22.9068/-43.1729");
+    assert.ok(ingested.body.heat.length > 0);
+    assert.ok(ingested.body.flood.length > 0);
+    assert.equal(ingested.body.noise.length, 0);
+  });
+});
+
+describe("score history", () => {
+  const score = (overallScore: number, heat: number | null, timestamp: string) => storage.insertLivabilityScore({
+    latitude: 36, longitude: 36, airQualityScore: 80, waterSecurityScore: 60, greenSpaceScore: 40, overallScore,
+    dimensionScores: heat === null ? null : [
+      { key: "airQuality", label: "Air Quality", score: 80, weight: 0.3 },
+      { key: "heat", label: "Urban Heat", score: heat, weight: 0.15 },
+    ],
+    timestamp: new Date(timestamp),
+  });
+
+  before(async () => {
+    await score(60, 40, "2026-03-02T10:00:00Z");
+    await score(70, 60, "2026-03-02T16:00:00Z");
+    await score(64, null, "2026-03-05T12:00:00Z"); // Stored before dimension scores existed
+    await score(75, 80, "2026-03-09T12:00:00Z");
+  });
+
+  test("buckets scores by day with per-dimension summaries", async () => {
+    const res = await request("GET", "/api/livability/36/36/history?from=2026-03-01&to=2026-03-10");
+    assert.equal(res.status, 200);
+    assert.equal(res.body.interval, "day");
+    assert.deepEqual(res.body.buckets.map((b: any) => [b.start, b.scoreCount]), [
+      ["2026-03-02T00:00:00.000Z", 2],
+      ["2026-03-05T00:00:00.000Z", 1],
+      ["2026-03-09T00:00:00.000Z", 1],
+    ]);
+    assert.deepEqual(res.body.buckets[0].overall, { mean: 65, min: 60, max: 70 });
+    assert.deepEqual(res.body.buckets[0].dimensions.heat, { mean: 50, min: 40, max: 60 });
+    assert.equal(res.body.buckets[1].dimensions.greenSpace.mean, 40);
+    assert.deepEqual(res.body.trend, { overall: 10, dimensions: { airQuality: 0, heat: 30 } });
+  });
+
+  test("weeks start on Monday", async () => {
+    const res = await request("GET", "/api/livability/36/36/history?from=2026-03-01&to=2026-03-10&interval=week");
+    assert.deepEqual(res.body.buckets.map((b: any) => [b.start, b.end, b.scoreCount]), [
+      ["2026-03-02T00:00:00.000Z", "2026-03-09T00:00:00.000Z", 3],
+      ["2026-03-09T00:00:00.000Z", "2026-03-16T00:00:00.000Z", 1],
+    ]);
+  });
+
+  test("validates the range and interval", async () => {
+    const path = "/api/livability/36/36/history";
+    assert.equal((await request("GET", `${path}?interval=hour`)).status, 400);
+    assert.equal((await request("GET", `${path}?from=2026-03-10&to=2026-03-01`)).status, 400);
+    assert.equal((await request("GET", `${path}?from=yesterday`)).status, 400);
+    assert.equal((await request("GET", `${path}?from=2000-01-01&to=2026-01-01`)).status, 400);
+    assert.equal((await request("GET", `${path}?from=2000-01-01&to=2026-01-01&interval=month`)).status, 200);
+  });
+});
+
+describe("regional comparison", () => {
+  // Old Town is a square around (38.2, 38.2); (38.2, 38.26) is inside its enclosing circle but outside the square
+  const oldTown = [[38.15, 38.15], [38.25, 38.15], [38.25, 38.25], [38.15, 38.25], [38.15, 38.15]];
+
+  before(async () => {
+    const readings: Array<[number, number, number, number, number]> = [
+      // [lat, lon, aqi, water stress, vegetation coverage]
+      [38, 38, 30, 15, 85],     // Riverside
+      [38, 38.5, 160, 70, 15],  // Eastgate
+      [38.2, 38.2, 60, 40, 50], // Old Town
+      [38.2, 38.26, 400, 95, 5] // Just outside Old Town
+    ];
+    for (const [latitude, longitude, aqi, waterStressLevel, vegetationCoverage] of readings) {
+      await storage.insertAirQualityData({ latitude, longitude, aqi, source: "fixture" });
+      await storage.insertWaterSecurityData({ latitude, longitude, waterStressLevel, source: "fixture" });
+      await storage.insertGreenSpaceData({ latitude, longitude, ndvi: vegetationCoverage / 100, vegetationCoverage, source: "fixture" });
+    }
+  });
+
+  const regions = [
+    { name: "Eastgate", point: { lat: 38, lon: 38.5 }, radiusKm: 5 },
+    { name: "Old Town", polygon: oldTown },
+    { name: "Riverside", point: { lat: 38, lon: 38 }, radiusKm: 5 },
+    { name: "Nowhere", point: { lat: -60, lon: 100 } }
+  ];
+
+  test("ranks regions and measures deltas from the top ranked", async () => {
+    const res = await request("POST", "/api/livability/compare", { regions });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.profile, "balanced");
+    assert.deepEqual(res.body.rankings.map((r: any) => r.name), ["Riverside", "Old Town", "Eastgate"]);
+    assert.deepEqual(res.body.rankings.map((r: any) => r.ranking), [1, 2, 3]);
+    assert.equal(res.body.baseline, "Riverside");
+
+    const [riverside, oldTownResult, eastgate] = res.body.rankings;
+    assert.equal(riverside.deltas.overall, 0);
+    assert.ok(eastgate.deltas.overall < oldTownResult.deltas.overall);
+    assert.ok(eastgate.deltas.dimensions.airQuality < 0);
+
+    // Only readings inside the polygon count
+    assert.equal(oldTownResult.readingCount, 3);
+    assert.ok(Math.abs(oldTownResult.center.lat - 38.2) < 1e-9 && Math.abs(oldTownResult.center.lon - 38.2) < 1e-9);
+
+    assert.deepEqual(res.body.unscored.map((r: any) => r.name), ["Nowhere"]);
+  });
+
+  test("measures deltas from a chosen baseline", async () => {
+    const res = await request("POST", "/api/livability/compare", { regions, baseline: "Eastgate" });
+    const eastgate = res.body.rankings.find((r: any) => r.name === "Eastgate");
+    assert.equal(eastgate.deltas.overall, 0);
+    assert.ok(res.body.rankings.every((r: any) => r.deltas.overall >= 0));
+  });
+
+  test("validates the request", async () => {
+    const invalid = [
+      { regions: regions.slice(0, 1) },
+      { regions: [regions[0], { ...regions[2], name: "Eastgate" }] },
+      { regions: [regions[0], { ...regions[2], polygon: oldTown }] },
+      { regions: [regions[0], { name: "Tiny", polygon: oldTown.slice(0, 2) }] },
+      { regions, baseline: "Elsewhere" }
+    ];
+    for (const body of invalid) {
+      assert.equal((await request("POST", "/api/livability/compare", body)).status, 400);
+    }
+
+    const res = await request("POST", "/api/livability/compare", { regions, profile: "missing" });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("livability grid", () => {
+  before(async () => {
+    const readings: Array<[number, number, number, number | null, number]> = [
+      // [lat, lon, aqi, water stress, vegetation coverage]
+      [39.01, 39.01, 30, 15, 85],
+      [39.02, 39.03, 35, 20, 80],
+      [39.01, 39.06, 180, 85, 10],
+      [39.07, 39.07, 80, null, 40] // No water reading, so unscored
+    ];
+    for (const [latitude, longitude, aqi, waterStressLevel, vegetationCoverage] of readings) {
+      await storage.insertAirQualityData({ latitude, longitude, aqi, source: "fixture" });
+      if (waterStressLevel !== null) {
+        await storage.insertWaterSecurityData({ latitude, longitude, waterStressLevel, source: "fixture" });
+      }
+      await storage.insertGreenSpaceData({ latitude, longitude, ndvi: vegetationCoverage / 100, vegetationCoverage, source: "fixture" });
+    }
+  });
+
+  test("returns scored cells as GeoJSON", async () => {
+    const res = await request("GET", "/api/livability/grid?bbox=39,39,39.1,39.1&resolution=0.05");
+    assert.equal(res.status, 200);
+    assert.equal(res.body.type, "FeatureCollection");
+    assert.deepEqual(res.body.bbox, [39, 39, 39.1, 39.1]);
+    assert.equal(res.body.cellCount, 4);
+    assert.equal(res.body.features.length, 2);
+
+    const [clean, polluted] = res.body.features;
+    assert.deepEqual(clean.geometry.coordinates[0][0], [39, 39]);
+    assert.equal(clean.properties.readingCount, 6);
+    assert.ok(clean.properties.overallScore > polluted.properties.overallScore);
+    assert.equal(polluted.properties.color, "red");
+    assert.deepEqual(
+      res.body.legend.map((band: any) => [band.category, band.color]),
+      [["Excellent", "green"], ["Good", "lightgreen"], ["Moderate", "yellow"], ["Poor", "orange"], ["Very Poor", "red"]]
+    );
+  });
+
+  test("serves repeated cells from the cache", async () => {
+    const first = await request("GET", "/api/livability/grid?bbox=39,39,39.1,39.15&resolution=0.05");
+    assert.equal(first.body.cellCount, 6);
+    assert.equal(first.body.cachedCells, 4);
+
+    const linear = await request("GET", "/api/livability/grid?bbox=39,39,39.1,39.1&resolution=0.05&normalization=linear");
+    assert.equal(linear.body.cachedCells, 0);
+  });
+
+  test("validates the bounding box", async () => {
+    for (const query of ["", "bbox=39,39,39.1", "bbox=39.1,39,39,39.1", "bbox=a,b,c,d", "bbox=0,0,10,10&resolution=0.01",
+      "bbox=0,0,100,100&resolution=5", "bbox=0,0,3,1&resolution=0.5", "bbox=0,0,1,1&resolution=1"]) {
+      assert.equal((await request("GET", `/api/livability/grid?${query}`)).status, 400, query);
+    }
+    assert.equal((await request("GET", "/api/livability/grid?bbox=38,38,40,40&resolution=0.1")).status, 200);
+  });
+});
+
+describe("alerts", () => {
+  test("generates and lists alerts when thresholds are exceeded", async () => {
+    await storage.insertAirQualityData({
+      latitude: 41.8781,
+      longitude: -87.6298,
+      aqi: 180,
+      source: "fixture",
+    });
+
+    const generated = await request("POST", "/api/alerts/generate/41.8781/-87.6298", { location: "Chicago" });
+    assert.equal(generated.status, 200);
+
+    const airAlert = generated.body.find((a: any) => a.category === "air_quality");
+    assert.ok(airAlert, "expected an air quality alert");
+    assert.equal(airAlert.type, "danger");
+    assert.equal(airAlert.location, "Chicago");
+    assert.ok(airAlert.recommendations, "expected fallback recommendations");
+
+    const active = await request("GET", "/api/alerts");
+    assert.ok(active.body.some((a: any) => a.id === airAlert.id));
+  });
+
+  test("generates nothing for a location without data", async () => {
+    const res = await request("POST", "/api/alerts/generate/-1.2921/36.8219");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, []);
+  });
+
+  describe("lifecycle", () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600_000);
+
+    async function generateAirAlert(latitude: number, longitude: number) {
+      await storage.insertAirQualityData({ latitude, longitude, aqi: 170, source: "fixture", timestamp: hoursAgo(1) });
+      const generated = await request("POST", `/api/alerts/generate/${latitude}/${longitude}`);
+      return generated.body.find((a: any) => a.category === "air_quality");
+    }
+
+    test("acknowledges then resolves an alert, recording each change", async () => {
+      const alert = await generateAirAlert(42, 42);
+      assert.equal(alert.status, "active");
+
+      const acknowledged = await request("PATCH", `/api/alerts/${alert.id}/acknowledge`, { actor: "ops" });
+      assert.equal(acknowledged.status, 200);
+      assert.equal(acknowledged.body.status, "acknowledged");
+      assert.equal(acknowledged.body.isActive, true);
+      assert.ok((await request("GET", "/api/alerts")).body.some((a: any) => a.id === alert.id));
+
+      const resolved = await request("PATCH", `/api/alerts/${alert.id}/resolve`, { actor: "ops", reason: "Filters replaced" });
+      assert.equal(resolved.body.status, "resolved");
+      assert.equal(resolved.body.isActive, false);
+      assert.deepEqual(
+        resolved.body.statusHistory.map((t: any) => [t.from, t.to, t.by, t.reason]),
+        [["active", "acknowledged", "ops", null], ["acknowledged", "resolved", "ops", "Filters replaced"]]
+      );
+
+      const fetched = await request("GET", `/api/alerts/${alert.id}`);
+      assert.equal(fetched.body.status, "resolved");
+    });
+
+    test("dismissed alerts leave the active list and can't be reopened", async () => {
+      const alert = await generateAirAlert(42.5, 42.5);
+
+      const dismissed = await request("PATCH", `/api/alerts/${alert.id}/dismiss`);
+      assert.equal(dismissed.status, 200);
+      assert.equal(dismissed.body.statusHistory[0].by, "anonymous");
+      assert.ok(!(await request("GET", "/api/alerts")).body.some((a: any) => a.id === alert.id));
+
+      const again = await request("PATCH", `/api/alerts/${alert.id}/acknowledge`);
+      assert.equal(again.status, 409);
+    });
+
+    test("expires open alerts once their condition clears", async () => {
+      const alert = await generateAirAlert(43, 43);
+      await storage.insertAirQualityData({ latitude: 43, longitude: 43, aqi: 30, source: "fixture" });
+
+      await request("POST", "/api/alerts/generate/43/43");
+
+      const expired = await request("GET", `/api/alerts/${alert.id}`);
+      assert.equal(expired.body.status, "expired");
+      assert.deepEqual(
+        expired.body.statusHistory.map((t: any) => [t.to, t.by, t.reason]),
+        [["expired", "system", "Condition no longer detected"]]
+      );
+    });
+
+    test("updates the open alert while its condition persists", async () => {
+      await storage.insertAirQualityData({ latitude: 44, longitude: 44, aqi: 120, source: "fixture", timestamp: hoursAgo(2) });
+      const first = (await request("POST", "/api/alerts/generate/44/44")).body[0];
+      const second = (await request("POST", "/api/alerts/generate/44/44")).body[0];
+      assert.equal(second.id, first.id);
+      assert.equal(second.occurrences, 2);
+      assert.equal(first.fingerprint, "air_quality:air_quality_level:szz631");
+
+      // Escalation to danger keeps the same alert
+      await storage.insertAirQualityData({ latitude: 44, longitude: 44, aqi: 170, source: "fixture", timestamp: hoursAgo(1) });
+      const escalated = (await request("POST", "/api/alerts/generate/44/44")).body[0];
+      assert.equal(escalated.id, first.id);
+      assert.equal(escalated.type, "danger");
+      assert.equal(escalated.occurrences, 3);
+
+      const active = await request("GET", "/api/alerts");
+      assert.equal(active.body.filter((a: any) => a.fingerprint === first.fingerprint).length, 1);
+    });
+
+    test("holds back a dismissed condition for its suppression window", async () => {
+      const alert = await generateAirAlert(45, 45);
+      await request("PATCH", `/api/alerts/${alert.id}/dismiss`);
+
+      const suppressed = await request("POST", "/api/alerts/generate/45/45");
+      assert.deepEqual(suppressed.body, []);
+
+      const updated = await request("PUT", "/api/alerts/suppression-windows/air_quality_level", { suppressMinutes: 0 });
+      assert.deepEqual(updated.body, { cooldownMinutes: 30, suppressMinutes: 0 });
+      try {
+        const raised = await request("POST", "/api/alerts/generate/45/45");
+        assert.equal(raised.body.length, 1);
+        assert.notEqual(raised.body[0].id, alert.id);
+      } finally {
+        await request("PUT", "/api/alerts/suppression-windows/air_quality_level", { suppressMinutes: 360 });
+      }
+    });
+
+    test("validates suppression windows", async () => {
+      const windows = await request("GET", "/api/alerts/suppression-windows");
+      assert.deepEqual(windows.body.flood_risk, { cooldownMinutes: 60, suppressMinutes: 360 });
+      assert.equal((await request("PUT", "/api/alerts/suppression-windows/unknown", { cooldownMinutes: 5 })).status, 404);
+      assert.equal((await request("PUT", "/api/alerts/suppression-windows/flood_risk", { cooldownMinutes: -1 })).status, 400);
+    });
+
+    test("rejects unknown alerts and invalid bodies", async () => {
+      assert.equal((await request("PATCH", "/api/alerts/some-id/dismiss")).status, 404);
+      assert.equal((await request("GET", "/api/alerts/some-id")).status, 404);
+      assert.equal((await request("PATCH", "/api/alerts/some-id/resolve", { actor: "" })).status, 400);
+    });
+  });
+
+  describe("rules", () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600_000);
+
+    const pm25Rule = {
+      id: "pm25_rising",
+      metric: "pm25",
+      measure: "rate",
+      operator: "gt",
+      persistenceMinutes: 300,
+      levels: [{
+        type: "warning",
+        threshold: 5,
+        title: "PM2.5 Rising",
+        message: "PM2.5 rising {value:1} per hour, now {current}",
+        severity: "min(value * 10, 80)"
+      }]
+    };
+
+    test("ships the built-in rules", async () => {
+      const res = await request("GET", "/api/alerts/rules");
+      assert.deepEqual(
+        res.body.filter((rule: any) => rule.builtIn).map((rule: any) => rule.id),
+        ["air_quality_level", "air_quality_rapid_change", "water_stress", "flood_risk", "green_space_coverage"]
+      );
+      assert.equal(res.body[0].levels[0].threshold, "airQuality.danger");
+    });
+
+    test("evaluates stored rules with rate of change and persistence", async () => {
+      for (const [age, pm25] of [[3, 10], [2, 20], [1, 30], [0, 40]]) {
+        await storage.insertAirQualityData({ latitude: 46, longitude: 46, aqi: 40, pm25, source: "fixture", timestamp: hoursAgo(age) });
+      }
+
+      const created = await request("POST", "/api/alerts/rules", pm25Rule);
+      assert.equal(created.status, 201);
+      assert.equal(created.body.builtIn, false);
+
+      try {
+        // Rising for two hours doesn't meet five hours of persistence
+        const early = await request("POST", "/api/alerts/generate/46/46");
+        assert.deepEqual(early.body, []);
+
+        await request("PUT", "/api/alerts/rules/pm25_rising", { persistenceMinutes: 60 });
+        const [alert] = (await request("POST", "/api/alerts/generate/46/46")).body;
+        assert.equal(alert.rule, "pm25_rising");
+        assert.equal(alert.category, "air_quality");
+        assert.equal(alert.title, "PM2.5 Rising");
+        assert.equal(alert.message, "PM2.5 rising 10.0 per hour, now 40");
+        assert.equal(alert.severity, 80);
+      } finally {
+        assert.equal((await request("DELETE", "/api/alerts/rules/pm25_rising")).status, 204);
+      }
+      assert.equal((await request("GET", "/api/alerts/rules/pm25_rising")).status, 404);
+    });
+
+    test("skips disabled rules", async () => {
+      await storage.insertAirQualityData({ latitude: 47, longitude: 47, aqi: 170, source: "fixture" });
+
+      await request("PUT", "/api/alerts/rules/air_quality_level", { enabled: false });
+      try {
+        const res = await request("POST", "/api/alerts/generate/47/47");
+        assert.deepEqual(res.body, []);
+      } finally {
+        await request("PUT", "/api/alerts/rules/air_quality_level", { enabled: true });
+      }
+    });
+
+    test("validates rules", async () => {
+      const level = pm25Rule.levels[0];
+      const invalid = [
+        { ...pm25Rule, metric: "humidity" },
+        { ...pm25Rule, levels: [] },
+        { ...pm25Rule, levels: [{ ...level, severity: "value *" }] },
+        { ...pm25Rule, levels: [{ ...level, severity: "process.exit()" }] },
+        { ...pm25Rule, levels: [{ ...level, message: "Now {reading}" }] },
+        { ...pm25Rule, measure: "value", changeWindowMinutes: 60 }
+      ];
+      for (const rule of invalid) {
+        assert.equal((await request("POST", "/api/alerts/rules", rule)).status, 400, JSON.stringify(rule));
+      }
+
+      assert.equal((await request("POST", "/api/alerts/rules", { ...pm25Rule, id: "flood_risk" })).status, 409);
+      assert.equal((await request("DELETE", "/api/alerts/rules/flood_risk")).status, 409);
+      assert.equal((await request("PUT", "/api/alerts/rules/unknown", { enabled: false })).status, 404);
+    });
+  });
+
+  describe("thresholds", () => {
+    const ids: Record<string, string> = {};
+
+    before(async () => {
+      const overrides: Array<[string, unknown]> = [
+        ["region", { area: { lat: 48, lon: 48, radiusKm: 50 }, thresholds: { airQuality: { danger: 120 } } }],
+        ["neighborhood", { area: { lat: 48, lon: 48, radiusKm: 5 }, thresholds: { airQuality: { warning: 60 } } }],
+        ["subscriber", { userId: "ana", area: { lat: 48, lon: 48, radiusKm: 50 }, thresholds: { airQuality: { danger: 90 } } }]
+      ];
+      for (const [name, body] of overrides) {
+        const res = await request("PUT", "/api/alerts/thresholds", body);
+        assert.equal(res.status, 201);
+        ids[name] = res.body.id;
+      }
+    });
+
+    test("resolves the most specific thresholds for a point", async () => {
+      const here = await request("GET", "/api/alerts/thresholds?lat=48&lon=48");
+      assert.deepEqual(here.body.thresholds.airQuality, { warning: 60, danger: 120 });
+      assert.equal(here.body.sources["airQuality.danger"], ids.region);
+      assert.equal(here.body.sources["airQuality.warning"], ids.neighborhood);
+      assert.equal(here.body.sources["waterSecurity.danger"], "default");
+
+      // About 33 km north: inside the region, outside the neighborhood
+      const north = await request("GET", "/api/alerts/thresholds?lat=48.3&lon=48");
+      assert.deepEqual(north.body.thresholds.airQuality, { warning: 100, danger: 120 });
+
+      const subscriber = await request("GET", "/api/alerts/thresholds?lat=48&lon=48&user=ana");
+      assert.deepEqual(subscriber.body.thresholds.airQuality, { warning: 60, danger: 90 });
+
+      const elsewhere = await request("GET", "/api/alerts/thresholds");
+      assert.deepEqual(elsewhere.body.thresholds.airQuality, { warning: 100, danger: 150 });
+    });
+
+    test("generates alerts against the resolved thresholds", async () => {
+      await storage.insertAirQualityData({ latitude: 48, longitude: 48, aqi: 110, source: "fixture" });
+
+      const [shared] = (await request("POST", "/api/alerts/generate/48/48")).body;
+      assert.equal(shared.type, "warning");
+      assert.equal(shared.userId, null);
+
+      const [personal] = (await request("POST", "/api/alerts/generate/48/48", { userId: "ana" })).body;
+      assert.equal(personal.type, "danger");
+      assert.equal(personal.userId, "ana");
+      assert.notEqual(personal.fingerprint, shared.fingerprint);
+
+      // A subscriber's run leaves the shared alert open
+      assert.equal((await request("GET", `/api/alerts/${shared.id}`)).body.status, "active");
+    });
+
+    test("replaces an override set for the same scope", async () => {
+      const res = await request("PUT", "/api/alerts/thresholds", {
+        area: { lat: 48, lon: 48, radiusKm: 5 },
+        thresholds: { airQuality: { warning: 70 } }
+      });
+      assert.equal(res.status, 200);
+      assert.equal(res.body.id, ids.neighborhood);
+
+      const overrides = await request("GET", "/api/alerts/thresholds/overrides");
+      assert.equal(overrides.body.filter((o: any) => o.radiusKm === 5).length, 1);
+    });
+
+    test("keeps one override per scope under repeated and concurrent updates", async () => {
+      const body = (warning: number) => ({
+        userId: "bea",
+        area: { lat: 48.123456789, lon: 48.987654321, radiusKm: 2.5 },
+        thresholds: { airQuality: { warning } }
+      });
+      const results = await Promise.all([61, 62, 63].map(warning => request("PUT", "/api/alerts/thresholds", body(warning))));
+      const again = await request("PUT", "/api/alerts/thresholds", body(64));
+
+      assert.equal(results.filter(res => res.status === 201).length, 1);
+      assert.equal(again.status, 200);
+      const overrides = await request("GET", "/api/alerts/thresholds/overrides");
+      const scoped = overrides.body.filter((o: any) => o.userId === "bea");
+      assert.deepEqual(scoped.map((o: any) => o.thresholds.airQuality.warning), [64]);
+
+      // The database enforces the same rule, with null scopes counting as equal
+      const [scope] = getTableConfig(alertThresholdOverrides).uniqueConstraints;
+      assert.deepEqual(scope.columns.map(column => column.name), ["user_id", "latitude", "longitude", "radius_km"]);
+      assert.equal(scope.nullsNotDistinct, true);
+    });
+
+    test("validates thresholds", async () => {
+      const invalid = [
+        { thresholds: { airQuality: { warning: 200, danger: 150 } } },
+        { thresholds: { greenSpace: { warning: 10, danger: 20 } } },
+        { thresholds: { airQuality: { danger: 600 } } },
+        { thresholds: {} },
+        { area: { lat: 48, lon: 48 }, thresholds: { airQuality: { danger: 120 } } }
+      ];
+      for (const body of invalid) {
+        assert.equal((await request("PUT", "/api/alerts/thresholds", body)).status, 400, JSON.stringify(body));
+      }
+      assert.equal((await request("GET", "/api/alerts/thresholds?lat=48")).status, 400);
+    });
+
+    test("deletes overrides", async () => {
+      assert.equal((await request("DELETE", `/api/alerts/thresholds/overrides/${ids.subscriber}`)).status, 204);
+      assert.equal((await request("DELETE", `/api/alerts/thresholds/overrides/${ids.subscriber}`)).status, 404);
+
+      const subscriber = await request("GET", "/api/alerts/thresholds?lat=48&lon=48&user=ana");
+      assert.equal(subscriber.body.thresholds.airQuality.danger, 120);
+    });
+  });
+});
+
+describe("dashboard", () => {
+  test("aggregates current metrics, score, alerts and history", async () => {
+    await request("GET", "/api/environmental-data/47.6062/-122.3321");
+    await request("GET", "/api/livability/47.6062/-122.3321");
+
+    const res = await request("GET", "/api/dashboard/47.6062/-122.3321");
+    assert.equal(res.status, 200);
+    assert.equal(res.body.location, "47.606, -122.332");
+    assert.ok(res.body.currentMetrics.airQuality);
+    assert.ok(res.body.currentMetrics.waterSecurity);
+    assert.ok(res.body.currentMetrics.greenSpace);
+    assert.ok(res.body.livabilityScore);
+    assert.ok(res.body.alerts.length <= 10);
+    assert.ok(res.body.historicalData.airQuality.length <= 24);
+  });
+
+  test("returns empty metrics for a location without data", async () => {
+    const res = await request("GET", "/api/dashboard/64.1466/-21.9426");
+    assert.equal(res.status, 200);
+    assert.equal(res.body.currentMetrics.airQuality, null);
+    assert.equal(res.body.livabilityScore, undefined);
+  });
+
+  describe("trends", () => {
+    before(async () => {
+      const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+      const readings: Array<[number, number, number]> = [
+        // [hours ago, aqi, water stress]
+        [40, 40, 30], [34, 42, 35], [28, 44, 30],
+        [20, 60, 35], [12, 62, 30], [2, 64, 35]
+      ];
+      for (const [age, aqi, waterStressLevel] of readings) {
+        const timestamp = hoursAgo(age);
+        await storage.insertAirQualityData({ latitude: 37, longitude: 37, aqi, source: "fixture", timestamp });
+        await storage.insertWaterSecurityData({ latitude: 37, longitude: 37, waterStressLevel, source: "fixture", timestamp });
+      }
+    });
+
+    test("compares the latest window with the one before it", async () => {
+      const res = await request("GET", "/api/dashboard/37/37");
+      assert.equal(res.status, 200);
+      assert.equal(res.body.trendWindowHours, 24);
+
+      const { airQuality, waterSecurity, greenSpace } = res.body.trends;
+      assert.equal(airQuality.direction, "up");
+      assert.equal(airQuality.current, 62);
+      assert.equal(airQuality.previous, 42);
+      assert.equal(airQuality.changePercent, 47.6);
+      assert.equal(airQuality.significant, true);
+      assert.equal(airQuality.readingCount, 6);
+
+      // Alternating readings have no significant slope
+      assert.equal(waterSecurity.direction, "stable");
+      assert.equal(waterSecurity.significant, false);
+
+      assert.equal(greenSpace.direction, "stable");
+      assert.equal(greenSpace.current, null);
+      assert.equal(greenSpace.readingCount, 0);
+    });
+
+    test("honours the comparison window", async () => {
+      const res = await request("GET", "/api/dashboard/37/37?trendWindow=7");
+      assert.equal(res.body.trendWindowHours, 7);
+      assert.equal(res.body.trends.airQuality.readingCount, 2);
+      assert.equal(res.body.trends.airQuality.direction, "stable");
+    });
+
+    test("reads the readings once and still shows only the last day as recent", async () => {
+      const original = storage.getRecentEnvironmentalData;
+      const hours: Array<number | undefined> = [];
+      storage.getRecentEnvironmentalData = (lat, lon, window, query) => {
+        hours.push(window);
+        return original.call(storage, lat, lon, window, query);
+      };
+
+      try {
+        for (const trendWindow of [7, 48]) {
+          const res = await request("GET", `/api/dashboard/37/37?trendWindow=${trendWindow}`);
+          assert.deepEqual(res.body.historicalData.airQuality.map((r: any) => r.aqi), [64, 62, 60]);
+        }
+      } finally {
+        storage.getRecentEnvironmentalData = original;
+      }
+      assert.deepEqual(hours, [24, 96]);
+    });
+
+    test("rejects an invalid window", async () => {
+      for (const trendWindow of ["0", "abc", "1000"]) {
+        const res = await request("GET", `/api/dashboard/37/37?trendWindow=${trendWindow}`);
+        assert.equal(res.status, 400);
+      }
+    });
+  });
+});
+
+describe("radius queries", () => {
+  before(async () => {
+    // (10, 20) to (10.05, 20.05) is about 7.7 km; to (10.5, 20.5) about 77 km
+    for (const [latitude, longitude] of [[10, 20], [10.05, 20.05], [10.5, 20.5]]) {
+      const timestamp = new Date();
+      await storage.insertAirQualityData({ latitude, longitude, aqi: 40, source: "fixture", timestamp });
+      await storage.insertWaterSecurityData({ latitude, longitude, waterStressLevel: 30, source: "fixture", timestamp });
+      await storage.insertGreenSpaceData({ latitude, longitude, ndvi: 0.5, source: "fixture", timestamp });
+    }
+  });
+
+  for (const path of ["air-quality", "water-security", "green-space"]) {
+    test(`/api/${path} honours the radius in kilometers`, async () => {
+      const near = await request("GET", `/api/${path}/10/20`);
+      assert.equal(near.status, 200);
+      assert.equal(near.body.length, 2);
+
+      const tight = await request("GET", `/api/${path}/10/20?radius=5`);
+      assert.equal(tight.body.length, 1);
+
+      const wide = await request("GET", `/api/${path}/10/20?radius=100`);
+      assert.equal(wide.body.length, 3);
+    });
+  }
+
+  test("sorts by distance when requested", async () => {
+    const res = await request("GET", "/api/air-quality/10.5/20.5?radius=100&sort=distance");
+    assert.deepEqual(res.body.map((r: any) => r.latitude), [10.5, 10.05, 10]);
+  });
+
+  test("matches readings across the antimeridian", async () => {
+    for (const longitude of [179.98, -179.98]) {
+      await storage.insertAirQualityData({ latitude: -16.5, longitude, aqi: 20, source: "fixture" });
+    }
+
+    const res = await request("GET", "/api/air-quality/-16.5/179.99");
+    assert.equal(res.body.length, 2);
+  });
+
+  test("prefilters database queries by geohash cell unless the circle reaches a pole", () => {
+    const dialect = new PgDialect();
+    const render = (lat: number, lon: number, radiusKm: number) =>
+      dialect.sqlToQuery(withinRadius(airQualityData, lat, lon, radiusKm)!);
+
+    const near = render(10, 20, 25);
+    const prefixes = geohashCover(10, 20, 25);
+    assert.match(near.sql, /"geohash" like \$1/);
+    assert.deepEqual(near.params.slice(0, prefixes.length), prefixes.map(prefix => `${prefix}%`));
+
+    const polar = render(89.9, 20, 50);
+    assert.doesNotMatch(polar.sql, /like/);
+    assert.match(polar.sql, /asin/);
+    assert.doesNotMatch(polar.sql, /"timestamp" >=/);
+  });
+
+  test("applies the time cutoff in the query", async () => {
+    const since = new Date(Date.now() - 3600_000);
+    const query = new PgDialect().sqlToQuery(withinRadius(airQualityData, 10, 20, 25, since)!);
+    assert.match(query.sql, /"timestamp" >= \$\d+/);
+    assert.ok(query.params.includes(since.toISOString()));
+
+    await storage.insertAirQualityData({
+      latitude: 10, longitude: 20, aqi: 40, source: "fixture-old", timestamp: new Date(Date.now() - 48 * 3600_000),
+    });
+    const recent = await storage.getRecentEnvironmentalData(10, 20, 24);
+    assert.ok(recent.airQuality.length > 0);
+    assert.ok(recent.airQuality.every(r => r.source !== "fixture-old"));
+    const sinceTwoDays = await storage.getAirQualityDataByLocation(10, 20, { since: new Date(Date.now() - 72 * 3600_000) });
+    assert.ok(sinceTwoDays.some(r => r.source === "fixture-old"));
+  });
+
+  test("rejects invalid query parameters", async () => {
+    assert.equal((await request("GET", "/api/air-quality/10/20?radius=-1")).status, 400);
+    assert.equal((await request("GET", "/api/air-quality/10/20?sort=random")).status, 400);
+  });
+});
+
+describe("data sources", () => {
+  test("lists the registered providers", async () => {
+    const res = await request("GET", "/api/data-sources");
+    assert.equal(res.status, 200);
+    assert.ok(res.body.some((s: any) => s.id === "tempo" && s.enabled));
+  });
+
+  test("validates toggle requests", async () => {
+    assert.equal((await request("PATCH", "/api/data-sources/tempo", { enabled: "no" })).status, 400);
+    assert.equal((await request("PATCH", "/api/data-sources/unknown", { enabled: false })).status, 404);
+  });
+
+  test("disabled providers are not fetched", async () => {
+    const disabled = await request("PATCH", "/api/data-sources/tempo", { enabled: false });
+    assert.equal(disabled.body.status, "inactive");
+
+    try {
+      const res = await request("GET", "/api/environmental-data/39.7392/-104.9903");
+      assert.ok(res.body.airQuality.every((r: any) => r.source !== "nasa_tempo"));
+    } finally {
+      await request("PATCH", "/api/data-sources/tempo", { enabled: true });
+    }
+  });
+});
+
+describe("backfill", () => {
+  test("rejects invalid requests", async () => {
+    const missingArea = await request("POST", "/api/backfill", { start: "2026-01-01", end: "2026-01-02" });
+    assert.equal(missingArea.status, 400);
+
+    const unknownSource = await request("POST", "/api/backfill", {
+      point: { lat: 10, lon: 10 }, start: "2026-01-01", end: "2026-01-02", sources: ["nope"],
+    });
+    assert.equal(unknownSource.status, 400);
+  });
+
+  test("walks the range at the provider cadence", async () => {
+    const started = await request("POST", "/api/backfill", {
+      point: { lat: 35.6762, lon: 139.6503 },
+      start: "2026-01-01T00:00:00Z",
+      end: "2026-01-03T00:00:00Z",
+      sources: ["aura-omi", "modis"],
+    });
+    assert.equal(started.status, 202);
+
+    let job = started.body;
+    for (let i = 0; i < 50 && job.status !== "completed" && job.status !== "failed"; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      job = (await request("GET", `/api/backfill/${started.body.id}`)).body;
+    }
+
+    assert.equal(job.status, "completed");
+    assert.equal(job.progress.percent, 100);
+    assert.equal(job.progress.insertedReadings, 4); // Two daily slots per provider
+  });
+
+  test("returns 404 for unknown jobs", async () => {
+    assert.equal((await request("GET", "/api/backfill/missing")).status, 404);
+  });
+});
+
+describe("watched locations", () => {
+  const watch = async (body: Record<string, unknown>) =>
+    (await request("POST", "/api/watched-locations", { name: "Watched", cadenceMinutes: 60, ...body })).body;
+
+  test("rejects invalid locations", async () => {
+    const tooFrequent = await request("POST", "/api/watched-locations", { name: "Fast", lat: 49, lon: 49, cadenceMinutes: 1 });
+    assert.equal(tooFrequent.status, 400);
+
+    const unknownProfile = await request("POST", "/api/watched-locations", {
+      name: "Profiled", lat: 49, lon: 49, cadenceMinutes: 60, profile: "missing",
+    });
+    assert.equal(unknownProfile.status, 400);
+  });
+
+  test("returns 404 for unknown locations", async () => {
+    assert.equal((await request("GET", "/api/watched-locations/missing")).status, 404);
+    assert.equal((await request("PUT", "/api/watched-locations/missing", { enabled: false })).status, 404);
+    assert.equal((await request("POST", "/api/watched-locations/missing/run")).status, 404);
+    assert.equal((await request("DELETE", "/api/watched-locations/missing")).status, 404);
+  });
+
+  test("a run ingests readings, rescores livability and regenerates alerts", async () => {
+    const location = await watch({ lat: 49.1, lon: 49.1 });
+    assert.equal(location.status, "pending");
+
+    const run = await request("POST", `/api/watched-locations/${location.id}/run`);
+    assert.equal(run.status, 200);
+    assert.equal(run.body.status, "succeeded");
+    assert.equal(run.body.consecutiveFailures, 0);
+    assert.ok(run.body.lastResult.readings.airQuality > 0);
+    assert.equal(typeof run.body.lastResult.livability.overallScore, "number");
+    assert.equal(run.body.lastResult.alerts.ids.length, run.body.lastResult.alerts.open);
+    assert.equal(
+      new Date(run.body.nextRunAt).getTime() - new Date(run.body.lastRunAt).getTime(),
+      60 * 60 * 1000
+    );
+  });
+
+  test("failing runs back off and recover", async () => {
+    const location = await watch({ lat: 49.2, lon: 49.2, cadenceMinutes: 30 });
+    const fetchAll = nasaDataService.fetchAllEnvironmentalData;
+    nasaDataService.fetchAllEnvironmentalData = async () => {
+      throw new Error("Providers unavailable");
+    };
+
+    try {
+      await request("POST", `/api/watched-locations/${location.id}/run`);
+      const failed = (await request("POST", `/api/watched-locations/${location.id}/run`)).body;
+
+      assert.equal(failed.status, "failed");
+      assert.equal(failed.lastError, "Providers unavailable");
+      assert.equal(failed.consecutiveFailures, 2);
+      assert.equal(failed.lastResult, null);
+      assert.equal(new Date(failed.nextRunAt).getTime() - new Date(failed.lastRunAt).getTime(), 60 * 60 * 1000);
+    } finally {
+      nasaDataService.fetchAllEnvironmentalData = fetchAll;
+    }
+
+    const recovered = (await request("POST", `/api/watched-locations/${location.id}/run`)).body;
+    assert.equal(recovered.status, "succeeded");
+    assert.equal(recovered.consecutiveFailures, 0);
+    assert.equal(recovered.lastError, null);
+  });
+
+  test("the scheduler runs enabled locations that are due", async () => {
+    const due = await watch({ lat: 49.3, lon: 49.3 });
+    const disabled = await watch({ lat: 49.4, lon: 49.4, enabled: false });
+
+    const ran = (await monitoringService.runDueLocations()).map(location => location.id);
+    assert.ok(ran.includes(due.id));
+    assert.ok(!ran.includes(disabled.id));
+
+    // Not due again until its cadence has passed
+    assert.equal((await monitoringService.runDueLocations()).length, 0);
+
+    const listed = (await request("GET", "/api/watched-locations")).body;
+    assert.equal(listed.find((l: { id: string }) => l.id === due.id).status, "succeeded");
+    assert.equal(listed.find((l: { id: string }) => l.id === disabled.id).status, "pending");
+  });
+
+  test("moving a location makes it due and deleting stops watching it", async () => {
+    const location = await watch({ lat: 49.5, lon: 49.5 });
+    await request("POST", `/api/watched-locations/${location.id}/run`);
+
+    const moved = await request("PUT", `/api/watched-locations/${location.id}`, { lat: 49.6 });
+    assert.equal(moved.status, 200);
+    assert.equal(moved.body.latitude, 49.6);
+    assert.ok(new Date(moved.body.nextRunAt).getTime() <= Date.now());
+
+    assert.equal((await request("DELETE", `/api/watched-locations/${location.id}`)).status, 204);
+    assert.equal((await request("GET", `/api/watched-locations/${location.id}`)).status, 404);
+  });
+});
+
+describe("notifications", () => {
+  interface Received {
+    path: string;
+    headers: Record<string, string | string[] | undefined>;
+    body: string;
+  }
+
+  // Stand-in webhook receiver; paths listed in failures answer 503 that many times
+  const received: Received[] = [];
+  const failures = new Map<string, number>();
+  const receiver = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      received.push({ path: req.url ?? "", headers: req.headers, body });
+      const remaining = failures.get(req.url ?? "") ?? 0;
+      if (remaining > 0) failures.set(req.url ?? "", remaining - 1);
+      res.writeHead(remaining > 0 ? 503 : 200).end("ok");
+    });
+  });
+
+  // Stand-in SMTP relay that accepts everything and offers no STARTTLS
+  const mail: Array<{ from: string; to: string[]; data: string }> = [];
+  const commands: string[] = [];
+  const relay = net.createServer(socket => {
+    let buffer = "";
+    let envelope = { from: "", to: [] as string[], data: "" };
+    let inData = false;
+
+    socket.write("220 stand-in ready\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) return;
+        mail.push({ ...envelope, data: buffer.slice(0, end) });
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        envelope = { from: "", to: [], data: "" };
+        socket.write("250 queued\r\n");
+      }
+
+      let end: number;
+      while (!inData && (end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-stand-in\r\n250 8BITMIME\r\n");
+        else if (line.startsWith("MAIL FROM:")) { envelope.from = line.slice(11, -1); socket.write("250 ok\r\n"); }
+        else if (line.startsWith("RCPT TO:")) { envelope.to.push(line.slice(9, -1)); socket.write("250 ok\r\n"); }
+        else if (line === "DATA") { inData = true; socket.write("354 go ahead\r\n"); }
+        else if (line === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("502 unsupported\r\n");
+      }
+    });
+  });
+
+  let receiverUrl: string;
+  let relayPort: number;
+
+  before(async () => {
+    await new Promise<void>(resolve => receiver.listen(0, "127.0.0.1", resolve));
+    await new Promise<void>(resolve => relay.listen(0, "127.0.0.1", resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+    relayPort = (relay.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    await new Promise(resolve => relay.close(resolve));
+  });
+
+  const secret = "s".repeat(32);
+  const webhook = (path: string, extra: Record<string, unknown> = {}) =>
+    request("POST", "/api/notifications/channels", {
+      name: path, kind: "webhook", config: { url: `${receiverUrl}${path}`, secret }, ...extra,
+    }).then(res => res.body);
+
+  async function deliveriesFor(channelId: string, done: (deliveries: any[]) => boolean) {
+    let deliveries: any[] = [];
+    for (let i = 0; i < 50; i++) {
+      deliveries = (await request("GET", `/api/notifications/deliveries?channel=${channelId}`)).body;
+      if (done(deliveries)) break;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return deliveries;
+  }
+
+  test("rejects invalid channels", async () => {
+    const unknownKind = await request("POST", "/api/notifications/channels", { name: "Pager", kind: "pager", config: {} });
+    assert.equal(unknownKind.status, 400);
+
+    const weakSecret = await request("POST", "/api/notifications/channels", {
+      name: "Hook", kind: "webhook", config: { url: "http://127.0.0.1/hook", secret: "short" },
+    });
+    assert.equal(weakSecret.status, 400);
+
+    const noRecipients = await request("POST", "/api/notifications/channels", {
+      name: "Mail", kind: "email", config: { host: "127.0.0.1", from: "alerts@example.com", to: [] },
+    });
+    assert.equal(noRecipients.status, 400);
+
+    const channel = await webhook("/invalid");
+    const wrongConfig = await request("PUT", `/api/notifications/channels/${channel.id}`, { config: { url: "not a url" } });
+    assert.equal(wrongConfig.status, 400);
+    await request("DELETE", `/api/notifications/channels/${channel.id}`);
+  });
+
+  test("returns 404 for unknown channels", async () => {
+    assert.equal((await request("GET", "/api/notifications/channels/missing")).status, 404);
+    assert.equal((await request("PUT", "/api/notifications/channels/missing", { enabled: false })).status, 404);
+    assert.equal((await request("POST", "/api/notifications/channels/missing/test")).status, 404);
+    assert.equal((await request("DELETE", "/api/notifications/channels/missing")).status, 404);
+  });
+
+  test("signs webhook test sends and never returns the secret", async () => {
+    const channel = await webhook("/signed");
+    assert.equal(channel.config.secret, "********");
+
+    const delivery = await request("POST", `/api/notifications/channels/${channel.id}/test`);
+    assert.equal(delivery.status, 200);
+    assert.equal(delivery.body.status, "delivered");
+    assert.equal(delivery.body.attempts, 1);
+    assert.equal(delivery.body.responseStatus, 200);
+
+    const sent = received.find(r => r.path === "/signed")!;
+    const timestamp = sent.headers["x-earthwatch-timestamp"] as string;
+    const expected = createHmac("sha256", secret).update(`${timestamp}.${sent.body}`).digest("hex");
+    assert.equal(sent.headers["x-earthwatch-signature"], `sha256=${expected}`);
+    assert.equal(JSON.parse(sent.body).deliveryId, delivery.body.id);
+    assert.equal(JSON.parse(sent.body).event, "test");
+
+    await request("DELETE", `/api/notifications/channels/${channel.id}`);
+  });
+
+  test("keeps stored secrets when a config is saved back redacted or without them", async () => {
+    const channel = await webhook("/resaved");
+    const fetched = (await request("GET", `/api/notifications/channels/${channel.id}`)).body;
+
+    const resaved = await request("PUT", `/api/notifications/channels/${channel.id}`, {
+      config: { ...fetched.config, url: `${receiverUrl}/moved` },
+    });
+    assert.equal(resaved.status, 200);
+    assert.equal(resaved.body.config.secret, "********");
+    assert.equal(((await storage.getNotificationChannel(channel.id))!.config as any).secret, secret);
+
+    await request("PUT", `/api/notifications/channels/${channel.id}`, { config: { url: `${receiverUrl}/moved` } });
+    await request("POST", `/api/notifications/channels/${channel.id}/test`);
+    const sent = received.find(r => r.path === "/moved")!;
+    const expected = createHmac("sha256", secret)
+      .update(`${sent.headers["x-earthwatch-timestamp"]}.${sent.body}`).digest("hex");
+    assert.equal(sent.headers["x-earthwatch-signature"], `sha256=${expected}`);
+    await request("DELETE", `/api/notifications/channels/${channel.id}`);
+
+    // Leaving out both credentials still removes them
+    const mailbox = (await request("POST", "/api/notifications/channels", {
+      name: "Credentials", kind: "email",
+      config: { host: "127.0.0.1", port: relayPort, username: "alerts", password: "hunter22", from: "a@example.com", to: ["b@example.com"] },
+    })).body;
+    const { username, password, ...withoutCredentials } = mailbox.config;
+    assert.equal((await request("PUT", `/api/notifications/channels/${mailbox.id}`, { config: withoutCredentials })).status, 200);
+    assert.equal(((await storage.getNotificationChannel(mailbox.id))!.config as any).password, undefined);
+    await request("DELETE", `/api/notifications/channels/${mailbox.id}`);
+  });
+
+  test("formats Slack-compatible messages", async () => {
+    const channel = (await request("POST", "/api/notifications/channels", {
+      name: "Ops", kind: "slack", config: { url: `${receiverUrl}/slack` },
+    })).body;
+
+    const delivery = await request("POST", `/api/notifications/channels/${channel.id}/test`);
+    assert.equal(delivery.body.status, "delivered");
+
+    const message = JSON.parse(received.find(r => r.path === "/slack")!.body);
+    assert.match(message.text, /^Test info alert: Test notification/);
+    assert.equal(message.attachments[0].title, "Test notification");
+
+    await request("DELETE", `/api/notifications/channels/${channel.id}`);
+  });
+
+  test("emails through the channel's SMTP server", async () => {
+    const channel = (await request("POST", "/api/notifications/channels", {
+      name: "Duty inbox",
+      kind: "email",
+      config: { host: "127.0.0.1", port: relayPort, from: "alerts@example.com", to: ["duty@example.com", "ops@example.com"] },
+    })).body;
+
+    const delivery = await request("POST", `/api/notifications/channels/${channel.id}/test`);
+    assert.equal(delivery.body.status, "delivered");
+    assert.equal(delivery.body.responseStatus, 250);
+
+    assert.equal(mail.length, 1);
+    assert.equal(mail[0].from, "alerts@example.com");
+    assert.deepEqual(mail[0].to, ["duty@example.com", "ops@example.com"]);
+    assert.match(mail[0].data, /^Subject: \[Test info\] Test notification$/m);
+
+    await request("DELETE", `/api/notifications/channels/${channel.id}`);
+  });
+
+  test("refuses to send SMTP credentials without TLS", async () => {
+    const channel = (await request("POST", "/api/notifications/channels", {
+      name: "Plaintext relay",
+      kind: "email",
+      config: {
+        host: "127.0.0.1", port: relayPort, username: "alerts", password: "hunter22",
+        from: "alerts@example.com", to: ["duty@example.com"],
+      },
+    })).body;
+    commands.length = 0;
+
+    const delivery = await request("POST", `/api/notifications/channels/${channel.id}/test`);
+    assert.notEqual(delivery.body.status, "delivered");
+    assert.match(delivery.body.lastError, /STARTTLS/);
+    assert.ok(commands.some(line => line.startsWith("EHLO")));
+    assert.ok(!commands.some(line => line.startsWith("AUTH")));
+    assert.ok(!commands.some(line => line.startsWith("MAIL FROM:")));
+
+    await request("DELETE", `/api/notifications/channels/${channel.id}`);
+  });
+
+  test("delivers new and escalated alerts that pass a channel's filters", async () => {
+    const air = await webhook("/air", { categories: ["air_quality"] });
+    const water = await webhook("/water", { categories: ["water_security"] });
+    const critical = await webhook("/critical", { minSeverity: 95 });
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600_000);
+
+    await storage.insertAirQualityData({ latitude: 50, longitude: 50, aqi: 120, source: "fixture", timestamp: hoursAgo(2) });
+    const [warning] = (await request("POST", "/api/alerts/generate/50/50")).body;
+    assert.equal(warning.type, "warning");
+
+    await storage.insertAirQualityData({ latitude: 50, longitude: 50, aqi: 140, source: "fixture", timestamp: hoursAgo(1.5) });
+    await request("POST", "/api/alerts/generate/50/50");
+    await storage.insertAirQualityData({ latitude: 50, longitude: 50, aqi: 170, source: "fixture", timestamp: hoursAgo(1) });
+    await request("POST", "/api/alerts/generate/50/50");
+
+    const deliveries = await deliveriesFor(air.id, d =>
+      d.filter(x => x.alertId === warning.id && x.status === "delivered").length >= 2);
+    assert.deepEqual(
+      deliveries.filter(d => d.alertId === warning.id).map(d => [d.event, d.status, d.payload.alert.type]),
+      [["escalated", "delivered", "danger"], ["new", "delivered", "warning"]]
+    );
+
+    assert.deepEqual((await request("GET", `/api/notifications/deliveries?channel=${water.id}`)).body, []);
+    assert.deepEqual((await request("GET", `/api/notifications/deliveries?channel=${critical.id}`)).body, []);
+
+    for (const channel of [air, water, critical]) {
+      await request("DELETE", `/api/notifications/channels/${channel.id}`);
+    }
+  });
+
+  test("retries failed deliveries with backoff until they give up", async () => {
+    const flaky = await webhook("/flaky");
+    const broken = await webhook("/broken");
+    failures.set("/flaky", 1);
+    failures.set("/broken", 100);
+
+    await storage.insertAirQualityData({ latitude: 51, longitude: 51, aqi: 180, source: "fixture" });
+    await request("POST", "/api/alerts/generate/51/51");
+
+    const [first] = await deliveriesFor(flaky.id, d => d.length > 0 && d[0].attempts > 0);
+    assert.equal(first.status, "pending");
+    assert.equal(first.responseStatus, 503);
+    assert.match(first.lastError, /503/);
+    assert.ok(new Date(first.nextAttemptAt).getTime() > Date.now());
+    await deliveriesFor(broken.id, d => d.length > 0 && d[0].attempts > 0);
+
+    let later = Date.now();
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      later += 24 * 3600_000;
+      await notificationService.retryDue(new Date(later));
+    }
+
+    const [recovered] = (await request("GET", `/api/notifications/deliveries?channel=${flaky.id}`)).body;
+    assert.equal(recovered.status, "delivered");
+    assert.equal(recovered.attempts, 2);
+
+    const [abandoned] = (await request("GET", `/api/notifications/deliveries?channel=${broken.id}`)).body;
+    assert.equal(abandoned.status, "failed");
+    assert.equal(abandoned.attempts, 5);
+    assert.equal(abandoned.nextAttemptAt, null);
+
+    const failed = (await request("GET", "/api/notifications/deliveries?status=failed")).body;
+    assert.ok(failed.some((d: any) => d.id === abandoned.id));
+
+    for (const channel of [flaky, broken]) {
+      await request("DELETE", `/api/notifications/channels/${channel.id}`);
+    }
+  });
+});
@@ -1,17 +1,122 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type EnvironmentalData } from "./storage";
 import nasaDataService from "./services/nasaDataService";
 import livabilityCalculator from "./services/livabilityCalculator";
 import alertService from "./services/alertService";
+import ingestionService from "./services/ingestionService";
+import backfillService, { BackfillRequestError } from "./services/backfillService";
+import scoringProfileService, { ScoringProfileConflictError } from "./services/scoringProfileService";
+import fusionService from "./services/fusionService";
+import livabilityScoringService from "./services/livabilityScoringService";
+import livabilityHistoryService, { HistoryRangeError } from "./services/livabilityHistoryService";
+import trendService, { DEFAULT_TREND_WINDOW_HOURS } from "./services/trendService";
+import comparisonService from "./services/comparisonService";
+import gridService, { GridRangeError, MAX_GRID_RESOLUTION, MAX_GRID_SPAN_DEGREES } from "./services/gridService";
+import alertLifecycleService, { AlertTransitionError } from "./services/alertLifecycleService";
+import alertRuleService, { AlertRuleConflictError, AlertRuleValidationError } from "./services/alertRuleService";
+import alertThresholdService from "./services/alertThresholdService";
+import monitoringService, { MonitoringConflictError, MonitoringRequestError } from "./services/monitoringService";
+import notificationService, { NotificationChannelValidationError } from "./services/notificationService";
+import { z } from "zod";
 import { 
   insertAirQualitySchema, 
   insertWaterSecuritySchema, 
   insertGreenSpaceSchema,
   insertLivabilitySchema,
-  insertAlertSchema 
+  insertAlertSchema,
+  backfillRequestSchema,
+  scoringProfileRequestSchema,
+  normalizationModeSchema,
+  comparisonRequestSchema,
+  alertTransitionRequestSchema,
+  suppressionWindowSchema,
+  alertRuleRequestSchema,
+  alertRuleUpdateSchema,
+  alertThresholdOverrideRequestSchema,
+  watchedLocationRequestSchema,
+  watchedLocationUpdateSchema,
+  notificationChannelRequestSchema,
+  notificationChannelUpdateSchema,
+  type AlertStatus
 } from "@shared/schema";
 
+// Optional ?radius= (kilometers) and ?sort= for location queries
+const locationQuerySchema = z.object({
+  radius: z.coerce.number().positive().max(20000).optional(),
+  sort: z.enum(["distance", "time"]).optional()
+});
+
+// ?from=, ?to= and ?interval= for score history, plus the location radius
+const historyQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(["day", "week", "month"]).default("day"),
+  radius: z.coerce.number().positive().max(20000).optional()
+}).refine(q => !q.from || !q.to || q.from < q.to, {
+  message: "'from' must be before 'to'"
+});
+
+// ?bbox=minLon,minLat,maxLon,maxLat and ?resolution= (degrees) for the livability grid
+const gridQuerySchema = z.object({
+  bbox: z.string()
+    .transform(value => value.split(",").map(Number))
+    .pipe(z.tuple([
+      z.number().min(-180).max(180),
+      z.number().min(-90).max(90),
+      z.number().min(-180).max(180),
+      z.number().min(-90).max(90)
+    ]))
+    .refine(([minLon, minLat, maxLon, maxLat]) => minLon < maxLon && minLat < maxLat, {
+      message: "bbox minimums must be below maximums"
+    })
+    .refine(([minLon, minLat, maxLon, maxLat]) =>
+      maxLon - minLon <= MAX_GRID_SPAN_DEGREES && maxLat - minLat <= MAX_GRID_SPAN_DEGREES, {
+      message: `bbox may span at most ${MAX_GRID_SPAN_DEGREES} degrees of latitude and longitude`
+    }),
+  resolution: z.coerce.number().min(0.001).max(MAX_GRID_RESOLUTION).default(0.05),
+  profile: z.string().optional(),
+  normalization: normalizationModeSchema.optional()
+});
+
+// ?lat=, ?lon= and ?user= for the alert thresholds in effect; both coordinates or neither
+const thresholdQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lon: z.coerce.number().min(-180).max(180).optional(),
+  user: z.string().min(1).max(100).optional()
+}).refine(({ lat, lon }) => (lat === undefined) === (lon === undefined), {
+  message: "lat and lon must be given together"
+});
+
+// ?channel=, ?alert=, ?status= and ?limit= for the notification delivery log
+const deliveryQuerySchema = z.object({
+  channel: z.string().min(1).optional(),
+  alert: z.string().min(1).optional(),
+  status: z.enum(["pending", "delivered", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+// ?trendWindow= (hours) compared against the window before it on the dashboard
+const dashboardQuerySchema = z.object({
+  trendWindow: z.coerce.number().positive().max(24 * 30).default(DEFAULT_TREND_WINDOW_HOURS)
+});
+
+// Hours of readings shown as the dashboard's current and historical data
+const DASHBOARD_RECENT_HOURS = 24;
+
+// Readings observed at or after since, each list still newest first
+function readingsSince(data: EnvironmentalData, since: Date): EnvironmentalData {
+  const recent = <T extends { timestamp: Date }>(readings: T[]) => readings.filter(reading => reading.timestamp >= since);
+  return {
+    airQuality: recent(data.airQuality),
+    waterSecurity: recent(data.waterSecurity),
+    greenSpace: recent(data.greenSpace),
+    heat: recent(data.heat),
+    flood: recent(data.flood),
+    noise: recent(data.noise)
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // NASA Data Endpoints
   app.get("/api/environmental-data/:lat/:lon", async (req, res) => {
@@ -27,61 +132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const nasaData = await nasaDataService.fetchAllEnvironmentalData(lat, lon);
       
       // Store data in database
-      const storedData: {
-        airQuality: any[];
-        waterSecurity: any[];
-        greenSpace: any[];
-      } = {
-        airQuality: [],
-        waterSecurity: [],
-        greenSpace: []
-      };
-
-      // Store air quality data
-      for (const airData of nasaData.airQuality) {
-        const stored = await storage.insertAirQualityData({
-          latitude: airData.latitude,
-          longitude: airData.longitude,
-          aqi: airData.aqi,
-          pm25: airData.pm25,
-          pm10: airData.pm10,
-          ozone: airData.ozone,
-          no2: airData.no2,
-          so2: airData.so2,
-          source: airData.source,
-          metadata: { timestamp: airData.timestamp }
-        });
-        storedData.airQuality.push(stored);
-      }
-
-      // Store water security data
-      for (const waterData of nasaData.waterSecurity) {
-        const stored = await storage.insertWaterSecurityData({
-          latitude: waterData.latitude,
-          longitude: waterData.longitude,
-          waterStressLevel: waterData.waterStressLevel,
-          precipitationLevel: waterData.precipitationLevel,
-          groundwaterLevel: waterData.groundwaterLevel,
-          floodRisk: waterData.floodRisk,
-          source: waterData.source,
-          metadata: { timestamp: waterData.timestamp }
-        });
-        storedData.waterSecurity.push(stored);
-      }
-
-      // Store green space data
-      for (const greenData of nasaData.greenSpace) {
-        const stored = await storage.insertGreenSpaceData({
-          latitude: greenData.latitude,
-          longitude: greenData.longitude,
-          ndvi: greenData.ndvi,
-          vegetationCoverage: greenData.vegetationCoverage,
-          greenSpaceType: greenData.greenSpaceType,
-          source: greenData.source,
-          metadata: { timestamp: greenData.timestamp }
-        });
-        storedData.greenSpace.push(stored);
-      }
+      const storedData = await ingestionService.storeReadings(nasaData);
 
       res.json(storedData);
     } catch (error) {
@@ -90,6 +141,277 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Historical backfill jobs
+  app.post("/api/backfill", async (req, res) => {
+    try {
+      const parsed = backfillRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid backfill request", details: parsed.error.flatten() });
+      }
+
+      const job = await backfillService.startJob(parsed.data);
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof BackfillRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error starting backfill:", error);
+      res.status(500).json({ error: "Failed to start backfill" });
+    }
+  });
+
+  app.get("/api/backfill/:id", async (req, res) => {
+    try {
+      const job = await backfillService.getJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({ error: "Backfill job not found" });
+      }
+
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching backfill job:", error);
+      res.status(500).json({ error: "Failed to fetch backfill job" });
+    }
+  });
+
+  app.post("/api/backfill/:id/resume", async (req, res) => {
+    try {
+      const job = await backfillService.resumeJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({ error: "Backfill job not found" });
+      }
+
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error resuming backfill job:", error);
+      res.status(500).json({ error: "Failed to resume backfill job" });
+    }
+  });
+
+  // Data provider registry
+  app.get("/api/data-sources", (_req, res) => {
+    res.json(nasaDataService.registry.list());
+  });
+
+  app.patch("/api/data-sources/:id", (req, res) => {
+    const parsed = z.object({ enabled: z.boolean() }).safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Request body must include a boolean 'enabled' field" });
+    }
+
+    if (!nasaDataService.registry.setEnabled(req.params.id, parsed.data.enabled)) {
+      return res.status(404).json({ error: "Data source not found" });
+    }
+
+    const source = nasaDataService.registry.list().find(s => s.id === req.params.id);
+    res.json(source);
+  });
+
+  // Watched locations, refreshed on a schedule by the monitoring service
+  app.get("/api/watched-locations", async (_req, res) => {
+    try {
+      res.json(await monitoringService.listLocations());
+    } catch (error) {
+      console.error("Error fetching watched locations:", error);
+      res.status(500).json({ error: "Failed to fetch watched locations" });
+    }
+  });
+
+  app.post("/api/watched-locations", async (req, res) => {
+    try {
+      const parsed = watchedLocationRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid watched location", details: parsed.error.flatten() });
+      }
+
+      res.status(201).json(await monitoringService.watchLocation(parsed.data));
+    } catch (error) {
+      if (error instanceof MonitoringRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error creating watched location:", error);
+      res.status(500).json({ error: "Failed to create watched location" });
+    }
+  });
+
+  app.get("/api/watched-locations/:id", async (req, res) => {
+    try {
+      const location = await monitoringService.getLocation(req.params.id);
+
+      if (!location) {
+        return res.status(404).json({ error: "Watched location not found" });
+      }
+
+      res.json(location);
+    } catch (error) {
+      console.error("Error fetching watched location:", error);
+      res.status(500).json({ error: "Failed to fetch watched location" });
+    }
+  });
+
+  app.put("/api/watched-locations/:id", async (req, res) => {
+    try {
+      const parsed = watchedLocationUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid watched location", details: parsed.error.flatten() });
+      }
+
+      const location = await monitoringService.updateLocation(req.params.id, parsed.data);
+
+      if (!location) {
+        return res.status(404).json({ error: "Watched location not found" });
+      }
+
+      res.json(location);
+    } catch (error) {
+      if (error instanceof MonitoringRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating watched location:", error);
+      res.status(500).json({ error: "Failed to update watched location" });
+    }
+  });
+
+  app.delete("/api/watched-locations/:id", async (req, res) => {
+    try {
+      if (!await monitoringService.deleteLocation(req.params.id)) {
+        return res.status(404).json({ error: "Watched location not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting watched location:", error);
+      res.status(500).json({ error: "Failed to delete watched location" });
+    }
+  });
+
+  // Run a watched location immediately; the outcome is recorded like a scheduled run
+  app.post("/api/watched-locations/:id/run", async (req, res) => {
+    try {
+      const location = await monitoringService.runNow(req.params.id);
+
+      if (!location) {
+        return res.status(404).json({ error: "Watched location not found" });
+      }
+
+      res.json(location);
+    } catch (error) {
+      if (error instanceof MonitoringConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error running watched location:", error);
+      res.status(500).json({ error: "Failed to run watched location" });
+    }
+  });
+
+  // Livability scoring profiles
+  app.get("/api/livability/profiles", async (_req, res) => {
+    try {
+      res.json(await scoringProfileService.listProfiles());
+    } catch (error) {
+      console.error("Error fetching scoring profiles:", error);
+      res.status(500).json({ error: "Failed to fetch scoring profiles" });
+    }
+  });
+
+  app.post("/api/livability/profiles", async (req, res) => {
+    try {
+      const parsed = scoringProfileRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid scoring profile", details: parsed.error.flatten() });
+      }
+
+      const profile = await scoringProfileService.createProfile(parsed.data);
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof ScoringProfileConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error creating scoring profile:", error);
+      res.status(500).json({ error: "Failed to create scoring profile" });
+    }
+  });
+
+  app.put("/api/livability/profiles/default", async (req, res) => {
+    try {
+      const parsed = z.object({ name: z.string() }).safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Request body must include a profile 'name'" });
+      }
+
+      const profile = await scoringProfileService.selectDefault(parsed.data.name);
+
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      res.json(profile);
+    } catch (error) {
+      console.error("Error selecting default scoring profile:", error);
+      res.status(500).json({ error: "Failed to select default scoring profile" });
+    }
+  });
+
+  // Rank several named points or polygons scored from stored readings
+  app.post("/api/livability/compare", async (req, res) => {
+    try {
+      const parsed = comparisonRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid comparison request", details: parsed.error.flatten() });
+      }
+
+      const profile = await scoringProfileService.resolveProfile(parsed.data.profile);
+
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      res.json(await comparisonService.compare(parsed.data, profile));
+    } catch (error) {
+      console.error("Error comparing livability:", error);
+      res.status(500).json({ error: "Failed to compare livability" });
+    }
+  });
+
+  // Choropleth cells scored from stored readings, as GeoJSON
+  app.get("/api/livability/grid", async (req, res) => {
+    try {
+      const query = gridQuerySchema.safeParse(req.query);
+
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const profile = await scoringProfileService.resolveProfile(query.data.profile);
+
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      const [minLon, minLat, maxLon, maxLat] = query.data.bbox;
+      res.json(await gridService.getGrid({
+        bounds: { minLon, minLat, maxLon, maxLat },
+        resolution: query.data.resolution,
+        normalization: query.data.normalization
+      }, profile));
+    } catch (error) {
+      if (error instanceof GridRangeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error building livability grid:", error);
+      res.status(500).json({ error: "Failed to build livability grid" });
+    }
+  });
+
   // Livability Score Calculation
   app.get("/api/livability/:lat/:lon", async (req, res) => {
     try {
@@ -100,40 +422,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid coordinates" });
       }
 
-      // Get recent environmental data
-      const envData = await storage.getRecentEnvironmentalData(lat, lon, 24);
-      
-      if (envData.airQuality.length === 0 || envData.waterSecurity.length === 0 || envData.greenSpace.length === 0) {
-        return res.status(404).json({ error: "Insufficient environmental data for livability calculation" });
+      const profileName = z.string().trim().min(1).optional().safeParse(req.query.profile);
+      const normalization = normalizationModeSchema.optional().safeParse(req.query.normalization);
+      const location = z.string().trim().min(1).optional().safeParse(req.query.location);
+
+      if (!profileName.success) {
+        return res.status(400).json({ error: "Profile must be a non-empty name" });
       }
 
-      // Calculate average metrics
-      const avgAirQuality = envData.airQuality.reduce((sum, d) => sum + d.aqi, 0) / envData.airQuality.length;
-      const avgWaterStress = envData.waterSecurity.reduce((sum, d) => sum + d.waterStressLevel, 0) / envData.waterSecurity.length;
-      const avgGreenSpace = envData.greenSpace.reduce((sum, d) => sum + (d.vegetationCoverage || d.ndvi * 100), 0) / envData.greenSpace.length;
+      if (!normalization.success) {
+        return res.status(400).json({ error: "Normalization must be 'step' or 'linear'" });
+      }
 
-      // Calculate livability score
-      const livabilityResult = livabilityCalculator.calculateLivabilityScore({
-        airQuality: avgAirQuality,
-        waterSecurity: avgWaterStress,
-        greenSpace: avgGreenSpace
-      });
+      if (!location.success) {
+        return res.status(400).json({ error: "Location must be a non-empty name" });
+      }
 
-      // Store livability score
-      const storedScore = await storage.insertLivabilityScore({
-        latitude: lat,
-        longitude: lon,
-        airQualityScore: livabilityResult.airQualityScore,
-        waterSecurityScore: livabilityResult.waterSecurityScore,
-        greenSpaceScore: livabilityResult.greenSpaceScore,
-        overallScore: livabilityResult.overallScore,
-        location: req.query.location as string || `${lat.toFixed(3)}, ${lon.toFixed(3)}`
+      const profile = await scoringProfileService.resolveProfile(profileName.data);
+
+      if (!profile) {
+        return res.status(404).json({ error: "Scoring profile not found" });
+      }
+
+      const scored = await livabilityScoringService.scoreLocation(lat, lon, profile, {
+        normalization: normalization.data,
+        location: location.data
       });
 
+      if (!scored) {
+        return res.status(404).json({ error: "Insufficient environmental data for livability calculation" });
+      }
+
+      const { result: livabilityResult, fused, airQualityIndex, stored: storedScore } = scored;
+
       res.json({
         ...livabilityResult,
         category: livabilityCalculator.getLivabilityCategory(livabilityResult.overallScore),
         recommendations: livabilityCalculator.generateRecommendations(livabilityResult),
+        airQualityIndex,
+        provenance: {
+          airQuality: fused.airQuality!.provenance,
+          waterSecurity: fused.waterSecurity!.provenance,
+          greenSpace: fused.greenSpace!.provenance,
+          heat: fused.heat?.provenance ?? [],
+          flood: fused.flood?.provenance ?? [],
+          noise: fused.noise?.provenance ?? []
+        },
+        profile: profile.name,
         id: storedScore.id,
         timestamp: storedScore.timestamp
       });
@@ -143,6 +478,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Livability score history, bucketed by day, week or month
+  app.get("/api/livability/:lat/:lon/history", async (req, res) => {
+    try {
+      const lat = parseFloat(req.params.lat);
+      const lon = parseFloat(req.params.lon);
+      const query = historyQuerySchema.safeParse(req.query);
+
+      if (isNaN(lat) || isNaN(lon)) {
+        return res.status(400).json({ error: "Invalid coordinates" });
+      }
+
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const history = await livabilityHistoryService.getHistory(lat, lon, {
+        interval: query.data.interval,
+        from: query.data.from,
+        to: query.data.to,
+        radiusKm: query.data.radius
+      });
+      res.json(history);
+    } catch (error) {
+      if (error instanceof HistoryRangeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error fetching livability history:", error);
+      res.status(500).json({ error: "Failed to fetch livability history" });
+    }
+  });
+
   // Environmental Alerts
   app.get("/api/alerts", async (req, res) => {
     try {
@@ -166,39 +532,358 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get recent environmental data
       const envData = await storage.getRecentEnvironmentalData(lat, lon, 6); // Last 6 hours
       
-      // Generate alerts based on current conditions
-      const newAlerts = await alertService.generateAlerts({
+      // Record alerts for current conditions, updating any already open
+      const alerts = await alertService.generateAlerts({
         airQuality: envData.airQuality,
         waterSecurity: envData.waterSecurity,
         greenSpace: envData.greenSpace,
         location: req.body.location || `${lat.toFixed(3)}, ${lon.toFixed(3)}`,
         latitude: lat,
-        longitude: lon
+        longitude: lon,
+        userId: typeof req.body.userId === "string" && req.body.userId ? req.body.userId : undefined
       });
 
-      // Store new alerts
-      const storedAlerts = [];
-      for (const alert of newAlerts) {
-        const stored = await storage.insertEnvironmentalAlert(alert);
-        storedAlerts.push(stored);
-      }
-
-      res.json(storedAlerts);
+      res.json(alerts);
     } catch (error) {
       console.error("Error generating alerts:", error);
       res.status(500).json({ error: "Failed to generate alerts" });
     }
   });
 
-  // Dismiss alert
-  app.patch("/api/alerts/:id/dismiss", async (req, res) => {
+  // Alert rules evaluated by alert generation
+  app.get("/api/alerts/rules", async (_req, res) => {
+    try {
+      res.json(await alertRuleService.listRules());
+    } catch (error) {
+      console.error("Error fetching alert rules:", error);
+      res.status(500).json({ error: "Failed to fetch alert rules" });
+    }
+  });
+
+  app.get("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      const rule = await alertRuleService.getRule(req.params.id);
+
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      console.error("Error fetching alert rule:", error);
+      res.status(500).json({ error: "Failed to fetch alert rule" });
+    }
+  });
+
+  app.post("/api/alerts/rules", async (req, res) => {
+    try {
+      const parsed = alertRuleRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid alert rule", details: parsed.error.flatten() });
+      }
+
+      res.status(201).json(await alertRuleService.createRule(parsed.data));
+    } catch (error) {
+      if (error instanceof AlertRuleValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof AlertRuleConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error creating alert rule:", error);
+      res.status(500).json({ error: "Failed to create alert rule" });
+    }
+  });
+
+  app.put("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      const parsed = alertRuleUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid alert rule", details: parsed.error.flatten() });
+      }
+
+      const rule = await alertRuleService.updateRule(req.params.id, parsed.data);
+
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof AlertRuleValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating alert rule:", error);
+      res.status(500).json({ error: "Failed to update alert rule" });
+    }
+  });
+
+  app.delete("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      if (!await alertRuleService.deleteRule(req.params.id)) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof AlertRuleConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error deleting alert rule:", error);
+      res.status(500).json({ error: "Failed to delete alert rule" });
+    }
+  });
+
+  // Alert thresholds: built-in values overridden per subscriber and area
+  app.get("/api/alerts/thresholds", async (req, res) => {
     try {
-      // Note: This would require adding an update method to storage
-      // For now, we'll return success
-      res.json({ success: true, message: "Alert dismissed" });
+      const parsed = thresholdQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: parsed.error.flatten() });
+      }
+
+      const { lat, lon, user } = parsed.data;
+      const point = lat !== undefined && lon !== undefined ? { lat, lon } : undefined;
+      res.json(await alertThresholdService.resolve(point, user));
     } catch (error) {
-      console.error("Error dismissing alert:", error);
-      res.status(500).json({ error: "Failed to dismiss alert" });
+      console.error("Error resolving alert thresholds:", error);
+      res.status(500).json({ error: "Failed to resolve alert thresholds" });
+    }
+  });
+
+  app.put("/api/alerts/thresholds", async (req, res) => {
+    try {
+      const parsed = alertThresholdOverrideRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid alert thresholds", details: parsed.error.flatten() });
+      }
+
+      const { override, created } = await alertThresholdService.setOverride(parsed.data);
+      res.status(created ? 201 : 200).json(override);
+    } catch (error) {
+      console.error("Error saving alert thresholds:", error);
+      res.status(500).json({ error: "Failed to save alert thresholds" });
+    }
+  });
+
+  app.get("/api/alerts/thresholds/overrides", async (_req, res) => {
+    try {
+      res.json(await alertThresholdService.listOverrides());
+    } catch (error) {
+      console.error("Error fetching alert threshold overrides:", error);
+      res.status(500).json({ error: "Failed to fetch alert threshold overrides" });
+    }
+  });
+
+  app.delete("/api/alerts/thresholds/overrides/:id", async (req, res) => {
+    try {
+      if (!await alertThresholdService.deleteOverride(req.params.id)) {
+        return res.status(404).json({ error: "Threshold override not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting alert threshold override:", error);
+      res.status(500).json({ error: "Failed to delete alert threshold override" });
+    }
+  });
+
+  // Per-rule quiet periods after an alert closes
+  app.get("/api/alerts/suppression-windows", async (_req, res) => {
+    try {
+      const rules = await alertRuleService.listRules();
+      res.json(Object.fromEntries(rules.map(({ id, cooldownMinutes, suppressMinutes }) =>
+        [id, { cooldownMinutes, suppressMinutes }])));
+    } catch (error) {
+      console.error("Error fetching suppression windows:", error);
+      res.status(500).json({ error: "Failed to fetch suppression windows" });
+    }
+  });
+
+  app.put("/api/alerts/suppression-windows/:rule", async (req, res) => {
+    try {
+      const parsed = suppressionWindowSchema.partial().safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid suppression window", details: parsed.error.flatten() });
+      }
+
+      const rule = await alertRuleService.updateRule(req.params.rule, parsed.data);
+
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+
+      res.json({ cooldownMinutes: rule.cooldownMinutes, suppressMinutes: rule.suppressMinutes });
+    } catch (error) {
+      console.error("Error updating suppression window:", error);
+      res.status(500).json({ error: "Failed to update suppression window" });
+    }
+  });
+
+  app.get("/api/alerts/:id", async (req, res) => {
+    try {
+      const alert = await storage.getEnvironmentalAlert(req.params.id);
+
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+
+      res.json(alert);
+    } catch (error) {
+      console.error("Error fetching alert:", error);
+      res.status(500).json({ error: "Failed to fetch alert" });
+    }
+  });
+
+  // Alert lifecycle: PATCH /api/alerts/:id/{acknowledge,resolve,dismiss} with optional actor and reason
+  const alertActions: Record<string, AlertStatus> = {
+    acknowledge: "acknowledged",
+    resolve: "resolved",
+    dismiss: "dismissed"
+  };
+
+  for (const [action, status] of Object.entries(alertActions)) {
+    app.patch(`/api/alerts/:id/${action}`, async (req, res) => {
+      try {
+        const parsed = alertTransitionRequestSchema.safeParse(req.body ?? {});
+
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid alert update", details: parsed.error.flatten() });
+        }
+
+        const alert = await alertLifecycleService.transition(req.params.id, status, parsed.data);
+
+        if (!alert) {
+          return res.status(404).json({ error: "Alert not found" });
+        }
+
+        res.json(alert);
+      } catch (error) {
+        if (error instanceof AlertTransitionError) {
+          return res.status(409).json({ error: error.message });
+        }
+        console.error(`Error updating alert (${action}):`, error);
+        res.status(500).json({ error: `Failed to ${action} alert` });
+      }
+    });
+  }
+
+  // Notification channels that new and escalated alerts are delivered to
+  app.get("/api/notifications/channels", async (_req, res) => {
+    try {
+      res.json(await notificationService.listChannels());
+    } catch (error) {
+      console.error("Error fetching notification channels:", error);
+      res.status(500).json({ error: "Failed to fetch notification channels" });
+    }
+  });
+
+  app.post("/api/notifications/channels", async (req, res) => {
+    try {
+      const parsed = notificationChannelRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid notification channel", details: parsed.error.flatten() });
+      }
+
+      res.status(201).json(await notificationService.createChannel(parsed.data));
+    } catch (error) {
+      console.error("Error creating notification channel:", error);
+      res.status(500).json({ error: "Failed to create notification channel" });
+    }
+  });
+
+  app.get("/api/notifications/channels/:id", async (req, res) => {
+    try {
+      const channel = await notificationService.getChannel(req.params.id);
+
+      if (!channel) {
+        return res.status(404).json({ error: "Notification channel not found" });
+      }
+
+      res.json(channel);
+    } catch (error) {
+      console.error("Error fetching notification channel:", error);
+      res.status(500).json({ error: "Failed to fetch notification channel" });
+    }
+  });
+
+  app.put("/api/notifications/channels/:id", async (req, res) => {
+    try {
+      const parsed = notificationChannelUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid notification channel", details: parsed.error.flatten() });
+      }
+
+      const channel = await notificationService.updateChannel(req.params.id, parsed.data);
+
+      if (!channel) {
+        return res.status(404).json({ error: "Notification channel not found" });
+      }
+
+      res.json(channel);
+    } catch (error) {
+      if (error instanceof NotificationChannelValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error updating notification channel:", error);
+      res.status(500).json({ error: "Failed to update notification channel" });
+    }
+  });
+
+  app.delete("/api/notifications/channels/:id", async (req, res) => {
+    try {
+      if (!await notificationService.deleteChannel(req.params.id)) {
+        return res.status(404).json({ error: "Notification channel not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting notification channel:", error);
+      res.status(500).json({ error: "Failed to delete notification channel" });
+    }
+  });
+
+  // Send a sample alert through a channel once; the delivery records whether it arrived
+  app.post("/api/notifications/channels/:id/test", async (req, res) => {
+    try {
+      const delivery = await notificationService.sendTest(req.params.id);
+
+      if (!delivery) {
+        return res.status(404).json({ error: "Notification channel not found" });
+      }
+
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test notification:", error);
+      res.status(500).json({ error: "Failed to send test notification" });
+    }
+  });
+
+  // Delivery log, newest first
+  app.get("/api/notifications/deliveries", async (req, res) => {
+    try {
+      const query = deliveryQuerySchema.safeParse(req.query);
+
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      res.json(await notificationService.listDeliveries({
+        channelId: query.data.channel,
+        alertId: query.data.alert,
+        status: query.data.status,
+        limit: query.data.limit
+      }));
+    } catch (error) {
+      console.error("Error fetching notification deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch notification deliveries" });
     }
   });
 
@@ -207,13 +892,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const lat = parseFloat(req.params.lat);
       const lon = parseFloat(req.params.lon);
-      const radius = parseFloat(req.query.radius as string) || 0.1;
+      const query = locationQuerySchema.safeParse(req.query);
       
       if (isNaN(lat) || isNaN(lon)) {
         return res.status(400).json({ error: "Invalid coordinates" });
       }
 
-      const data = await storage.getAirQualityDataByLocation(lat, lon, radius);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const data = await storage.getAirQualityDataByLocation(lat, lon, {
+        radiusKm: query.data.radius,
+        sortBy: query.data.sort
+      });
       res.json(data);
     } catch (error) {
       console.error("Error fetching air quality data:", error);
@@ -225,13 +917,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const lat = parseFloat(req.params.lat);
       const lon = parseFloat(req.params.lon);
-      const radius = parseFloat(req.query.radius as string) || 0.1;
+      const query = locationQuerySchema.safeParse(req.query);
       
       if (isNaN(lat) || isNaN(lon)) {
         return res.status(400).json({ error: "Invalid coordinates" });
       }
 
-      const data = await storage.getWaterSecurityDataByLocation(lat, lon, radius);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const data = await storage.getWaterSecurityDataByLocation(lat, lon, {
+        radiusKm: query.data.radius,
+        sortBy: query.data.sort
+      });
       res.json(data);
     } catch (error) {
       console.error("Error fetching water security data:", error);
@@ -243,13 +942,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const lat = parseFloat(req.params.lat);
       const lon = parseFloat(req.params.lon);
-      const radius = parseFloat(req.query.radius as string) || 0.1;
+      const query = locationQuerySchema.safeParse(req.query);
       
       if (isNaN(lat) || isNaN(lon)) {
         return res.status(400).json({ error: "Invalid coordinates" });
       }
 
-      const data = await storage.getGreenSpaceDataByLocation(lat, lon, radius);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const data = await storage.getGreenSpaceDataByLocation(lat, lon, {
+        radiusKm: query.data.radius,
+        sortBy: query.data.sort
+      });
       res.json(data);
     } catch (error) {
       console.error("Error fetching green space data:", error);
@@ -257,6 +963,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/heat/:lat/:lon", async (req, res) => {
+    try {
+      const lat = parseFloat(req.params.lat);
+      const lon = parseFloat(req.params.lon);
+      const query = locationQuerySchema.safeParse(req.query);
+      
+      if (isNaN(lat) || isNaN(lon)) {
+        return res.status(400).json({ error: "Invalid coordinates" });
+      }
+
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const data = await storage.getHeatDataByLocation(lat, lon, {
+        radiusKm: query.data.radius,
+        sortBy: query.data.sort
+      });
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching heat data:", error);
+      res.status(500).json({ error: "Failed to fetch heat data" });
+    }
+  });
+
+  app.get("/api/flood-exposure/:lat/:lon", async (req, res) => {
+    try {
+      const lat = parseFloat(req.params.lat);
+      const lon = parseFloat(req.params.lon);
+      const query = locationQuerySchema.safeParse(req.query);
+      
+      if (isNaN(lat) || isNaN(lon)) {
+        return res.status(400).json({ error: "Invalid coordinates" });
+      }
+
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const data = await storage.getFloodExposureDataByLocation(lat, lon, {
+        radiusKm: query.data.radius,
+        sortBy: query.data.sort
+      });
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching flood exposure data:", error);
+      res.status(500).json({ error: "Failed to fetch flood exposure data" });
+    }
+  });
+
+  app.get("/api/noise/:lat/:lon", async (req, res) => {
+    try {
+      const lat = parseFloat(req.params.lat);
+      const lon = parseFloat(req.params.lon);
+      const query = locationQuerySchema.safeParse(req.query);
+      
+      if (isNaN(lat) || isNaN(lon)) {
+        return res.status(400).json({ error: "Invalid coordinates" });
+      }
+
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+
+      const data = await storage.getNoiseDataByLocation(lat, lon, {
+        radiusKm: query.data.radius,
+        sortBy: query.data.sort
+      });
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching noise data:", error);
+      res.status(500).json({ error: "Failed to fetch noise data" });
+    }
+  });
+
   // Get comprehensive data for dashboard
   app.get("/api/dashboard/:lat/:lon", async (req, res) => {
     try {
@@ -267,29 +1048,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid coordinates" });
       }
 
-      // Get recent data and livability score in parallel
-      const [envData, livabilityScore, alerts] = await Promise.all([
-        storage.getRecentEnvironmentalData(lat, lon, 24),
+      const query = dashboardQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.flatten() });
+      }
+      const { trendWindow } = query.data;
+
+      // One read covers both trend windows and the recent data; the score and alerts load in parallel
+      const [trendData, livabilityScore, alerts] = await Promise.all([
+        storage.getRecentEnvironmentalData(lat, lon, Math.max(DASHBOARD_RECENT_HOURS, 2 * trendWindow)),
         storage.getLivabilityScoreByLocation(lat, lon),
         storage.getActiveAlerts()
       ]);
+      const recentSince = new Date();
+      recentSince.setHours(recentSince.getHours() - DASHBOARD_RECENT_HOURS);
+      const envData = readingsSince(trendData, recentSince);
 
       // Calculate current metrics from latest readings
       const currentMetrics = {
         airQuality: envData.airQuality.length > 0 ? envData.airQuality[0] : null,
         waterSecurity: envData.waterSecurity.length > 0 ? envData.waterSecurity[0] : null,
-        greenSpace: envData.greenSpace.length > 0 ? envData.greenSpace[0] : null
+        greenSpace: envData.greenSpace.length > 0 ? envData.greenSpace[0] : null,
+        heat: envData.heat.length > 0 ? envData.heat[0] : null,
+        flood: envData.flood.length > 0 ? envData.flood[0] : null,
+        noise: envData.noise.length > 0 ? envData.noise[0] : null
       };
 
       res.json({
         location: `${lat.toFixed(3)}, ${lon.toFixed(3)}`,
         currentMetrics,
+        fusedMetrics: fusionService.fuseEnvironmentalData(envData),
+        trends: trendService.computeTrends(trendData, trendWindow),
+        trendWindowHours: trendWindow,
         livabilityScore,
         alerts: alerts.slice(0, 10), // Latest 10 alerts
         historicalData: {
           airQuality: envData.airQuality.slice(0, 24), // Last 24 readings
           waterSecurity: envData.waterSecurity.slice(0, 24),
-          greenSpace: envData.greenSpace.slice(0, 24)
+          greenSpace: envData.greenSpace.slice(0, 24),
+          heat: envData.heat.slice(0, 24),
+          flood: envData.flood.slice(0, 24),
+          noise: envData.noise.slice(0, 24)
         }
       });
     } catch (error) {
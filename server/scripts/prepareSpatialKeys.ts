@@ -0,0 +1,138 @@
+// One-off preparation for databases created before readings carried spatial keys
+// `db:push` cannot add location_key and geohash as NOT NULL columns to populated
+// tables, nor build the observation unique indexes over duplicate rows. This adds
+// and fills the keys, removes the duplicates and then adds the constraints. Run
+// `npm run db:prepare` before `npm run db:push`; running it again is harmless.
+
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import {
+  airQualityData,
+  waterSecurityData,
+  greenSpaceData,
+  heatData,
+  floodExposureData,
+  noiseData,
+  livabilityScores
+} from "@shared/schema";
+import { createDatabase } from "../db";
+import { encodeGeohash } from "../geo";
+import { observationLocationKey } from "../storage";
+
+// Rows keyed per UPDATE; well inside Postgres' bind parameter limit
+const BATCH_SIZE = 1000;
+
+// Tables keyed by observation also get location_key and its unique index
+const TABLES: Array<{ table: PgTable; observations: boolean }> = [
+  { table: airQualityData, observations: true },
+  { table: waterSecurityData, observations: true },
+  { table: greenSpaceData, observations: true },
+  { table: heatData, observations: true },
+  { table: floodExposureData, observations: true },
+  { table: noiseData, observations: true },
+  { table: livabilityScores, observations: false }
+];
+
+const db = createDatabase();
+
+async function prepare(table: PgTable, observations: boolean) {
+  const config = getTableConfig(table);
+  const name = sql.identifier(config.name);
+
+  const { rows: [{ exists }] } = await db.execute<{ exists: boolean }>(sql`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_name = ${config.name}
+    ) AS "exists"
+  `);
+  if (!exists) {
+    console.log(`${config.name}: not created yet, db:push will create it`);
+    return;
+  }
+
+  // Unique indexes from an earlier push would reject rows while they are re-keyed
+  const uniqueIndexes = config.indexes.filter(index => index.config.unique);
+  for (const index of uniqueIndexes) {
+    await db.execute(sql`DROP INDEX IF EXISTS ${sql.identifier(index.config.name!)}`);
+  }
+
+  await db.execute(sql`ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS geohash text`);
+  if (observations) {
+    await db.execute(sql`ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS location_key text`);
+  }
+
+  // Keys are computed here rather than in SQL so they match what storage writes, and
+  // rewritten where an earlier key format differs. Pages walk the primary key so each
+  // batch reads only its own rows
+  let keyed = 0;
+  let after = "";
+  for (;;) {
+    const { rows } = await db.execute<{
+      id: string; latitude: number; longitude: number; geohash: string | null; location_key: string | null
+    }>(sql`
+      SELECT id, latitude, longitude, geohash, ${observations ? sql`location_key` : sql`NULL AS location_key`}
+      FROM ${name}
+      WHERE id > ${after}
+      ORDER BY id
+      LIMIT ${BATCH_SIZE}
+    `);
+    if (rows.length === 0) break;
+    after = rows[rows.length - 1].id;
+
+    const pending = rows
+      .map(row => ({
+        id: row.id,
+        geohash: encodeGeohash(row.latitude, row.longitude),
+        locationKey: observations ? observationLocationKey(row.latitude, row.longitude) : null,
+        stored: row
+      }))
+      .filter(row => row.geohash !== row.stored.geohash || row.locationKey !== row.stored.location_key);
+    if (pending.length === 0) continue;
+
+    const values = sql.join(pending.map(row => sql`(${row.id}, ${row.geohash}, ${row.locationKey}::text)`), sql`, `);
+    await db.execute(sql`
+      UPDATE ${name} SET geohash = keys.geohash
+        ${observations ? sql`, location_key = keys.location_key` : sql``}
+      FROM (VALUES ${values}) AS keys (id, geohash, location_key)
+      WHERE ${name}.id = keys.id
+    `);
+    keyed += pending.length;
+  }
+
+  let removed = 0;
+  await db.transaction(async tx => {
+    if (observations) {
+      // Keep one row of each repeated observation: the one with the lowest id
+      const deleted = await tx.execute(sql`
+        DELETE FROM ${name} AS duplicate USING ${name} AS kept
+        WHERE duplicate.source = kept.source
+          AND duplicate.location_key = kept.location_key
+          AND duplicate.timestamp = kept.timestamp
+          AND duplicate.id > kept.id
+      `);
+      removed = deleted.rowCount ?? 0;
+      await tx.execute(sql`ALTER TABLE ${name} ALTER COLUMN location_key SET NOT NULL`);
+    }
+    await tx.execute(sql`ALTER TABLE ${name} ALTER COLUMN geohash SET NOT NULL`);
+
+    for (const index of uniqueIndexes) {
+      const columns = sql.join(index.config.columns.map(column => sql.identifier((column as { name: string }).name)), sql`, `);
+      await tx.execute(sql`CREATE UNIQUE INDEX ${sql.identifier(index.config.name!)} ON ${name} (${columns})`);
+    }
+  });
+
+  console.log(`${config.name}: keyed ${keyed} rows, removed ${removed} duplicate observations`);
+}
+
+(async () => {
+  try {
+    for (const { table, observations } of TABLES) {
+      await prepare(table, observations);
+    }
+  } finally {
+    await db.$client.end();
+  }
+})().catch(error => {
+  console.error("Failed to prepare spatial keys:", error);
+  process.exitCode = 1;
+});
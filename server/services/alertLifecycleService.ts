@@ -0,0 +1,87 @@
+// Alert lifecycle
+// Moves alerts through active → acknowledged → resolved/dismissed/expired, recording who
+// made each change, when and why. Alert generation expires open alerts whose condition
+// is no longer detected at their location.
+
+import {
+  OPEN_ALERT_STATUSES,
+  type AlertStatus,
+  type AlertTransitionRequest,
+  type EnvironmentalAlert
+} from "@shared/schema";
+import { storage } from "../storage";
+
+export interface AlertTransition {
+  from: AlertStatus;
+  to: AlertStatus;
+  at: string;         // ISO timestamp
+  by: string;         // Actor, or "system" for automatic changes
+  reason: string | null;
+}
+
+export class AlertTransitionError extends Error {}
+
+// Statuses each status may move to; resolved, dismissed and expired are final
+const TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  active: ['acknowledged', 'resolved', 'dismissed', 'expired'],
+  acknowledged: ['resolved', 'dismissed', 'expired'],
+  resolved: [],
+  dismissed: [],
+  expired: []
+};
+
+const SYSTEM_ACTOR = 'system';
+const ANONYMOUS_ACTOR = 'anonymous';
+
+class AlertLifecycleService {
+  /**
+   * Move an alert to a new status; undefined when the alert doesn't exist
+   */
+  async transition(
+    id: string,
+    to: AlertStatus,
+    request: AlertTransitionRequest = {},
+    now: Date = new Date()
+  ): Promise<EnvironmentalAlert | undefined> {
+    const alert = await storage.getEnvironmentalAlert(id);
+    if (!alert) return undefined;
+
+    const from = alert.status as AlertStatus;
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new AlertTransitionError(`Alert is ${from} and cannot be ${to}`);
+    }
+
+    const transition: AlertTransition = {
+      from,
+      to,
+      at: now.toISOString(),
+      by: request.actor ?? ANONYMOUS_ACTOR,
+      reason: request.reason ?? null
+    };
+
+    return storage.updateEnvironmentalAlert(id, {
+      status: to,
+      isActive: OPEN_ALERT_STATUSES.includes(to),
+      statusHistory: [...(alert.statusHistory as AlertTransition[]), transition]
+    });
+  }
+
+  /**
+   * Expire open alerts whose condition is no longer detected
+   */
+  async expireCleared(alerts: EnvironmentalAlert[], now: Date = new Date()): Promise<EnvironmentalAlert[]> {
+    const expired: EnvironmentalAlert[] = [];
+    for (const alert of alerts) {
+      const updated = await this.transition(
+        alert.id,
+        'expired',
+        { actor: SYSTEM_ACTOR, reason: 'Condition no longer detected' },
+        now
+      );
+      if (updated) expired.push(updated);
+    }
+    return expired;
+  }
+}
+
+export default new AlertLifecycleService();
@@ -0,0 +1,290 @@
+// Alert rule engine
+// Evaluates declarative alert rules against recent readings: a metric's value, change or
+// rate of change is compared with each level's threshold, optionally over a persistence
+// window, and the first level that holds yields the alert's severity and message.
+
+import type {
+  AirQualityData,
+  AlertMetric,
+  AlertRule,
+  AlertRuleLevel,
+  AlertThresholdKey,
+  GreenSpaceData,
+  WaterSecurityData
+} from "@shared/schema";
+import type { AlertThresholds } from "./alertThresholdService";
+
+export type RuleDataset = 'airQuality' | 'waterSecurity' | 'greenSpace';
+export type RuleReading = AirQualityData | WaterSecurityData | GreenSpaceData;
+
+export interface RuleReadings {
+  airQuality?: AirQualityData[];
+  waterSecurity?: WaterSecurityData[];
+  greenSpace?: GreenSpaceData[];
+}
+
+// Values formulas and message templates can refer to
+export interface RuleVariables {
+  value: number;     // The measured value, change or rate
+  threshold: number;
+  current: number;   // Latest reading of the metric
+  previous: number;  // Change baseline, or the reading before the latest; current when there is none
+}
+
+export interface RuleMatch {
+  level: AlertRuleLevel;
+  category: string;
+  reading: RuleReading; // Latest reading of the metric
+  severity: number;
+  title: string;
+  message: string;
+}
+
+interface MetricDefinition {
+  dataset: RuleDataset;
+  category: string; // Alert category
+  read: (reading: RuleReading) => number | null | undefined;
+}
+
+const air = (read: (reading: AirQualityData) => number | null): MetricDefinition =>
+  ({ dataset: 'airQuality', category: 'air_quality', read: read as MetricDefinition['read'] });
+const water = (read: (reading: WaterSecurityData) => number | null): MetricDefinition =>
+  ({ dataset: 'waterSecurity', category: 'water_security', read: read as MetricDefinition['read'] });
+const green = (read: (reading: GreenSpaceData) => number | null): MetricDefinition =>
+  ({ dataset: 'greenSpace', category: 'green_space', read: read as MetricDefinition['read'] });
+
+export const ALERT_METRICS: Record<AlertMetric, MetricDefinition> = {
+  aqi: air(r => r.aqi),
+  pm25: air(r => r.pm25),
+  pm10: air(r => r.pm10),
+  ozone: air(r => r.ozone),
+  no2: air(r => r.no2),
+  so2: air(r => r.so2),
+  waterStressLevel: water(r => r.waterStressLevel),
+  precipitationLevel: water(r => r.precipitationLevel),
+  groundwaterLevel: water(r => r.groundwaterLevel),
+  floodRisk: water(r => r.floodRisk),
+  ndvi: green(r => r.ndvi),
+  vegetationCoverage: green(r => r.vegetationCoverage || r.ndvi * 100) // Estimated from NDVI when missing
+};
+
+const COMPARISONS: Record<string, (value: number, threshold: number) => boolean> = {
+  gt: (value, threshold) => value > threshold,
+  gte: (value, threshold) => value >= threshold,
+  lt: (value, threshold) => value < threshold,
+  lte: (value, threshold) => value <= threshold
+};
+
+const VARIABLES: Array<keyof RuleVariables> = ['value', 'threshold', 'current', 'previous'];
+
+const FUNCTIONS = new Map<string, (...args: number[]) => number>([
+  ['min', Math.min],
+  ['max', Math.max],
+  ['abs', Math.abs]
+]);
+
+type Formula = (variables: RuleVariables) => number;
+
+/**
+ * Compile a severity formula: numbers, the rule variables, + - * / and parentheses,
+ * and min(), max() and abs(). Throws on anything else.
+ */
+export function compileFormula(source: string): Formula {
+  const tokens = source.match(/\d+(?:\.\d+)?|[A-Za-z_]\w*|\S/g) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new Error(`Expected '${token}' in formula "${source}"`);
+    }
+    position++;
+  };
+
+  const expression = (): Formula => {
+    let left = term();
+    while (peek() === '+' || peek() === '-') {
+      const operator = tokens[position++];
+      const l = left, r = term();
+      left = operator === '+' ? v => l(v) + r(v) : v => l(v) - r(v);
+    }
+    return left;
+  };
+
+  const term = (): Formula => {
+    let left = factor();
+    while (peek() === '*' || peek() === '/') {
+      const operator = tokens[position++];
+      const l = left, r = factor();
+      left = operator === '*' ? v => l(v) * r(v) : v => l(v) / r(v);
+    }
+    return left;
+  };
+
+  const factor = (): Formula => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new Error(`Formula "${source}" ends unexpectedly`);
+    }
+    if (token === '-') {
+      const operand = factor();
+      return v => -operand(v);
+    }
+    if (token === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (/^\d/.test(token)) {
+      const number = parseFloat(token);
+      return () => number;
+    }
+    const fn = FUNCTIONS.get(token);
+    if (fn) {
+      expect('(');
+      const args = [expression()];
+      while (peek() === ',') {
+        position++;
+        args.push(expression());
+      }
+      expect(')');
+      return v => fn(...args.map(arg => arg(v)));
+    }
+    if ((VARIABLES as string[]).includes(token)) {
+      const name = token as keyof RuleVariables;
+      return v => v[name];
+    }
+    throw new Error(`Unknown '${token}' in formula "${source}"`);
+  };
+
+  const formula = expression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected '${tokens[position]}' in formula "${source}"`);
+  }
+  return formula;
+}
+
+const PLACEHOLDER = /\{(\w+)(?::(\d))?\}/g;
+
+/**
+ * Fill a message template; {value:1} rounds to one decimal, {value} to at most two
+ */
+export function renderTemplate(template: string, variables: RuleVariables): string {
+  return template.replace(PLACEHOLDER, (_match, name: keyof RuleVariables, decimals?: string) => {
+    const value = variables[name];
+    return decimals !== undefined ? value.toFixed(Number(decimals)) : String(Math.round(value * 100) / 100);
+  });
+}
+
+/**
+ * Problems with a rule that its schema can't catch: formulas that don't parse, unknown
+ * template placeholders and a change window on a plain value rule
+ */
+export function validateRuleDefinition(
+  rule: { measure: string; changeWindowMinutes?: number | null; levels: AlertRuleLevel[] }
+): string[] {
+  const problems: string[] = [];
+
+  if (rule.measure === 'value' && rule.changeWindowMinutes != null) {
+    problems.push("changeWindowMinutes only applies to 'change' and 'rate' rules");
+  }
+
+  for (const level of rule.levels) {
+    try {
+      compileFormula(level.severity);
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+
+    for (const [, name] of Array.from(level.message.matchAll(PLACEHOLDER))) {
+      if (!(VARIABLES as string[]).includes(name)) {
+        problems.push(`Unknown placeholder {${name}} in "${level.title}" message`);
+      }
+    }
+  }
+  return problems;
+}
+
+function resolveThreshold(threshold: number | AlertThresholdKey, thresholds: AlertThresholds): number {
+  if (typeof threshold === 'number') return threshold;
+  const [group, level] = threshold.split('.') as [keyof AlertThresholds, 'warning' | 'danger'];
+  return thresholds[group][level];
+}
+
+interface Point {
+  at: number;
+  value: number;
+  reading: RuleReading;
+}
+
+/**
+ * Evaluate a rule against readings, newest first; null when no level holds
+ */
+export function evaluateRule(rule: AlertRule, readings: RuleReadings, thresholds: AlertThresholds): RuleMatch | null {
+  const metric = ALERT_METRICS[rule.metric as AlertMetric];
+  if (!metric) return null;
+
+  const points: Point[] = ((readings[metric.dataset] ?? []) as RuleReading[])
+    .map(reading => ({ at: reading.timestamp.getTime(), value: metric.read(reading), reading }))
+    .filter((point): point is Point => point.value != null && Number.isFinite(point.value))
+    .sort((a, b) => b.at - a.at);
+  if (points.length === 0) return null;
+
+  // The measured quantity at a point and what it was measured against
+  const measureAt = (index: number): { value: number; previous: number | null } | undefined => {
+    const point = points[index];
+    if (rule.measure === 'value') {
+      return { value: point.value, previous: points[index + 1]?.value ?? null };
+    }
+
+    const baseline = rule.changeWindowMinutes != null
+      ? points.slice(index + 1).find(p => p.at <= point.at - rule.changeWindowMinutes! * 60 * 1000)
+      : points[index + 1];
+    if (!baseline) return undefined;
+
+    const change = point.value - baseline.value;
+    if (rule.measure === 'change') return { value: change, previous: baseline.value };
+
+    const hours = (point.at - baseline.at) / (60 * 60 * 1000);
+    return hours > 0 ? { value: change / hours, previous: baseline.value } : undefined;
+  };
+
+  const compare = COMPARISONS[rule.operator];
+  const latest = measureAt(0);
+  if (!compare || !latest) return null;
+
+  const holds = (index: number, threshold: number) => {
+    const measured = measureAt(index);
+    return measured !== undefined && compare(measured.value, threshold);
+  };
+
+  for (const level of rule.levels as AlertRuleLevel[]) {
+    const threshold = resolveThreshold(level.threshold, thresholds);
+    if (!holds(0, threshold)) continue;
+
+    // The run of readings meeting the condition has to span the persistence window
+    if (rule.persistenceMinutes > 0) {
+      let oldest = 0;
+      while (oldest + 1 < points.length && holds(oldest + 1, threshold)) oldest++;
+      if (points[0].at - points[oldest].at < rule.persistenceMinutes * 60 * 1000) continue;
+    }
+
+    const variables: RuleVariables = {
+      value: latest.value,
+      threshold,
+      current: points[0].value,
+      previous: latest.previous ?? points[0].value
+    };
+    const severity = compileFormula(level.severity)(variables);
+
+    return {
+      level,
+      category: metric.category,
+      reading: points[0].reading,
+      severity: Number.isFinite(severity) ? Math.min(100, Math.max(0, severity)) : 0,
+      title: level.title,
+      message: renderTemplate(level.message, variables)
+    };
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+// Alert rules
+// Stores the declarative rules alert generation evaluates, validates edits and seeds the
+// default rules the first time rules are read
+
+import type { AlertRule, AlertRuleLevel, AlertRuleRequest, AlertRuleUpdate } from "@shared/schema";
+import { storage } from "../storage";
+import { validateRuleDefinition } from "./alertRuleEngine";
+import { DEFAULT_ALERT_RULES } from "./defaultAlertRules";
+
+export class AlertRuleConflictError extends Error {}
+export class AlertRuleValidationError extends Error {}
+
+class AlertRuleService {
+  private seeding: Promise<void> | null = null;
+
+  /**
+   * All rules, defaults first
+   */
+  async listRules(): Promise<AlertRule[]> {
+    await this.ensureDefaults();
+    return storage.getAlertRules();
+  }
+
+  async getEnabledRules(): Promise<AlertRule[]> {
+    return (await this.listRules()).filter(rule => rule.enabled);
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    await this.ensureDefaults();
+    return storage.getAlertRule(id);
+  }
+
+  async createRule(request: AlertRuleRequest): Promise<AlertRule> {
+    if (await this.getRule(request.id)) {
+      throw new AlertRuleConflictError(`Alert rule "${request.id}" already exists`);
+    }
+    this.validate(request);
+
+    return storage.createAlertRule({ ...request, builtIn: false });
+  }
+
+  async updateRule(id: string, update: AlertRuleUpdate): Promise<AlertRule | undefined> {
+    const rule = await this.getRule(id);
+    if (!rule) return undefined;
+
+    this.validate({ ...rule, levels: rule.levels as AlertRuleLevel[], ...update });
+    return storage.updateAlertRule(id, update);
+  }
+
+  /**
+   * Remove a rule; built-in rules can only be disabled. False when the rule doesn't exist.
+   */
+  async deleteRule(id: string): Promise<boolean> {
+    const rule = await this.getRule(id);
+    if (!rule) return false;
+
+    if (rule.builtIn) {
+      throw new AlertRuleConflictError(`Built-in alert rule "${id}" can be disabled but not deleted`);
+    }
+    return storage.deleteAlertRule(id);
+  }
+
+  private validate(rule: Parameters<typeof validateRuleDefinition>[0]) {
+    const problems = validateRuleDefinition(rule);
+    if (problems.length > 0) {
+      throw new AlertRuleValidationError(problems.join('; '));
+    }
+  }
+
+  // Stores any default rule that's missing, once per process
+  private ensureDefaults(): Promise<void> {
+    this.seeding ??= (async () => {
+      for (const rule of DEFAULT_ALERT_RULES) {
+        if (!await storage.getAlertRule(rule.id)) {
+          await storage.createAlertRule(rule);
+        }
+      }
+    })().catch(error => {
+      this.seeding = null;
+      throw error;
+    });
+    return this.seeding;
+  }
+}
+
+export default new AlertRuleService();
@@ -2,35 +2,37 @@
 // Reference: javascript_openai integration for AI-powered recommendations
 
 import OpenAI from "openai";
-import type { 
-  EnvironmentalAlert,
-  InsertEnvironmentalAlert,
-  AirQualityData,
-  WaterSecurityData,
-  GreenSpaceData 
+import { 
+  OPEN_ALERT_STATUSES,
+  type AlertStatus,
+  type EnvironmentalAlert,
+  type InsertEnvironmentalAlert,
+  type AirQualityData,
+  type WaterSecurityData,
+  type GreenSpaceData,
+  type AlertMetric,
+  type AlertRule
 } from "@shared/schema";
+import { storage } from "../storage";
+import { encodeGeohash } from "../geo";
+import alertLifecycleService from "./alertLifecycleService";
+import alertRuleService from "./alertRuleService";
+import alertThresholdService, { type AlertThresholds } from "./alertThresholdService";
+import { ALERT_METRICS, evaluateRule, type RuleDataset, type RuleReading } from "./alertRuleEngine";
+import notificationService, { type AlertNotification } from "./notificationService";
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-export interface AlertThresholds {
-  airQuality: {
-    warning: number;    // AQI threshold for warning
-    danger: number;     // AQI threshold for danger
-  };
-  waterSecurity: {
-    warning: number;    // Water stress % for warning
-    danger: number;     // Water stress % for danger
-  };
-  greenSpace: {
-    warning: number;    // Min vegetation % for warning
-    danger: number;     // Min vegetation % for danger
-  };
-  floodRisk: {
-    warning: number;    // Flood risk % for warning
-    danger: number;     // Flood risk % for danger
-  };
-}
+// Without an API key (offline development, tests) the built-in fallback recommendations are used
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+
+// Geohash length of the cell in fingerprints: about 1.2 x 0.6 km
+const ALERT_CELL_PRECISION = 6;
+
+// Covers any point of a cell from any other point in it
+const ALERT_CELL_RADIUS_KM = 1.5;
+
+// An open alert escalates when its type moves up this order
+const TYPE_RANK: Record<string, number> = { info: 0, warning: 1, danger: 2 };
 
 export interface EnvironmentalData {
   airQuality?: AirQualityData[];
@@ -39,259 +41,144 @@ export interface EnvironmentalData {
   location?: string;
   latitude?: number;
   longitude?: number;
+  userId?: string; // Subscriber whose thresholds apply
 }
 
 class AlertService {
-  private readonly thresholds: AlertThresholds = {
-    airQuality: {
-      warning: 100,  // Moderate AQI
-      danger: 150    // Unhealthy AQI
-    },
-    waterSecurity: {
-      warning: 60,   // 60% water stress
-      danger: 80     // 80% water stress
-    },
-    greenSpace: {
-      warning: 30,   // Less than 30% vegetation
-      danger: 15     // Less than 15% vegetation
-    },
-    floodRisk: {
-      warning: 40,   // 40% flood risk
-      danger: 70     // 70% flood risk
-    }
-  };
-
   /**
-   * Analyze environmental data and generate alerts
+   * Analyze environmental data and record the resulting alerts: a condition that already
+   * has an open alert updates it, one closed within its rule's suppression window is
+   * skipped, and open alerts in the cell whose condition cleared expire. Thresholds are
+   * the most specific ones for the point and subscriber. New and escalated alerts are sent
+   * to the notification channels. Returns the open alerts for the conditions detected.
    */
-  async generateAlerts(data: EnvironmentalData): Promise<InsertEnvironmentalAlert[]> {
-    const alerts: InsertEnvironmentalAlert[] = [];
+  async generateAlerts(data: EnvironmentalData, now: Date = new Date()): Promise<EnvironmentalAlert[]> {
+    const point = data.latitude !== undefined && data.longitude !== undefined
+      ? { lat: data.latitude, lon: data.longitude }
+      : undefined;
+    const [rules, { thresholds }] = await Promise.all([
+      alertRuleService.getEnabledRules(),
+      alertThresholdService.resolve(point, data.userId)
+    ]);
+    const detected = (await this.evaluateConditions(data, rules, thresholds)).map(alert => ({
+      ...alert,
+      userId: data.userId ?? null,
+      fingerprint: this.fingerprint({ ...alert, userId: data.userId })
+    }));
 
-    // Analyze air quality data
-    if (data.airQuality && data.airQuality.length > 0) {
-      const airAlerts = await this.analyzeAirQuality(data.airQuality, data);
-      alerts.push(...airAlerts);
+    if (data.latitude !== undefined && data.longitude !== undefined) {
+      const cell = encodeGeohash(data.latitude, data.longitude, ALERT_CELL_PRECISION);
+      const fingerprints = new Set(detected.map(alert => alert.fingerprint));
+      const open = await storage.getOpenAlertsByLocation(data.latitude, data.longitude, { radiusKm: ALERT_CELL_RADIUS_KM });
+      await alertLifecycleService.expireCleared(
+        open.filter(alert =>
+          alert.fingerprint?.endsWith(`:${cell}`) &&
+          alert.userId === (data.userId ?? null) &&
+          !fingerprints.has(alert.fingerprint)),
+        now
+      );
     }
 
-    // Analyze water security data
-    if (data.waterSecurity && data.waterSecurity.length > 0) {
-      const waterAlerts = await this.analyzeWaterSecurity(data.waterSecurity, data);
-      alerts.push(...waterAlerts);
-    }
+    const recorded: EnvironmentalAlert[] = [];
+    const notifications: AlertNotification[] = [];
+    for (const alert of detected) {
+      const latest = await storage.getLatestAlertByFingerprint(alert.fingerprint);
+
+      if (latest && OPEN_ALERT_STATUSES.includes(latest.status as AlertStatus)) {
+        const updated = await storage.updateEnvironmentalAlert(latest.id, {
+          type: alert.type,
+          title: alert.title,
+          message: alert.message,
+          severity: alert.severity,
+          recommendations: alert.recommendations,
+          occurrences: latest.occurrences + 1,
+          lastSeenAt: now
+        });
+        if (!updated) continue;
 
-    // Analyze green space data
-    if (data.greenSpace && data.greenSpace.length > 0) {
-      const greenAlerts = await this.analyzeGreenSpace(data.greenSpace, data);
-      alerts.push(...greenAlerts);
+        recorded.push(updated);
+        if ((TYPE_RANK[updated.type] ?? 0) > (TYPE_RANK[latest.type] ?? 0)) {
+          notifications.push({ alert: updated, event: 'escalated' });
+        }
+      } else if (!latest || !this.isSuppressed(latest, rules, now)) {
+        const inserted = await storage.insertEnvironmentalAlert({ ...alert, lastSeenAt: now });
+        recorded.push(inserted);
+        notifications.push({ alert: inserted, event: 'new' });
+      }
     }
 
-    return alerts;
+    notificationService.notify(notifications);
+    return recorded;
   }
 
   /**
-   * Analyze air quality data for alerts
+   * Whether a closed alert still holds back its condition: for the rule's cooldown after
+   * it was resolved or expired, and its suppression window after it was dismissed
    */
-  private async analyzeAirQuality(
-    airData: AirQualityData[], 
-    context: EnvironmentalData
-  ): Promise<InsertEnvironmentalAlert[]> {
-    const alerts: InsertEnvironmentalAlert[] = [];
-    
-    // Get latest reading
-    const latest = airData[0];
-    
-    if (latest.aqi >= this.thresholds.airQuality.danger) {
-      const recommendations = await this.generateAirQualityRecommendations(latest, 'danger');
-      
-      alerts.push({
-        type: 'danger',
-        category: 'air_quality',
-        title: 'Unhealthy Air Quality Detected',
-        message: `AQI level of ${latest.aqi} exceeds safe limits. Immediate action recommended for sensitive individuals.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, (latest.aqi / this.thresholds.airQuality.danger) * 70),
-        isActive: true,
-        actionable: true,
-        recommendations: recommendations
-      });
-    } else if (latest.aqi >= this.thresholds.airQuality.warning) {
-      const recommendations = await this.generateAirQualityRecommendations(latest, 'warning');
-      
-      alerts.push({
-        type: 'warning',
-        category: 'air_quality',
-        title: 'Moderate Air Quality Alert',
-        message: `AQI level of ${latest.aqi} may affect sensitive individuals. Consider limiting outdoor activities.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, (latest.aqi / this.thresholds.airQuality.warning) * 50),
-        isActive: true,
-        actionable: true,
-        recommendations: recommendations
-      });
-    }
+  private isSuppressed(closed: EnvironmentalAlert, rules: AlertRule[], now: Date): boolean {
+    const rule = rules.find(rule => rule.id === closed.rule);
+    if (!rule) return false;
 
-    // Check for rapid deterioration
-    if (airData.length >= 2) {
-      const previous = airData[1];
-      const aqiChange = latest.aqi - previous.aqi;
-      
-      if (aqiChange > 50) {
-        alerts.push({
-          type: 'warning',
-          category: 'air_quality',
-          title: 'Rapid Air Quality Deterioration',
-          message: `Air quality index increased by ${aqiChange} points in the last reading. Monitor conditions closely.`,
-          latitude: context.latitude || latest.latitude,
-          longitude: context.longitude || latest.longitude,
-          location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-          severity: Math.min(100, (aqiChange / 50) * 40),
-          isActive: true,
-          actionable: true,
-          recommendations: { trend: 'deteriorating', actions: ['Monitor air quality frequently', 'Prepare for potential restrictions'] }
-        });
-      }
-    }
+    const minutes = closed.status === 'dismissed' ? rule.suppressMinutes : rule.cooldownMinutes;
+    return now.getTime() - closed.updatedAt.getTime() < minutes * 60 * 1000;
+  }
 
-    return alerts;
+  // Same condition in the same place: category, rule and the geohash cell of the alert,
+  // prefixed by the subscriber for alerts raised on their thresholds
+  private fingerprint(alert: InsertEnvironmentalAlert): string {
+    const cell = alert.latitude != null && alert.longitude != null
+      ? encodeGeohash(alert.latitude, alert.longitude, ALERT_CELL_PRECISION)
+      : 'global';
+    const fingerprint = `${alert.category}:${alert.rule}:${cell}`;
+    return alert.userId ? `${alert.userId}/${fingerprint}` : fingerprint;
   }
 
   /**
-   * Analyze water security data for alerts
+   * Evaluate the enabled alert rules against the data
    */
-  private async analyzeWaterSecurity(
-    waterData: WaterSecurityData[], 
-    context: EnvironmentalData
+  private async evaluateConditions(
+    data: EnvironmentalData,
+    rules: AlertRule[],
+    thresholds: AlertThresholds
   ): Promise<InsertEnvironmentalAlert[]> {
     const alerts: InsertEnvironmentalAlert[] = [];
-    
-    const latest = waterData[0];
-    
-    // Water stress alerts
-    if (latest.waterStressLevel >= this.thresholds.waterSecurity.danger) {
-      const recommendations = await this.generateWaterSecurityRecommendations(latest, 'danger');
-      
-      alerts.push({
-        type: 'danger',
-        category: 'water_security',
-        title: 'Critical Water Stress Level',
-        message: `Water stress at ${latest.waterStressLevel.toFixed(1)}% indicates severe water scarcity risk.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, (latest.waterStressLevel / 100) * 80),
-        isActive: true,
-        actionable: true,
-        recommendations: recommendations
-      });
-    } else if (latest.waterStressLevel >= this.thresholds.waterSecurity.warning) {
-      const recommendations = await this.generateWaterSecurityRecommendations(latest, 'warning');
-      
-      alerts.push({
-        type: 'warning',
-        category: 'water_security',
-        title: 'Elevated Water Stress',
-        message: `Water stress level of ${latest.waterStressLevel.toFixed(1)}% requires conservation measures.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, (latest.waterStressLevel / 100) * 60),
-        isActive: true,
-        actionable: true,
-        recommendations: recommendations
-      });
-    }
 
-    // Flood risk alerts
-    if (latest.floodRisk && latest.floodRisk >= this.thresholds.floodRisk.danger) {
-      alerts.push({
-        type: 'danger',
-        category: 'water_security',
-        title: 'High Flood Risk Alert',
-        message: `Flood risk at ${latest.floodRisk.toFixed(1)}% indicates potential flooding conditions.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, (latest.floodRisk / 100) * 75),
-        isActive: true,
-        actionable: true,
-        recommendations: { 
-          emergency: true, 
-          actions: ['Monitor weather conditions', 'Prepare evacuation routes', 'Secure property'] 
-        }
-      });
-    } else if (latest.floodRisk && latest.floodRisk >= this.thresholds.floodRisk.warning) {
+    for (const rule of rules) {
+      const match = evaluateRule(rule, data, thresholds);
+      if (!match) continue;
+
+      const { reading, level } = match;
       alerts.push({
-        type: 'warning',
-        category: 'water_security',
-        title: 'Moderate Flood Risk',
-        message: `Flood risk at ${latest.floodRisk.toFixed(1)}% warrants preparation measures.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, (latest.floodRisk / 100) * 50),
+        type: level.type,
+        category: match.category,
+        rule: rule.id,
+        title: match.title,
+        message: match.message,
+        latitude: data.latitude || reading.latitude,
+        longitude: data.longitude || reading.longitude,
+        location: data.location || `${reading.latitude.toFixed(3)}, ${reading.longitude.toFixed(3)}`,
+        severity: match.severity,
         isActive: true,
-        actionable: true,
-        recommendations: { 
-          preparedness: true, 
-          actions: ['Review emergency plans', 'Check drainage systems'] 
-        }
+        actionable: rule.actionable,
+        recommendations: level.recommendations === 'generated'
+          ? await this.generateRecommendations(ALERT_METRICS[rule.metric as AlertMetric].dataset, reading, level.type)
+          : level.recommendations ?? null
       });
     }
 
     return alerts;
   }
 
-  /**
-   * Analyze green space data for alerts
-   */
-  private async analyzeGreenSpace(
-    greenData: GreenSpaceData[], 
-    context: EnvironmentalData
-  ): Promise<InsertEnvironmentalAlert[]> {
-    const alerts: InsertEnvironmentalAlert[] = [];
-    
-    const latest = greenData[0];
-    const vegCoverage = latest.vegetationCoverage || (latest.ndvi * 100);
-    
-    if (vegCoverage <= this.thresholds.greenSpace.danger) {
-      const recommendations = await this.generateGreenSpaceRecommendations(latest, 'danger');
-      
-      alerts.push({
-        type: 'danger',
-        category: 'green_space',
-        title: 'Critical Green Space Deficiency',
-        message: `Vegetation coverage at ${vegCoverage.toFixed(1)}% is critically low and affects air quality and livability.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, ((this.thresholds.greenSpace.danger - vegCoverage) / this.thresholds.greenSpace.danger) * 70),
-        isActive: true,
-        actionable: true,
-        recommendations: recommendations
-      });
-    } else if (vegCoverage <= this.thresholds.greenSpace.warning) {
-      const recommendations = await this.generateGreenSpaceRecommendations(latest, 'warning');
-      
-      alerts.push({
-        type: 'warning',
-        category: 'green_space',
-        title: 'Low Green Space Coverage',
-        message: `Vegetation coverage at ${vegCoverage.toFixed(1)}% is below recommended levels for urban areas.`,
-        latitude: context.latitude || latest.latitude,
-        longitude: context.longitude || latest.longitude,
-        location: context.location || `${latest.latitude.toFixed(3)}, ${latest.longitude.toFixed(3)}`,
-        severity: Math.min(100, ((this.thresholds.greenSpace.warning - vegCoverage) / this.thresholds.greenSpace.warning) * 50),
-        isActive: true,
-        actionable: true,
-        recommendations: recommendations
-      });
+  private generateRecommendations(dataset: RuleDataset, reading: RuleReading, type: string): Promise<object> {
+    const severity = type === 'danger' ? 'danger' : 'warning';
+    switch (dataset) {
+      case 'airQuality':
+        return this.generateAirQualityRecommendations(reading as AirQualityData, severity);
+      case 'waterSecurity':
+        return this.generateWaterSecurityRecommendations(reading as WaterSecurityData, severity);
+      case 'greenSpace':
+        return this.generateGreenSpaceRecommendations(reading as GreenSpaceData, severity);
     }
-
-    return alerts;
   }
 
   /**
@@ -301,6 +188,16 @@ class AlertService {
     data: AirQualityData, 
     severity: 'warning' | 'danger'
   ): Promise<object> {
+    const fallback = {
+      immediate: ['Limit outdoor activities', 'Close windows', 'Use air purifiers'],
+      shortTerm: ['Monitor air quality daily', 'Report to environmental authorities'],
+      longTerm: ['Support clean air initiatives', 'Reduce vehicle emissions']
+    };
+
+    if (!openai) {
+      return fallback;
+    }
+
     try {
       const prompt = `
         Generate actionable recommendations for air quality management.
@@ -338,11 +235,7 @@ class AlertService {
       return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       console.error('Error generating air quality recommendations:', error);
-      return {
-        immediate: ['Limit outdoor activities', 'Close windows', 'Use air purifiers'],
-        shortTerm: ['Monitor air quality daily', 'Report to environmental authorities'],
-        longTerm: ['Support clean air initiatives', 'Reduce vehicle emissions']
-      };
+      return fallback;
     }
   }
 
@@ -353,6 +246,16 @@ class AlertService {
     data: WaterSecurityData, 
     severity: 'warning' | 'danger'
   ): Promise<object> {
+    const fallback = {
+      conservation: ['Reduce water usage', 'Fix leaks promptly', 'Install water-efficient fixtures'],
+      infrastructure: ['Improve water storage', 'Upgrade distribution systems'],
+      emergency: ['Prepare water reserves', 'Monitor supply levels']
+    };
+
+    if (!openai) {
+      return fallback;
+    }
+
     try {
       const prompt = `
         Generate actionable recommendations for water security management.
@@ -389,11 +292,7 @@ class AlertService {
       return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       console.error('Error generating water security recommendations:', error);
-      return {
-        conservation: ['Reduce water usage', 'Fix leaks promptly', 'Install water-efficient fixtures'],
-        infrastructure: ['Improve water storage', 'Upgrade distribution systems'],
-        emergency: ['Prepare water reserves', 'Monitor supply levels']
-      };
+      return fallback;
     }
   }
 
@@ -404,6 +303,16 @@ class AlertService {
     data: GreenSpaceData, 
     severity: 'warning' | 'danger'
   ): Promise<object> {
+    const fallback = {
+      planning: ['Increase park space', 'Create green corridors', 'Mandate green building standards'],
+      community: ['Start community gardens', 'Plant street trees', 'Create green roofs'],
+      policy: ['Protect existing green space', 'Require environmental impact assessments']
+    };
+
+    if (!openai) {
+      return fallback;
+    }
+
     try {
       const prompt = `
         Generate actionable recommendations for green space development.
@@ -440,27 +349,9 @@ class AlertService {
       return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       console.error('Error generating green space recommendations:', error);
-      return {
-        planning: ['Increase park space', 'Create green corridors', 'Mandate green building standards'],
-        community: ['Start community gardens', 'Plant street trees', 'Create green roofs'],
-        policy: ['Protect existing green space', 'Require environmental impact assessments']
-      };
+      return fallback;
     }
   }
-
-  /**
-   * Update alert thresholds based on local conditions
-   */
-  updateThresholds(newThresholds: Partial<AlertThresholds>): void {
-    Object.assign(this.thresholds, newThresholds);
-  }
-
-  /**
-   * Get current alert thresholds
-   */
-  getThresholds(): AlertThresholds {
-    return { ...this.thresholds };
-  }
 }
 
 export default new AlertService();
\ No newline at end of file
@@ -0,0 +1,126 @@
+// Alert thresholds
+// Built-in thresholds overridden by stored values for everyone or one subscriber, set
+// everywhere or within an area. A point's thresholds layer the overrides that apply there
+// from least to most specific, so each value comes from the narrowest override setting it.
+
+import type {
+  AlertThresholdKey,
+  AlertThresholdOverride,
+  AlertThresholdOverrideRequest,
+  AlertThresholdValues
+} from "@shared/schema";
+import { storage } from "../storage";
+
+export interface AlertThresholds {
+  airQuality: {
+    warning: number;    // AQI threshold for warning
+    danger: number;     // AQI threshold for danger
+  };
+  waterSecurity: {
+    warning: number;    // Water stress % for warning
+    danger: number;     // Water stress % for danger
+  };
+  greenSpace: {
+    warning: number;    // Min vegetation % for warning
+    danger: number;     // Min vegetation % for danger
+  };
+  floodRisk: {
+    warning: number;    // Flood risk % for warning
+    danger: number;     // Flood risk % for danger
+  };
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  airQuality: {
+    warning: 100,  // Moderate AQI
+    danger: 150    // Unhealthy AQI
+  },
+  waterSecurity: {
+    warning: 60,   // 60% water stress
+    danger: 80     // 80% water stress
+  },
+  greenSpace: {
+    warning: 30,   // Less than 30% vegetation
+    danger: 15     // Less than 15% vegetation
+  },
+  floodRisk: {
+    warning: 40,   // 40% flood risk
+    danger: 70     // 70% flood risk
+  }
+};
+
+export interface ResolvedAlertThresholds {
+  thresholds: AlertThresholds;
+  sources: Record<AlertThresholdKey, string>; // Override id per value, or 'default'
+}
+
+// Subscriber overrides beat shared ones, areas beat everywhere and smaller areas beat larger
+function specificity(override: AlertThresholdOverride): [number, number, number] {
+  return [
+    override.userId === null ? 0 : 1,
+    override.radiusKm === null ? 0 : 1,
+    override.radiusKm === null ? 0 : -override.radiusKm
+  ];
+}
+
+function bySpecificity(a: AlertThresholdOverride, b: AlertThresholdOverride): number {
+  const [sa, sb] = [specificity(a), specificity(b)];
+  return sa[0] - sb[0] || sa[1] - sb[1] || sa[2] - sb[2] || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+class AlertThresholdService {
+  async listOverrides(): Promise<AlertThresholdOverride[]> {
+    return storage.getAlertThresholdOverrides();
+  }
+
+  /**
+   * Create the override for a subscriber and area, or replace its values if it exists
+   */
+  async setOverride(request: AlertThresholdOverrideRequest): Promise<{ override: AlertThresholdOverride; created: boolean }> {
+    return storage.upsertAlertThresholdOverride({
+      userId: request.userId ?? null,
+      latitude: request.area?.lat ?? null,
+      longitude: request.area?.lon ?? null,
+      radiusKm: request.area?.radiusKm ?? null,
+      thresholds: request.thresholds
+    });
+  }
+
+  async deleteOverride(id: string): Promise<boolean> {
+    return storage.deleteAlertThresholdOverride(id);
+  }
+
+  /**
+   * Thresholds in effect at a point for a subscriber; without a point only overrides set
+   * everywhere apply
+   */
+  async resolve(point?: { lat: number; lon: number }, userId?: string): Promise<ResolvedAlertThresholds> {
+    const overrides = point
+      ? await storage.getAlertThresholdOverridesAt(point.lat, point.lon, userId)
+      : (await storage.getAlertThresholdOverrides()).filter(override =>
+        override.radiusKm === null && (override.userId === null || override.userId === userId));
+
+    const thresholds = structuredClone(DEFAULT_ALERT_THRESHOLDS);
+    const sources = Object.fromEntries(
+      (Object.keys(thresholds) as Array<keyof AlertThresholds>)
+        .flatMap(group => [`${group}.warning`, `${group}.danger`].map(key => [key, 'default']))
+    ) as Record<AlertThresholdKey, string>;
+
+    for (const override of overrides.sort(bySpecificity)) {
+      const values = override.thresholds as AlertThresholdValues;
+      for (const group of Object.keys(values) as Array<keyof AlertThresholds>) {
+        for (const level of ['warning', 'danger'] as const) {
+          const value = values[group]?.[level];
+          if (value === undefined) continue;
+
+          thresholds[group][level] = value;
+          sources[`${group}.${level}`] = override.id;
+        }
+      }
+    }
+
+    return { thresholds, sources };
+  }
+}
+
+export default new AlertThresholdService();
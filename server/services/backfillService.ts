@@ -0,0 +1,245 @@
+// Historical backfill jobs
+// Walks a point or bounding box over a date range at each provider's native cadence,
+// checkpointing after every step so a job can resume where it stopped after a crash
+
+import type { BackfillJob, BackfillRequest } from "@shared/schema";
+import { storage } from "../storage";
+import nasaDataService, { type EnvironmentalReadings } from "./nasaDataService";
+import ingestionService from "./ingestionService";
+import type { CategoryReadings, DataCategory, DataProvider } from "./dataProviders";
+
+// Observation slots fetched and stored per checkpointed step
+const SLOTS_PER_STEP = 24;
+
+// Upper bound on grid points a single bbox request may expand to
+const MAX_GRID_POINTS = 400;
+
+export interface StoredBackfillRequest {
+  area: Pick<BackfillRequest, 'point' | 'bbox' | 'resolution'>;
+  points: Array<{ lat: number; lon: number }>;
+  start: string; // Hour-aligned ISO start of the range
+  end: string;
+  sources: string[];
+}
+
+export interface BackfillCursor {
+  taskIndex: number;   // Index into sources
+  windowStart: string; // ISO start of the next window for that source
+}
+
+export interface BackfillJobStatus extends BackfillJob {
+  progress: {
+    completedSteps: number;
+    totalSteps: number;
+    percent: number;
+    insertedReadings: number;
+  };
+}
+
+export class BackfillRequestError extends Error {}
+
+class BackfillService {
+  private readonly running = new Set<string>();
+
+  /**
+   * Validate a request, persist the job and start it in the background
+   */
+  async startJob(request: BackfillRequest): Promise<BackfillJobStatus> {
+    const stored = this.normalizeRequest(request);
+    const totalSteps = stored.sources
+      .reduce((sum, providerId) => sum + this.countWindows(stored, providerId), 0);
+
+    const job = await storage.createBackfillJob({
+      status: 'pending',
+      request: stored,
+      totalSteps,
+      completedSteps: 0,
+      insertedReadings: 0,
+      cursor: null
+    });
+
+    this.runInBackground(job.id);
+    return this.describeJob(job);
+  }
+
+  /**
+   * Restart a failed or interrupted job from its last checkpoint
+   */
+  async resumeJob(id: string): Promise<BackfillJobStatus | undefined> {
+    const job = await storage.getBackfillJob(id);
+    if (!job) return undefined;
+
+    if (job.status !== 'completed' && !this.running.has(id)) {
+      const updated = await storage.updateBackfillJob(id, { status: 'pending', error: null });
+      this.runInBackground(id);
+      return this.describeJob(updated ?? job);
+    }
+
+    return this.describeJob(job);
+  }
+
+  /**
+   * Pick up jobs left pending or running by a previous process
+   */
+  async resumeIncompleteJobs(): Promise<void> {
+    const jobs = await storage.getBackfillJobsByStatus(['pending', 'running']);
+    for (const job of jobs) {
+      this.runInBackground(job.id);
+    }
+  }
+
+  async getJob(id: string): Promise<BackfillJobStatus | undefined> {
+    const job = await storage.getBackfillJob(id);
+    return job ? this.describeJob(job) : undefined;
+  }
+
+  private describeJob(job: BackfillJob): BackfillJobStatus {
+    return {
+      ...job,
+      progress: {
+        completedSteps: job.completedSteps,
+        totalSteps: job.totalSteps,
+        percent: job.totalSteps > 0 ? Math.round((job.completedSteps / job.totalSteps) * 100) : 100,
+        insertedReadings: job.insertedReadings
+      }
+    };
+  }
+
+  private runInBackground(id: string): void {
+    this.runJob(id).catch(error => {
+      console.error(`Backfill job ${id} stopped unexpectedly:`, error);
+    });
+  }
+
+  private async runJob(id: string): Promise<void> {
+    if (this.running.has(id)) return;
+    this.running.add(id);
+
+    try {
+      const job = await storage.getBackfillJob(id);
+      if (!job || job.status === 'completed') return;
+
+      const request = job.request as StoredBackfillRequest;
+      const end = new Date(request.end);
+
+      let cursor = (job.cursor as BackfillCursor | null) ?? { taskIndex: 0, windowStart: request.start };
+      let completedSteps = job.completedSteps;
+      let insertedReadings = job.insertedReadings;
+
+      await storage.updateBackfillJob(id, { status: 'running' });
+
+      // Each step covers one provider window for every point, stored as a single batch
+      while (cursor.taskIndex < request.sources.length) {
+        const providerId = request.sources[cursor.taskIndex];
+        const provider = nasaDataService.registry.get(providerId);
+        if (!provider) {
+          throw new Error(`Data provider "${providerId}" is no longer registered`);
+        }
+
+        const windowStart = new Date(cursor.windowStart);
+        const windowEnd = new Date(Math.min(windowStart.getTime() + this.windowMs(provider), end.getTime()));
+
+        // Call the provider directly so fetch failures fail the job instead of leaving gaps
+        const readings = await Promise.all(
+          request.points.map(point => provider.fetch(point.lat, point.lon, { start: windowStart, end: windowEnd }))
+        );
+        const stored = await ingestionService.storeReadings(this.toEnvironmentalReadings(provider.category, readings.flat()));
+
+        insertedReadings += Object.values(stored).reduce((sum, rows) => sum + rows.length, 0);
+        completedSteps++;
+        cursor = windowEnd.getTime() >= end.getTime()
+          ? { taskIndex: cursor.taskIndex + 1, windowStart: request.start }
+          : { taskIndex: cursor.taskIndex, windowStart: windowEnd.toISOString() };
+
+        await storage.updateBackfillJob(id, { cursor, completedSteps, insertedReadings });
+      }
+
+      await storage.updateBackfillJob(id, { status: 'completed' });
+    } catch (error) {
+      console.error(`Error running backfill job ${id}:`, error);
+      await storage.updateBackfillJob(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.running.delete(id);
+    }
+  }
+
+  private normalizeRequest(request: BackfillRequest): StoredBackfillRequest {
+    const registry = nasaDataService.registry;
+    const sources = request.sources ?? registry.getActiveProviders().map(provider => provider.id);
+
+    const unknown = sources.filter(id => !registry.get(id));
+    if (unknown.length > 0) {
+      throw new BackfillRequestError(`Unknown data sources: ${unknown.join(', ')}`);
+    }
+
+    const points = request.point ? [request.point] : this.gridPoints(request.bbox!, request.resolution);
+    if (points.length > MAX_GRID_POINTS) {
+      throw new BackfillRequestError(
+        `Bounding box expands to ${points.length} grid points; increase 'resolution' to stay within ${MAX_GRID_POINTS}`
+      );
+    }
+
+    // Align to the hour so step windows line up with the providers' cadence slots
+    const start = new Date(request.start);
+    start.setMinutes(0, 0, 0);
+
+    return {
+      area: { point: request.point, bbox: request.bbox, resolution: request.resolution },
+      points,
+      start: start.toISOString(),
+      end: request.end.toISOString(),
+      sources
+    };
+  }
+
+  private gridPoints(bbox: NonNullable<BackfillRequest['bbox']>, resolution: number) {
+    const points: Array<{ lat: number; lon: number }> = [];
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+    // Cell centres, with at least one cell per axis for boxes smaller than the resolution
+    const latCells = Math.max(1, Math.ceil((bbox.maxLat - bbox.minLat) / resolution));
+    const lonCells = Math.max(1, Math.ceil((bbox.maxLon - bbox.minLon) / resolution));
+    const latStep = (bbox.maxLat - bbox.minLat) / latCells;
+    const lonStep = (bbox.maxLon - bbox.minLon) / lonCells;
+
+    for (let i = 0; i < latCells; i++) {
+      for (let j = 0; j < lonCells; j++) {
+        points.push({
+          lat: round(bbox.minLat + (i + 0.5) * latStep),
+          lon: round(bbox.minLon + (j + 0.5) * lonStep)
+        });
+      }
+    }
+
+    return points;
+  }
+
+  private countWindows(request: StoredBackfillRequest, providerId: string): number {
+    const provider = nasaDataService.registry.get(providerId)!;
+    const span = new Date(request.end).getTime() - new Date(request.start).getTime();
+    return Math.max(1, Math.ceil(span / this.windowMs(provider)));
+  }
+
+  private windowMs(provider: DataProvider): number {
+    return provider.cadenceMinutes * SLOTS_PER_STEP * 60 * 1000;
+  }
+
+  private toEnvironmentalReadings(
+    category: DataCategory,
+    readings: CategoryReadings[DataCategory][]
+  ): EnvironmentalReadings {
+    return {
+      airQuality: category === 'air_quality' ? readings as CategoryReadings['air_quality'][] : [],
+      waterSecurity: category === 'water_security' ? readings as CategoryReadings['water_security'][] : [],
+      greenSpace: category === 'green_space' ? readings as CategoryReadings['green_space'][] : [],
+      heat: category === 'heat' ? readings as CategoryReadings['heat'][] : [],
+      flood: category === 'flood' ? readings as CategoryReadings['flood'][] : [],
+      noise: category === 'noise' ? readings as CategoryReadings['noise'][] : []
+    };
+  }
+}
+
+export default new BackfillService();
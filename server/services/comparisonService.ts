@@ -0,0 +1,158 @@
+// Regional livability comparison
+// Scores named points and polygons from stored readings and ranks them side by side,
+// with each region's per-dimension difference from a baseline region
+
+import type { ComparisonRegion, ComparisonRequest, NormalizationMode } from "@shared/schema";
+import { storage, type EnvironmentalData } from "../storage";
+import { enclosingCircle, pointInPolygon, type LonLat } from "../geo";
+import livabilityCalculator, { type ConfidenceInterval, type DimensionScore } from "./livabilityCalculator";
+import type { DimensionKey } from "./livabilityDimensions";
+import fusionService from "./fusionService";
+import type { ResolvedScoringProfile } from "./scoringProfileService";
+
+export interface ScoreDeltas {
+  overall: number;
+  dimensions: Partial<Record<DimensionKey, number>>; // Dimensions scored in both regions
+}
+
+export interface RankedRegion {
+  name: string;
+  ranking: number;
+  overallScore: number;
+  category: ReturnType<typeof livabilityCalculator.getLivabilityCategory>;
+  confidence: ConfidenceInterval | null;
+  dimensions: DimensionScore[];
+  unscoredDimensions: DimensionKey[];
+  center: { lat: number; lon: number }; // Point, or the polygon's vertex centroid
+  readingCount: number;
+  deltas: ScoreDeltas | null; // Versus the baseline; null when the baseline couldn't be scored
+}
+
+export interface UnscoredRegion {
+  name: string;
+  reason: string;
+}
+
+export interface LivabilityComparison {
+  profile: string;
+  normalization: NormalizationMode;
+  baseline: string | null;
+  rankings: RankedRegion[]; // Best first
+  unscored: UnscoredRegion[];
+}
+
+// Readings older than this are left out, matching single-location scoring
+const RECENT_HOURS = 24;
+
+const CORE_LABELS = { airQuality: 'air quality', waterSecurity: 'water security', greenSpace: 'green space' } as const;
+
+class ComparisonService {
+  async compare(request: ComparisonRequest, profile: ResolvedScoringProfile): Promise<LivabilityComparison> {
+    const normalization = request.normalization ?? profile.normalization;
+    const regions = await Promise.all(request.regions.map(async region => ({
+      region,
+      data: await this.regionData(region)
+    })));
+
+    const unscored: UnscoredRegion[] = [];
+    const scorable = regions.filter(({ region, data }) => {
+      const missing = (Object.keys(CORE_LABELS) as Array<keyof typeof CORE_LABELS>)
+        .filter(key => data[key].length === 0);
+      if (missing.length > 0) {
+        unscored.push({ name: region.name, reason: `No recent ${missing.map(key => CORE_LABELS[key]).join(', ')} readings` });
+      }
+      return missing.length === 0;
+    });
+
+    const ranked = livabilityCalculator.calculateRegionalLivability(
+      scorable.map(({ region, data }) => {
+        const fused = fusionService.fuseEnvironmentalData(data);
+        return {
+          name: region.name,
+          metrics: {
+            airQuality: fused.airQuality!.value,
+            waterSecurity: fused.waterSecurity!.value,
+            greenSpace: fused.greenSpace!.value,
+            heat: fused.heat?.value,
+            flood: fused.flood?.value,
+            noise: fused.noise?.value
+          },
+          evidence: fusionService.collectEvidence(data)
+        };
+      }),
+      { ...profile, normalization }
+    );
+
+    const baselineName = request.baseline ?? ranked[0]?.name ?? null;
+    const baseline = ranked.find(entry => entry.name === baselineName);
+    const byName = new Map(regions.map(entry => [entry.region.name, entry]));
+
+    return {
+      profile: profile.name,
+      normalization,
+      baseline: baselineName,
+      rankings: ranked.map(({ name, result, ranking }) => {
+        const { region, data } = byName.get(name)!;
+        return {
+          name,
+          ranking,
+          overallScore: result.overallScore,
+          category: livabilityCalculator.getLivabilityCategory(result.overallScore),
+          confidence: result.confidence ?? null,
+          dimensions: result.dimensions,
+          unscoredDimensions: result.unscoredDimensions,
+          center: this.center(region),
+          readingCount: Object.values(data).reduce((sum, readings) => sum + readings.length, 0),
+          deltas: baseline ? this.deltas(result.overallScore, result.dimensions, baseline.result) : null
+        };
+      }),
+      unscored
+    };
+  }
+
+  private deltas(
+    overallScore: number,
+    dimensions: DimensionScore[],
+    baseline: { overallScore: number; dimensions: DimensionScore[] }
+  ): ScoreDeltas {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const baselineScores = new Map(baseline.dimensions.map(dimension => [dimension.key, dimension.score]));
+
+    return {
+      overall: round(overallScore - baseline.overallScore),
+      dimensions: Object.fromEntries(dimensions
+        .filter(dimension => baselineScores.has(dimension.key))
+        .map(dimension => [dimension.key, round(dimension.score - baselineScores.get(dimension.key)!)]))
+    };
+  }
+
+  private async regionData(region: ComparisonRegion): Promise<EnvironmentalData> {
+    if (region.point) {
+      return storage.getRecentEnvironmentalData(region.point.lat, region.point.lon, RECENT_HOURS, { radiusKm: region.radiusKm });
+    }
+
+    // Fetch the circle around the polygon, then keep the readings inside it
+    const ring = region.polygon as LonLat[];
+    const circle = enclosingCircle(ring);
+    const data = await storage.getRecentEnvironmentalData(circle.lat, circle.lon, RECENT_HOURS, { radiusKm: circle.radiusKm });
+    const inside = <T extends { latitude: number; longitude: number }>(rows: T[]) =>
+      rows.filter(row => pointInPolygon(row.latitude, row.longitude, ring));
+
+    return {
+      airQuality: inside(data.airQuality),
+      waterSecurity: inside(data.waterSecurity),
+      greenSpace: inside(data.greenSpace),
+      heat: inside(data.heat),
+      flood: inside(data.flood),
+      noise: inside(data.noise)
+    };
+  }
+
+  private center(region: ComparisonRegion): { lat: number; lon: number } {
+    if (region.point) return region.point;
+    const { lat, lon } = enclosingCircle(region.polygon as LonLat[]);
+    return { lat, lon };
+  }
+}
+
+export default new ComparisonService();
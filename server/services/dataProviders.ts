@@ -0,0 +1,215 @@
+// Environmental data provider registry
+// Lets satellite products, local sensors and test fixtures be plugged in independently
+
+import type {
+  AirQualityReading,
+  WaterSecurityReading,
+  GreenSpaceReading,
+  HeatReading,
+  FloodExposureReading,
+  NoiseReading
+} from "./nasaDataService";
+
+export type DataCategory = 'air_quality' | 'water_security' | 'green_space' | 'heat' | 'flood' | 'noise';
+
+export type DataProviderType = 'nasa' | 'local' | 'fixture';
+
+export interface CoverageBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface CategoryReadings {
+  air_quality: AirQualityReading;
+  water_security: WaterSecurityReading;
+  green_space: GreenSpaceReading;
+  heat: HeatReading;
+  flood: FloodExposureReading;
+  noise: NoiseReading;
+}
+
+export interface DataProvider<C extends DataCategory = DataCategory> {
+  id: string;
+  name: string;
+  type: DataProviderType;
+  category: C;
+  description: string;
+  source: string;         // Source tag written on the provider's readings
+  coverage: {
+    label: string;
+    bounds: CoverageBounds;
+  };
+  cadenceMinutes: number; // Native revisit / aggregation interval
+  resolutionKm: number;   // Native ground footprint
+  fetch(lat: number, lon: number, timeRange: TimeRange): Promise<CategoryReadings[C][]>;
+}
+
+export interface DataProviderStatus {
+  id: string;
+  name: string;
+  type: DataProviderType;
+  category: DataCategory;
+  description: string;
+  coverage: string;
+  bounds: CoverageBounds;
+  cadenceMinutes: number;
+  resolutionKm: number;
+  enabled: boolean;
+  status: 'active' | 'inactive' | 'error';
+  lastUpdate: string | null;
+  lastError: string | null;
+}
+
+interface RegistryEntry {
+  provider: DataProvider;
+  enabled: boolean;
+  lastUpdate: string | null;
+  lastError: string | null;
+}
+
+export const GLOBAL_COVERAGE: CoverageBounds = {
+  minLat: -90,
+  maxLat: 90,
+  minLon: -180,
+  maxLon: 180
+};
+
+/**
+ * Check whether a point falls inside a provider's coverage bounds
+ */
+export function coversPoint(bounds: CoverageBounds, lat: number, lon: number): boolean {
+  return lat >= bounds.minLat && lat <= bounds.maxLat &&
+    lon >= bounds.minLon && lon <= bounds.maxLon;
+}
+
+/**
+ * Observation times for a provider's cadence within a time range, oldest first.
+ * Slots are anchored on the top of the hour at the end of the range and step
+ * back by the cadence; a range shorter than the cadence yields a single slot.
+ */
+export function cadenceSlots(range: TimeRange, cadenceMinutes: number): Date[] {
+  const anchor = new Date(range.end);
+  anchor.setMinutes(0, 0, 0);
+
+  const stepMs = cadenceMinutes * 60 * 1000;
+  const slots: Date[] = [];
+  for (let t = anchor.getTime(); t > range.start.getTime() || slots.length === 0; t -= stepMs) {
+    slots.push(new Date(t));
+  }
+
+  return slots.reverse();
+}
+
+export class DataProviderRegistry {
+  private readonly entries = new Map<string, RegistryEntry>();
+
+  /**
+   * Register a provider; ids must be unique
+   */
+  register(provider: DataProvider, options: { enabled?: boolean } = {}): void {
+    if (this.entries.has(provider.id)) {
+      throw new Error(`Data provider "${provider.id}" is already registered`);
+    }
+
+    this.entries.set(provider.id, {
+      provider,
+      enabled: options.enabled ?? true,
+      lastUpdate: null,
+      lastError: null
+    });
+  }
+
+  unregister(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  get(id: string): DataProvider | undefined {
+    return this.entries.get(id)?.provider;
+  }
+
+  /**
+   * Provider whose readings carry a source tag, enabled or not
+   */
+  findBySource(source: string): DataProvider | undefined {
+    return Array.from(this.entries.values()).find(entry => entry.provider.source === source)?.provider;
+  }
+
+  /**
+   * Enable or disable a provider; returns false for unknown ids
+   */
+  setEnabled(id: string, enabled: boolean): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    entry.enabled = enabled;
+    return true;
+  }
+
+  /**
+   * Enabled providers, optionally narrowed to a category and a covered point
+   */
+  getActiveProviders(filter: { category?: DataCategory; lat?: number; lon?: number } = {}): DataProvider[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.enabled)
+      .map(entry => entry.provider)
+      .filter(provider => !filter.category || provider.category === filter.category)
+      .filter(provider =>
+        filter.lat === undefined || filter.lon === undefined ||
+        coversPoint(provider.coverage.bounds, filter.lat, filter.lon)
+      );
+  }
+
+  /**
+   * Fetch from a single provider, recording its last update or error
+   */
+  async fetchFrom<C extends DataCategory>(
+    provider: DataProvider<C>,
+    lat: number,
+    lon: number,
+    timeRange: TimeRange
+  ): Promise<CategoryReadings[C][]> {
+    const entry = this.entries.get(provider.id);
+
+    try {
+      const readings = await provider.fetch(lat, lon, timeRange);
+      if (entry) {
+        entry.lastUpdate = new Date().toISOString();
+        entry.lastError = null;
+      }
+      return readings;
+    } catch (error) {
+      console.error(`Error fetching ${provider.name} data:`, error);
+      if (entry) {
+        entry.lastError = error instanceof Error ? error.message : String(error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Describe every registered provider for the data sources API
+   */
+  list(): DataProviderStatus[] {
+    return Array.from(this.entries.values()).map(({ provider, enabled, lastUpdate, lastError }) => ({
+      id: provider.id,
+      name: provider.name,
+      type: provider.type,
+      category: provider.category,
+      description: provider.description,
+      coverage: provider.coverage.label,
+      bounds: provider.coverage.bounds,
+      cadenceMinutes: provider.cadenceMinutes,
+      resolutionKm: provider.resolutionKm,
+      enabled,
+      status: !enabled ? 'inactive' : lastError ? 'error' : 'active',
+      lastUpdate,
+      lastError
+    }));
+  }
+}
@@ -0,0 +1,142 @@
+// Default alert rules
+// The conditions alerting has always checked, expressed as rules. They are stored on first
+// use and can then be edited or disabled like any other rule.
+
+import type { InsertAlertRule } from "@shared/schema";
+
+export const DEFAULT_ALERT_RULES: InsertAlertRule[] = [
+  {
+    id: 'air_quality_level',
+    description: 'Latest AQI at or above the air quality thresholds',
+    metric: 'aqi',
+    operator: 'gte',
+    levels: [
+      {
+        type: 'danger',
+        threshold: 'airQuality.danger',
+        title: 'Unhealthy Air Quality Detected',
+        message: 'AQI level of {value} exceeds safe limits. Immediate action recommended for sensitive individuals.',
+        severity: 'value / threshold * 70',
+        recommendations: 'generated'
+      },
+      {
+        type: 'warning',
+        threshold: 'airQuality.warning',
+        title: 'Moderate Air Quality Alert',
+        message: 'AQI level of {value} may affect sensitive individuals. Consider limiting outdoor activities.',
+        severity: 'value / threshold * 50',
+        recommendations: 'generated'
+      }
+    ],
+    cooldownMinutes: 30,
+    suppressMinutes: 6 * 60,
+    builtIn: true
+  },
+  {
+    id: 'air_quality_rapid_change',
+    description: 'AQI jumping sharply between consecutive readings',
+    metric: 'aqi',
+    measure: 'change',
+    operator: 'gt',
+    levels: [
+      {
+        type: 'warning',
+        threshold: 50,
+        title: 'Rapid Air Quality Deterioration',
+        message: 'Air quality index increased by {value} points in the last reading. Monitor conditions closely.',
+        severity: 'value / threshold * 40',
+        recommendations: { trend: 'deteriorating', actions: ['Monitor air quality frequently', 'Prepare for potential restrictions'] }
+      }
+    ],
+    cooldownMinutes: 60,
+    suppressMinutes: 6 * 60,
+    builtIn: true
+  },
+  {
+    id: 'water_stress',
+    description: 'Water stress at or above the water security thresholds',
+    metric: 'waterStressLevel',
+    operator: 'gte',
+    levels: [
+      {
+        type: 'danger',
+        threshold: 'waterSecurity.danger',
+        title: 'Critical Water Stress Level',
+        message: 'Water stress at {value:1}% indicates severe water scarcity risk.',
+        severity: 'value / 100 * 80',
+        recommendations: 'generated'
+      },
+      {
+        type: 'warning',
+        threshold: 'waterSecurity.warning',
+        title: 'Elevated Water Stress',
+        message: 'Water stress level of {value:1}% requires conservation measures.',
+        severity: 'value / 100 * 60',
+        recommendations: 'generated'
+      }
+    ],
+    cooldownMinutes: 6 * 60,
+    suppressMinutes: 24 * 60,
+    builtIn: true
+  },
+  {
+    id: 'flood_risk',
+    description: 'Flood risk at or above the flood thresholds',
+    metric: 'floodRisk',
+    operator: 'gte',
+    levels: [
+      {
+        type: 'danger',
+        threshold: 'floodRisk.danger',
+        title: 'High Flood Risk Alert',
+        message: 'Flood risk at {value:1}% indicates potential flooding conditions.',
+        severity: 'value / 100 * 75',
+        recommendations: {
+          emergency: true,
+          actions: ['Monitor weather conditions', 'Prepare evacuation routes', 'Secure property']
+        }
+      },
+      {
+        type: 'warning',
+        threshold: 'floodRisk.warning',
+        title: 'Moderate Flood Risk',
+        message: 'Flood risk at {value:1}% warrants preparation measures.',
+        severity: 'value / 100 * 50',
+        recommendations: {
+          preparedness: true,
+          actions: ['Review emergency plans', 'Check drainage systems']
+        }
+      }
+    ],
+    cooldownMinutes: 60,
+    suppressMinutes: 6 * 60,
+    builtIn: true
+  },
+  {
+    id: 'green_space_coverage',
+    description: 'Vegetation coverage at or below the green space thresholds',
+    metric: 'vegetationCoverage',
+    operator: 'lte',
+    levels: [
+      {
+        type: 'danger',
+        threshold: 'greenSpace.danger',
+        title: 'Critical Green Space Deficiency',
+        message: 'Vegetation coverage at {value:1}% is critically low and affects air quality and livability.',
+        severity: '(threshold - value) / threshold * 70',
+        recommendations: 'generated'
+      },
+      {
+        type: 'warning',
+        threshold: 'greenSpace.warning',
+        title: 'Low Green Space Coverage',
+        message: 'Vegetation coverage at {value:1}% is below recommended levels for urban areas.',
+        severity: '(threshold - value) / threshold * 50',
+        recommendations: 'generated'
+      }
+    ],
+    cooldownMinutes: 24 * 60,
+    suppressMinutes: 7 * 24 * 60,
+    builtIn: true
+  }
+];
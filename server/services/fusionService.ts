@@ -0,0 +1,213 @@
+// Multi-source reading fusion
+// Combines readings from several providers into one estimate per category, weighting
+// each source by spatial resolution, recency and reported retrieval quality rather than
+// by how many readings it happened to produce
+
+import type { AirQualityData } from "@shared/schema";
+import type { EnvironmentalData } from "../storage";
+import nasaDataService from "./nasaDataService";
+import livabilityCalculator, { POLLUTANTS, type AirQualityIndex, type ScoreEvidence } from "./livabilityCalculator";
+import type { ReadingMetadata } from "./ingestionService";
+
+export interface SourceContribution {
+  source: string;
+  provider: string | null; // Registered provider id, if any
+  readingCount: number;
+  resolutionKm: number;
+  quality: number;         // Mean retrieval quality, 1 when unreported
+  ageHours: number;        // Age of the source's newest reading
+  weight: number;          // Share of the fused estimate, 0-1
+}
+
+export interface FusedEstimate {
+  value: number;
+  observedAt: string; // Newest contributing reading
+  provenance: SourceContribution[];
+}
+
+export interface FusedEnvironmentalData {
+  airQuality: (FusedEstimate & { index: AirQualityIndex }) | null;
+  waterSecurity: FusedEstimate | null; // Water stress level
+  greenSpace: FusedEstimate | null;    // Vegetation coverage
+  heat: FusedEstimate | null;          // Land surface temperature
+  flood: FusedEstimate | null;         // Flood risk
+  noise: FusedEstimate | null;         // Noise level
+}
+
+interface FusibleReading {
+  source: string;
+  timestamp: Date;
+  metadata: unknown;
+}
+
+// Footprint at which a source's weight halves relative to a point measurement
+const RESOLUTION_SCALE_KM = 10;
+
+// Assumptions for sources without a registered provider, e.g. local sensors and fixtures
+const UNREGISTERED_RESOLUTION_KM = 1;
+const UNREGISTERED_HALF_LIFE_HOURS = 24;
+
+// Readings lose half their weight after this many hours, or the source's cadence if longer
+const MIN_HALF_LIFE_HOURS = 6;
+
+const MIN_QUALITY = 0.01;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+interface SourceGroup<T> {
+  contribution: SourceContribution;
+  readings: Array<{ reading: T; weight: number }>;
+  sourceWeight: number;
+}
+
+class FusionService {
+  /**
+   * Fuse stored readings into one estimate per category with provenance
+   */
+  fuseEnvironmentalData(data: EnvironmentalData, now: Date = new Date()): FusedEnvironmentalData {
+    return {
+      airQuality: this.fuseAirQuality(data.airQuality, now),
+      waterSecurity: this.fuse(data.waterSecurity, reading => reading.waterStressLevel, now),
+      greenSpace: this.fuse(data.greenSpace, reading => reading.vegetationCoverage || reading.ndvi * 100, now),
+      heat: this.fuse(data.heat, reading => reading.landSurfaceTemperature, now),
+      flood: this.fuse(data.flood, reading => reading.floodRisk, now),
+      noise: this.fuse(data.noise, reading => reading.noiseLevel, now)
+    };
+  }
+
+  /**
+   * Per-reading values behind each fused estimate, for the score's confidence interval
+   */
+  collectEvidence(data: EnvironmentalData): ScoreEvidence {
+    const observe = <T extends FusibleReading>(readings: T[], valueOf: (reading: T) => number) =>
+      readings.map(reading => ({ value: valueOf(reading), source: reading.source, timestamp: reading.timestamp }));
+
+    return {
+      airQuality: observe(data.airQuality, reading => livabilityCalculator.summarizeAirQuality([reading]).aqi),
+      waterSecurity: observe(data.waterSecurity, reading => reading.waterStressLevel),
+      greenSpace: observe(data.greenSpace, reading => reading.vegetationCoverage || reading.ndvi * 100),
+      heat: observe(data.heat, reading => reading.landSurfaceTemperature),
+      flood: observe(data.flood, reading => reading.floodRisk),
+      noise: observe(data.noise, reading => reading.noiseLevel)
+    };
+  }
+
+  /**
+   * Air quality fuses each pollutant concentration separately, since sources
+   * measure different pollutants, then derives the AQI from the fused values
+   */
+  private fuseAirQuality(readings: AirQualityData[], now: Date): FusedEnvironmentalData['airQuality'] {
+    const groups = this.groupBySource(readings, now);
+    if (groups.length === 0) return null;
+
+    const fusedAqi = this.combine(groups, reading => reading.aqi)!;
+    const concentrations = Object.fromEntries(
+      POLLUTANTS.map(pollutant => [pollutant, this.combine(groups, reading => reading[pollutant])])
+    );
+    const index = livabilityCalculator.summarizeAirQuality([{ aqi: fusedAqi, ...concentrations }]);
+
+    return { ...this.describe(groups, readings), value: index.aqi, index };
+  }
+
+  private fuse<T extends FusibleReading>(
+    readings: T[],
+    valueOf: (reading: T) => number,
+    now: Date
+  ): FusedEstimate | null {
+    const groups = this.groupBySource(readings, now);
+    if (groups.length === 0) return null;
+
+    return { ...this.describe(groups, readings), value: this.combine(groups, valueOf)! };
+  }
+
+  /**
+   * Weighted mean across sources of each source's weighted mean. Sources that
+   * didn't report the value are left out; null when none did.
+   */
+  private combine<T>(groups: SourceGroup<T>[], valueOf: (reading: T) => number | null | undefined): number | null {
+    let total = 0;
+    let totalWeight = 0;
+
+    for (const group of groups) {
+      const measured = group.readings
+        .map(({ reading, weight }) => ({ value: valueOf(reading), weight }))
+        .filter((entry): entry is { value: number; weight: number } => entry.value !== null && entry.value !== undefined);
+      const readingWeight = measured.reduce((sum, entry) => sum + entry.weight, 0);
+      if (measured.length === 0 || readingWeight === 0) continue;
+
+      const sourceMean = measured.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / readingWeight;
+      total += sourceMean * group.sourceWeight;
+      totalWeight += group.sourceWeight;
+    }
+
+    return totalWeight > 0 ? total / totalWeight : null;
+  }
+
+  private groupBySource<T extends FusibleReading>(readings: T[], now: Date): SourceGroup<T>[] {
+    const bySource = new Map<string, T[]>();
+    for (const reading of readings) {
+      bySource.set(reading.source, [...(bySource.get(reading.source) ?? []), reading]);
+    }
+
+    const groups = Array.from(bySource.entries()).map(([source, sourceReadings]) => {
+      const provider = nasaDataService.registry.findBySource(source);
+      const resolutionKm = provider?.resolutionKm ?? UNREGISTERED_RESOLUTION_KM;
+      const halfLifeHours = provider
+        ? Math.max(provider.cadenceMinutes / 60, MIN_HALF_LIFE_HOURS)
+        : UNREGISTERED_HALF_LIFE_HOURS;
+
+      const weighted = sourceReadings.map(reading => {
+        const ageHours = Math.max(0, (now.getTime() - reading.timestamp.getTime()) / MS_PER_HOUR);
+        const recency = 0.5 ** (ageHours / halfLifeHours);
+        const quality = this.qualityOf(reading);
+        return { reading, ageHours, quality, weight: recency * quality };
+      });
+
+      const newestAge = Math.min(...weighted.map(entry => entry.ageHours));
+      const quality = weighted.reduce((sum, entry) => sum + entry.quality, 0) / weighted.length;
+      const sourceWeight = (1 / (1 + resolutionKm / RESOLUTION_SCALE_KM)) * 0.5 ** (newestAge / halfLifeHours) * quality;
+
+      return {
+        contribution: {
+          source,
+          provider: provider?.id ?? null,
+          readingCount: sourceReadings.length,
+          resolutionKm,
+          quality: Math.round(quality * 100) / 100,
+          ageHours: Math.round(newestAge * 10) / 10,
+          weight: 0
+        },
+        readings: weighted.map(({ reading, weight }) => ({ reading, weight })),
+        sourceWeight
+      };
+    });
+
+    // Report each source's share of the estimate
+    const totalWeight = groups.reduce((sum, group) => sum + group.sourceWeight, 0);
+    for (const group of groups) {
+      group.contribution.weight = totalWeight > 0
+        ? Math.round((group.sourceWeight / totalWeight) * 1000) / 1000
+        : 0;
+    }
+
+    return groups;
+  }
+
+  private describe<T extends FusibleReading>(groups: SourceGroup<T>[], readings: T[]) {
+    const newest = Math.max(...readings.map(reading => reading.timestamp.getTime()));
+    return {
+      observedAt: new Date(newest).toISOString(),
+      provenance: groups
+        .map(group => group.contribution)
+        .sort((a, b) => b.weight - a.weight)
+    };
+  }
+
+  // Floored so a poor retrieval still counts for something when it is all there is
+  private qualityOf(reading: FusibleReading): number {
+    const quality = (reading.metadata as ReadingMetadata | null)?.quality;
+    return typeof quality === 'number' ? Math.min(Math.max(quality, MIN_QUALITY), 1) : 1;
+  }
+}
+
+export default new FusionService();
@@ -0,0 +1,239 @@
+// Livability grid
+// Tiles a bounding box into cells aligned to a global grid, scores each cell from the
+// readings inside it and returns the cells as GeoJSON for a choropleth. Cell scores are
+// cached briefly, so panning over an area only scores the cells that came into view.
+
+import type { NormalizationMode } from "@shared/schema";
+import { storage, type EnvironmentalData } from "../storage";
+import { enclosingCircle, type LonLat } from "../geo";
+import livabilityCalculator, {
+  LIVABILITY_CATEGORIES,
+  type ConfidenceInterval,
+  type LivabilityCategory,
+  type ScoringConfig
+} from "./livabilityCalculator";
+import type { DimensionKey } from "./livabilityDimensions";
+import fusionService from "./fusionService";
+import type { ResolvedScoringProfile } from "./scoringProfileService";
+
+export interface GridBounds {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export interface GridQuery {
+  bounds: GridBounds;
+  resolution: number; // Cell size in degrees
+  normalization?: NormalizationMode;
+}
+
+export interface GridCellProperties {
+  overallScore: number;
+  category: string;
+  color: string;
+  confidence: ConfidenceInterval | null;
+  dimensions: Partial<Record<DimensionKey, number>>;
+  readingCount: number;
+}
+
+export interface GridFeature {
+  type: 'Feature';
+  id: string; // "row:col" on the global grid
+  geometry: { type: 'Polygon'; coordinates: LonLat[][] };
+  properties: GridCellProperties;
+}
+
+export interface LivabilityGrid {
+  type: 'FeatureCollection';
+  bbox: [number, number, number, number]; // Cell-aligned extent covered
+  features: GridFeature[];                // Only cells with enough readings to score
+  resolution: number;
+  profile: string;
+  normalization: NormalizationMode;
+  cellCount: number;
+  cachedCells: number;                    // Cells served from the cache
+  legend: LivabilityCategory[];
+}
+
+export class GridRangeError extends Error {}
+
+// Upper bound on cells a single request may cover
+const MAX_GRID_CELLS = 400;
+
+// Readings are read for the circle around the cells, so the area a request may cover is
+// capped too: about 220 km across at the equator, with cells at most a quarter of that
+export const MAX_GRID_SPAN_DEGREES = 2;
+export const MAX_GRID_RESOLUTION = 0.5;
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_CELLS = 10000;
+
+// Readings older than this are left out, matching single-location scoring
+const RECENT_HOURS = 24;
+
+interface GridCell {
+  row: number;
+  col: number;
+  key: string;
+}
+
+interface CachedCell {
+  expiresAt: number;
+  properties: GridCellProperties | null; // null when the cell lacked readings to score
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Cell index along one axis; the tolerance keeps values on a cell edge, like 39.1 at
+// 0.05 degrees, from landing in the neighbouring cell through float error
+const EDGE_TOLERANCE = 1e-9;
+const cellFloor = (value: number, resolution: number) => Math.floor(value / resolution + EDGE_TOLERANCE);
+const cellCeil = (value: number, resolution: number) => Math.ceil(value / resolution - EDGE_TOLERANCE);
+
+class GridService {
+  private readonly cache = new Map<string, CachedCell>();
+
+  async getGrid(query: GridQuery, profile: ResolvedScoringProfile, now: Date = new Date()): Promise<LivabilityGrid> {
+    const { bounds, resolution } = query;
+    const config: ScoringConfig = { ...profile, normalization: query.normalization ?? profile.normalization };
+
+    const firstRow = cellFloor(bounds.minLat, resolution);
+    const firstCol = cellFloor(bounds.minLon, resolution);
+    const rows = Math.max(1, cellCeil(bounds.maxLat, resolution) - firstRow);
+    const cols = Math.max(1, cellCeil(bounds.maxLon, resolution) - firstCol);
+
+    if (rows * cols > MAX_GRID_CELLS) {
+      throw new GridRangeError(
+        `Bounding box covers ${rows * cols} cells; increase 'resolution' to stay within ${MAX_GRID_CELLS}`
+      );
+    }
+
+    const cells: GridCell[] = [];
+    for (let row = firstRow; row < firstRow + rows; row++) {
+      for (let col = firstCol; col < firstCol + cols; col++) {
+        cells.push({ row, col, key: `${row}:${col}` });
+      }
+    }
+
+    const cacheKey = (cell: GridCell) =>
+      `${profile.name}|${config.normalization}|${resolution}|${cell.key}`;
+    const cached = new Map<string, CachedCell>();
+    for (const cell of cells) {
+      const entry = this.cache.get(cacheKey(cell));
+      if (entry && entry.expiresAt > now.getTime()) cached.set(cell.key, entry);
+    }
+
+    const uncached = cells.filter(cell => !cached.has(cell.key));
+    if (uncached.length > 0) {
+      const binned = await this.readingsByCell(uncached, resolution);
+      for (const cell of uncached) {
+        const entry = { expiresAt: now.getTime() + CACHE_TTL_MS, properties: this.scoreCell(binned.get(cell.key), config) };
+        this.remember(cacheKey(cell), entry);
+        cached.set(cell.key, entry);
+      }
+    }
+
+    return {
+      type: 'FeatureCollection',
+      bbox: [
+        round(firstCol * resolution),
+        round(firstRow * resolution),
+        round((firstCol + cols) * resolution),
+        round((firstRow + rows) * resolution)
+      ],
+      features: cells
+        .filter(cell => cached.get(cell.key)!.properties)
+        .map(cell => this.toFeature(cell, resolution, cached.get(cell.key)!.properties!)),
+      resolution,
+      profile: profile.name,
+      normalization: config.normalization,
+      cellCount: cells.length,
+      cachedCells: cells.length - uncached.length,
+      legend: LIVABILITY_CATEGORIES
+    };
+  }
+
+  /**
+   * Fetch the readings around the cells in one query, then bin them by cell
+   */
+  private async readingsByCell(cells: GridCell[], resolution: number): Promise<Map<string, EnvironmentalData>> {
+    const minLat = Math.min(...cells.map(cell => cell.row)) * resolution;
+    const minLon = Math.min(...cells.map(cell => cell.col)) * resolution;
+    const maxLat = (Math.max(...cells.map(cell => cell.row)) + 1) * resolution;
+    const maxLon = (Math.max(...cells.map(cell => cell.col)) + 1) * resolution;
+    const circle = enclosingCircle([[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat]]);
+
+    const data = await storage.getRecentEnvironmentalData(circle.lat, circle.lon, RECENT_HOURS, { radiusKm: circle.radiusKm });
+
+    const wanted = new Set(cells.map(cell => cell.key));
+    const bins = new Map<string, EnvironmentalData>();
+    for (const category of Object.keys(data) as Array<keyof EnvironmentalData>) {
+      for (const reading of data[category]) {
+        const key = `${cellFloor(reading.latitude, resolution)}:${cellFloor(reading.longitude, resolution)}`;
+        if (!wanted.has(key)) continue;
+
+        if (!bins.has(key)) {
+          bins.set(key, { airQuality: [], waterSecurity: [], greenSpace: [], heat: [], flood: [], noise: [] });
+        }
+        (bins.get(key)![category] as Array<typeof reading>).push(reading);
+      }
+    }
+    return bins;
+  }
+
+  private scoreCell(data: EnvironmentalData | undefined, config: ScoringConfig): GridCellProperties | null {
+    if (!data || data.airQuality.length === 0 || data.waterSecurity.length === 0 || data.greenSpace.length === 0) {
+      return null;
+    }
+
+    const fused = fusionService.fuseEnvironmentalData(data);
+    const result = livabilityCalculator.calculateLivabilityScore({
+      airQuality: fused.airQuality!.value,
+      waterSecurity: fused.waterSecurity!.value,
+      greenSpace: fused.greenSpace!.value,
+      heat: fused.heat?.value,
+      flood: fused.flood?.value,
+      noise: fused.noise?.value
+    }, config, fusionService.collectEvidence(data));
+    const { category, color } = livabilityCalculator.getLivabilityCategory(result.overallScore);
+
+    return {
+      overallScore: result.overallScore,
+      category,
+      color,
+      confidence: result.confidence ?? null,
+      dimensions: Object.fromEntries(result.dimensions.map(dimension => [dimension.key, dimension.score])),
+      readingCount: Object.values(data).reduce((sum, readings) => sum + readings.length, 0)
+    };
+  }
+
+  private toFeature(cell: GridCell, resolution: number, properties: GridCellProperties): GridFeature {
+    const minLat = round(cell.row * resolution);
+    const minLon = round(cell.col * resolution);
+    const maxLat = round((cell.row + 1) * resolution);
+    const maxLon = round((cell.col + 1) * resolution);
+
+    return {
+      type: 'Feature',
+      id: cell.key,
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]]]
+      },
+      properties
+    };
+  }
+
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  private remember(key: string, entry: CachedCell) {
+    this.cache.delete(key);
+    if (this.cache.size >= MAX_CACHED_CELLS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, entry);
+  }
+}
+
+export default new GridService();
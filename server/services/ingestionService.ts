@@ -0,0 +1,87 @@
+// Environmental reading ingestion
+// Maps provider readings onto storage rows so the API and backfill jobs persist data the same way.
+// Storage upserts on (source, rounded location, observation time), so re-ingesting is idempotent.
+
+import { storage, type EnvironmentalData } from "../storage";
+import type { EnvironmentalReadings } from "./nasaDataService";
+
+export interface ReadingMetadata {
+  quality?: number; // Retrieval quality, 0-1
+}
+
+class IngestionService {
+  /**
+   * Persist a set of provider readings in one transaction and return the stored rows
+   */
+  async storeReadings(readings: EnvironmentalReadings): Promise<EnvironmentalData> {
+    return await storage.insertEnvironmentalBatch({
+      airQuality: readings.airQuality.map(airData => ({
+        latitude: airData.latitude,
+        longitude: airData.longitude,
+        aqi: airData.aqi,
+        pm25: airData.pm25,
+        pm10: airData.pm10,
+        ozone: airData.ozone,
+        no2: airData.no2,
+        so2: airData.so2,
+        source: airData.source,
+        timestamp: new Date(airData.timestamp),
+        metadata: this.metadataFor(airData.quality)
+      })),
+      waterSecurity: readings.waterSecurity.map(waterData => ({
+        latitude: waterData.latitude,
+        longitude: waterData.longitude,
+        waterStressLevel: waterData.waterStressLevel,
+        precipitationLevel: waterData.precipitationLevel,
+        groundwaterLevel: waterData.groundwaterLevel,
+        floodRisk: waterData.floodRisk,
+        source: waterData.source,
+        timestamp: new Date(waterData.timestamp),
+        metadata: this.metadataFor(waterData.quality)
+      })),
+      greenSpace: readings.greenSpace.map(greenData => ({
+        latitude: greenData.latitude,
+        longitude: greenData.longitude,
+        ndvi: greenData.ndvi,
+        vegetationCoverage: greenData.vegetationCoverage,
+        greenSpaceType: greenData.greenSpaceType,
+        source: greenData.source,
+        timestamp: new Date(greenData.timestamp),
+        metadata: this.metadataFor(greenData.quality)
+      })),
+      heat: readings.heat.map(heatData => ({
+        latitude: heatData.latitude,
+        longitude: heatData.longitude,
+        landSurfaceTemperature: heatData.landSurfaceTemperature,
+        urbanHeatIsland: heatData.urbanHeatIsland,
+        source: heatData.source,
+        timestamp: new Date(heatData.timestamp),
+        metadata: this.metadataFor(heatData.quality)
+      })),
+      flood: readings.flood.map(floodData => ({
+        latitude: floodData.latitude,
+        longitude: floodData.longitude,
+        floodRisk: floodData.floodRisk,
+        inundatedArea: floodData.inundatedArea,
+        source: floodData.source,
+        timestamp: new Date(floodData.timestamp),
+        metadata: this.metadataFor(floodData.quality)
+      })),
+      noise: readings.noise.map(noiseData => ({
+        latitude: noiseData.latitude,
+        longitude: noiseData.longitude,
+        noiseLevel: noiseData.noiseLevel,
+        source: noiseData.source,
+        timestamp: new Date(noiseData.timestamp),
+        metadata: this.metadataFor(noiseData.quality)
+      }))
+    });
+  }
+
+  // Retrieval quality travels in the row metadata, where fusion reads it back
+  private metadataFor(quality: number | undefined): ReadingMetadata | undefined {
+    return quality === undefined ? undefined : { quality };
+  }
+}
+
+export default new IngestionService();
@@ -1,10 +1,72 @@
 // Livability Index Calculation Service
-// Combines air quality, water security, and green space metrics
+// Combines air quality, water security, green space, heat, flood and noise metrics
 
-export interface LiveabilityMetrics {
-  airQuality: number;
-  waterSecurity: number;
-  greenSpace: number;
+import type { NormalizationMode, ReferenceValues, ScoringWeights } from "@shared/schema";
+import {
+  LIVABILITY_DIMENSIONS,
+  getDimension,
+  type CoreDimensionKey,
+  type DimensionKey,
+  type NormalizationCurve,
+  type Thresholds
+} from "./livabilityDimensions";
+
+// Core dimensions are always present; the others only where readings exist
+export type LiveabilityMetrics = Record<CoreDimensionKey, number> & Partial<Record<DimensionKey, number>>;
+
+// Breakpoint segment a metric fell in, running from the better to the worse
+// breakpoint value; null where the segment is open-ended
+export interface NormalizationSegment {
+  label: string;
+  from: number | null;
+  to: number | null;
+}
+
+export interface LiveabilityFactor {
+  weight: number;
+  normalizedValue: number;
+  contribution: number;
+  segment: NormalizationSegment;
+}
+
+// A single reading's metric value, in the units LiveabilityMetrics uses
+export interface MetricObservation {
+  value: number;
+  source: string;
+  timestamp: Date;
+}
+
+// The readings behind each averaged metric
+export type ScoreEvidence = Record<CoreDimensionKey, MetricObservation[]> &
+  Partial<Record<DimensionKey, MetricObservation[]>>;
+
+export interface CategoryDataQuality {
+  readingCount: number;
+  sources: Record<string, number>; // Readings per source
+  stalenessHours: number | null;   // Age of the newest reading
+  disagreement: {                  // Largest gap between two sources' mean scores
+    sources: [string, string];
+    points: number;
+  } | null;
+  standardError: number;           // Score points
+}
+
+// Rating plus the quality of each scored dimension
+export type DataQuality = { rating: 'high' | 'medium' | 'low' } &
+  Record<CoreDimensionKey, CategoryDataQuality> &
+  Partial<Record<DimensionKey, CategoryDataQuality>>;
+
+export interface ConfidenceInterval {
+  level: number;
+  lower: number;
+  upper: number;
+}
+
+export interface DimensionScore {
+  key: DimensionKey;
+  label: string;
+  score: number;
+  weight: number; // Effective weight, after spreading the weight of unscored dimensions
 }
 
 export interface LiveabilityResult {
@@ -12,139 +74,372 @@ export interface LiveabilityResult {
   waterSecurityScore: number;
   greenSpaceScore: number;
   overallScore: number;
-  factors: {
-    airQuality: {
-      weight: number;
-      normalizedValue: number;
-      contribution: number;
-    };
-    waterSecurity: {
-      weight: number;
-      normalizedValue: number;
-      contribution: number;
-    };
-    greenSpace: {
-      weight: number;
-      normalizedValue: number;
-      contribution: number;
-    };
-  };
+  normalization: NormalizationMode;
+  factors: Record<CoreDimensionKey, LiveabilityFactor> & Partial<Record<DimensionKey, LiveabilityFactor>>;
+  dimensions: DimensionScore[];          // Every scored dimension, in registry order
+  unscoredDimensions: DimensionKey[];    // Weighted by the profile but without readings
+  // Present when the calculation is given the readings behind the metrics
+  confidence?: ConfidenceInterval;
+  dataQuality?: DataQuality;
 }
 
-class LiveabilityCalculator {
-  // Weights for different factors (must sum to 1.0)
-  private readonly weights = {
-    airQuality: 0.4,     // 40% - highest weight due to immediate health impact
-    waterSecurity: 0.35, // 35% - critical for sustainability
-    greenSpace: 0.25     // 25% - important for quality of life
-  };
-
-  // Reference values for normalization
-  private readonly referenceValues = {
-    airQuality: {
-      excellent: 0,    // AQI 0-50
-      good: 50,        // AQI 51-100
-      moderate: 100,   // AQI 101-150
-      poor: 200,       // AQI 151-200
-      veryPoor: 300    // AQI 201+
-    },
-    waterSecurity: {
-      excellent: 0,    // 0-20% stress
-      good: 20,        // 21-40% stress
-      moderate: 40,    // 41-60% stress
-      poor: 60,        // 61-80% stress
-      veryPoor: 80     // 81-100% stress
-    },
-    greenSpace: {
-      excellent: 80,   // 80%+ vegetation coverage
-      good: 60,        // 60-79% coverage
-      moderate: 40,    // 40-59% coverage
-      poor: 20,        // 20-39% coverage
-      veryPoor: 10     // <20% coverage
-    }
-  };
+export interface ScoringConfig {
+  weights: ScoringWeights;
+  referenceValues: ReferenceValues;
+  normalization: NormalizationMode;
+}
+
+const BANDS = ['excellent', 'good', 'moderate', 'poor', 'veryPoor'] as const;
+
+// Pollutant concentrations in the units the providers report
+export interface PollutantConcentrations {
+  pm25?: number | null;  // µg/m³
+  pm10?: number | null;  // µg/m³
+  ozone?: number | null; // ppm
+  no2?: number | null;   // ppb
+  so2?: number | null;   // ppb
+}
+
+export type Pollutant = keyof PollutantConcentrations;
+
+export interface AirQualityIndex {
+  aqi: number;
+  dominantPollutant: Pollutant | null; // null when no pollutant was measured and the reported AQI is used
+  subIndices: Partial<Record<Pollutant, number>>;
+}
+
+// [concentration low, concentration high, index low, index high]
+type AqiBreakpoint = [number, number, number, number];
 
+// EPA AQI breakpoints; concentrations are truncated to the listed precision before lookup
+const AQI_BREAKPOINTS: Record<Pollutant, { decimals: number; breakpoints: AqiBreakpoint[] }> = {
+  pm25: {
+    decimals: 1,
+    breakpoints: [
+      [0.0, 9.0, 0, 50], [9.1, 35.4, 51, 100], [35.5, 55.4, 101, 150],
+      [55.5, 125.4, 151, 200], [125.5, 225.4, 201, 300], [225.5, 325.4, 301, 500]
+    ]
+  },
+  pm10: {
+    decimals: 0,
+    breakpoints: [
+      [0, 54, 0, 50], [55, 154, 51, 100], [155, 254, 101, 150],
+      [255, 354, 151, 200], [355, 424, 201, 300], [425, 604, 301, 500]
+    ]
+  },
+  ozone: {
+    decimals: 3,
+    breakpoints: [
+      // 8-hour breakpoints, then the 1-hour range EPA uses for the top categories
+      [0.000, 0.054, 0, 50], [0.055, 0.070, 51, 100], [0.071, 0.085, 101, 150],
+      [0.086, 0.105, 151, 200], [0.106, 0.200, 201, 300], [0.405, 0.604, 301, 500]
+    ]
+  },
+  no2: {
+    decimals: 0,
+    breakpoints: [
+      [0, 53, 0, 50], [54, 100, 51, 100], [101, 360, 101, 150],
+      [361, 649, 151, 200], [650, 1249, 201, 300], [1250, 2049, 301, 500]
+    ]
+  },
+  so2: {
+    decimals: 0,
+    breakpoints: [
+      [0, 35, 0, 50], [36, 75, 51, 100], [76, 185, 101, 150],
+      [186, 304, 151, 200], [305, 604, 201, 300], [605, 1004, 301, 500]
+    ]
+  }
+};
+
+export const POLLUTANTS = Object.keys(AQI_BREAKPOINTS) as Pollutant[];
+
+// Uncertainty model for score confidence intervals
+const CONFIDENCE_LEVEL = 0.95;
+const CONFIDENCE_Z = 1.96;
+const SINGLE_READING_SD = 10;        // Assumed spread, in score points, when a category has one reading
+const STALENESS_DOUBLING_HOURS = 24; // Data a day old doubles a category's standard error
+const MAX_STANDARD_ERROR = 50;       // Used for a category without readings
+
+// Interval half-widths, in score points, for the data quality ratings
+const QUALITY_RATINGS = { high: 5, medium: 12 };
+
+// Built-in profile, used when no stored scoring profile is selected
+export const DEFAULT_SCORING_PROFILE = 'balanced';
+
+// Weights and thresholds from the dimension registry; the weights sum to 1.0
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  normalization: 'step',
+  weights: Object.fromEntries(
+    LIVABILITY_DIMENSIONS.map(dimension => [dimension.key, dimension.weight])
+  ) as ScoringWeights,
+  referenceValues: Object.fromEntries(
+    LIVABILITY_DIMENSIONS.map(dimension => [dimension.key, dimension.referenceValues])
+  ) as ReferenceValues
+};
+
+export interface LivabilityCategory {
+  category: string;
+  description: string;
+  color: string;    // CSS color name, shared by the scorecard and map legend
+  minScore: number; // Lowest overall score in the band
+}
+
+// Overall score bands, best first
+export const LIVABILITY_CATEGORIES: LivabilityCategory[] = [
+  { category: 'Excellent', description: 'Outstanding environmental conditions', color: 'green', minScore: 85 },
+  { category: 'Good', description: 'Generally favorable environmental conditions', color: 'lightgreen', minScore: 70 },
+  { category: 'Moderate', description: 'Acceptable environmental conditions with some concerns', color: 'yellow', minScore: 55 },
+  { category: 'Poor', description: 'Environmental conditions need improvement', color: 'orange', minScore: 40 },
+  { category: 'Very Poor', description: 'Significant environmental concerns requiring action', color: 'red', minScore: 0 }
+];
+
+class LiveabilityCalculator {
   /**
    * Calculate livability score from environmental metrics
    */
-  calculateLivabilityScore(metrics: LiveabilityMetrics): LiveabilityResult {
-    // Normalize each metric to 0-100 scale
-    const airQualityScore = this.normalizeAirQuality(metrics.airQuality);
-    const waterSecurityScore = this.normalizeWaterSecurity(metrics.waterSecurity);
-    const greenSpaceScore = this.normalizeGreenSpace(metrics.greenSpace);
+  calculateLivabilityScore(
+    metrics: LiveabilityMetrics,
+    config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+    evidence?: ScoreEvidence,
+    now: Date = new Date()
+  ): LiveabilityResult {
+    const { weights, normalization } = config;
+    const scored = LIVABILITY_DIMENSIONS.filter(dimension => metrics[dimension.key] !== undefined);
+    const unscored = LIVABILITY_DIMENSIONS
+      .filter(dimension => metrics[dimension.key] === undefined && (weights[dimension.key] ?? 0) > 0);
 
-    // Calculate weighted contributions
-    const airQualityContribution = airQualityScore * this.weights.airQuality;
-    const waterSecurityContribution = waterSecurityScore * this.weights.waterSecurity;
-    const greenSpaceContribution = greenSpaceScore * this.weights.greenSpace;
+    // Weight on dimensions without readings is spread over the scored ones in proportion
+    const scoredWeight = scored.reduce((sum, dimension) => sum + (weights[dimension.key] ?? 0), 0);
+    const weightOf = (key: DimensionKey) => unscored.length > 0 && scoredWeight > 0
+      ? (weights[key] ?? 0) / scoredWeight
+      : weights[key] ?? 0;
+
+    // Normalize each metric to 0-100 scale and weight its contribution
+    const factors = Object.fromEntries(scored.map(dimension => {
+      const { score, segment } = this.normalizeDimension(dimension.key, metrics[dimension.key]!, config);
+      const weight = weightOf(dimension.key);
+      return [dimension.key, { weight, normalizedValue: score, contribution: score * weight, segment }];
+    })) as LiveabilityResult['factors'];
 
     // Calculate overall score
     const overallScore = Math.round(
-      airQualityContribution + waterSecurityContribution + greenSpaceContribution
+      Object.values(factors).reduce((sum, factor) => sum + factor.contribution, 0)
     );
 
-    return {
-      airQualityScore: Math.round(airQualityScore),
-      waterSecurityScore: Math.round(waterSecurityScore),
-      greenSpaceScore: Math.round(greenSpaceScore),
+    const result: LiveabilityResult = {
+      airQualityScore: Math.round(factors.airQuality.normalizedValue),
+      waterSecurityScore: Math.round(factors.waterSecurity.normalizedValue),
+      greenSpaceScore: Math.round(factors.greenSpace.normalizedValue),
       overallScore,
-      factors: {
-        airQuality: {
-          weight: this.weights.airQuality,
-          normalizedValue: airQualityScore,
-          contribution: airQualityContribution
-        },
-        waterSecurity: {
-          weight: this.weights.waterSecurity,
-          normalizedValue: waterSecurityScore,
-          contribution: waterSecurityContribution
-        },
-        greenSpace: {
-          weight: this.weights.greenSpace,
-          normalizedValue: greenSpaceScore,
-          contribution: greenSpaceContribution
+      normalization,
+      factors,
+      dimensions: scored.map(dimension => ({
+        key: dimension.key,
+        label: dimension.label,
+        score: Math.round(factors[dimension.key]!.normalizedValue),
+        weight: Math.round(factors[dimension.key]!.weight * 1000) / 1000
+      })),
+      unscoredDimensions: unscored.map(dimension => dimension.key)
+    };
+
+    return evidence ? { ...result, ...this.assessUncertainty(result, evidence, config, now) } : result;
+  }
+
+  /**
+   * Confidence interval and data quality from the readings behind the metrics.
+   * Each category's standard error combines the spread of per-reading scores,
+   * half the largest disagreement between sources, and grows with data age; the
+   * overall error weights the scored dimensions like the score does.
+   */
+  private assessUncertainty(
+    result: LiveabilityResult,
+    evidence: ScoreEvidence,
+    config: ScoringConfig,
+    now: Date
+  ): { confidence: ConfidenceInterval; dataQuality: DataQuality } {
+    const categories = Object.fromEntries(result.dimensions.map(({ key }) =>
+      [key, this.assessCategory(evidence[key] ?? [], key, config, now)]
+    )) as Omit<DataQuality, 'rating'>;
+
+    const standardError = Math.sqrt(
+      result.dimensions.reduce((sum, { key }) =>
+        sum + (result.factors[key]!.weight * categories[key]!.standardError) ** 2, 0)
+    );
+    const halfWidth = CONFIDENCE_Z * standardError;
+
+    return {
+      confidence: {
+        level: CONFIDENCE_LEVEL,
+        lower: Math.max(0, Math.round(result.overallScore - halfWidth)),
+        upper: Math.min(100, Math.round(result.overallScore + halfWidth))
+      },
+      dataQuality: {
+        rating: halfWidth <= QUALITY_RATINGS.high ? 'high' : halfWidth <= QUALITY_RATINGS.medium ? 'medium' : 'low',
+        ...categories
+      }
+    };
+  }
+
+  private assessCategory(
+    observations: MetricObservation[],
+    category: DimensionKey,
+    config: ScoringConfig,
+    now: Date
+  ): CategoryDataQuality {
+    const score = (value: number) => this.normalizeDimension(category, value, config).score;
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    if (observations.length === 0) {
+      return { readingCount: 0, sources: {}, stalenessHours: null, disagreement: null, standardError: MAX_STANDARD_ERROR };
+    }
+
+    const scores = observations.map(observation => score(observation.value));
+    const average = mean(scores);
+    const sd = scores.length > 1
+      ? Math.sqrt(scores.reduce((sum, s) => sum + (s - average) ** 2, 0) / (scores.length - 1))
+      : SINGLE_READING_SD;
+    const sampleError = sd / Math.sqrt(scores.length);
+
+    const bySource = new Map<string, number[]>();
+    observations.forEach((observation, i) => {
+      bySource.set(observation.source, [...(bySource.get(observation.source) ?? []), scores[i]]);
+    });
+
+    let disagreement: CategoryDataQuality['disagreement'] = null;
+    const sourceMeans = Array.from(bySource.entries()).map(([source, values]) => ({ source, mean: mean(values) }));
+    for (let i = 0; i < sourceMeans.length; i++) {
+      for (let j = i + 1; j < sourceMeans.length; j++) {
+        const points = Math.abs(sourceMeans[i].mean - sourceMeans[j].mean);
+        if (!disagreement || points > disagreement.points) {
+          disagreement = { sources: [sourceMeans[i].source, sourceMeans[j].source], points: Math.round(points * 10) / 10 };
         }
       }
+    }
+
+    const newest = Math.max(...observations.map(observation => observation.timestamp.getTime()));
+    const stalenessHours = Math.max(0, (now.getTime() - newest) / (60 * 60 * 1000));
+
+    const standardError = Math.sqrt(sampleError ** 2 + ((disagreement?.points ?? 0) / 2) ** 2) *
+      (1 + stalenessHours / STALENESS_DOUBLING_HOURS);
+
+    return {
+      readingCount: observations.length,
+      sources: Object.fromEntries(Array.from(bySource.entries()).map(([source, values]) => [source, values.length])),
+      stalenessHours: Math.round(stalenessHours * 10) / 10,
+      disagreement,
+      standardError: Math.min(MAX_STANDARD_ERROR, Math.round(standardError * 10) / 10)
     };
   }
 
   /**
-   * Normalize Air Quality Index (AQI) to 0-100 scale
-   * Lower AQI is better, so we invert the scale
+   * EPA-style AQI from averaged pollutant concentrations: each measured pollutant
+   * gets a sub-index and the highest one sets the AQI. Falls back to the mean
+   * reported AQI when no reading carries pollutant concentrations.
    */
-  private normalizeAirQuality(aqi: number): number {
-    if (aqi <= this.referenceValues.airQuality.excellent) return 100;
-    if (aqi <= this.referenceValues.airQuality.good) return 85;
-    if (aqi <= this.referenceValues.airQuality.moderate) return 60;
-    if (aqi <= this.referenceValues.airQuality.poor) return 35;
-    if (aqi <= this.referenceValues.airQuality.veryPoor) return 15;
-    return 5; // Very unhealthy/hazardous
+  summarizeAirQuality(readings: Array<{ aqi: number } & PollutantConcentrations>): AirQualityIndex {
+    const subIndices: Partial<Record<Pollutant, number>> = {};
+
+    for (const pollutant of POLLUTANTS) {
+      const values = readings
+        .map(reading => reading[pollutant])
+        .filter((value): value is number => value !== null && value !== undefined);
+      if (values.length === 0) continue;
+
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      subIndices[pollutant] = this.pollutantSubIndex(pollutant, mean);
+    }
+
+    const measured = Object.entries(subIndices) as Array<[Pollutant, number]>;
+    if (measured.length === 0) {
+      const meanAqi = readings.reduce((sum, reading) => sum + reading.aqi, 0) / Math.max(readings.length, 1);
+      return { aqi: meanAqi, dominantPollutant: null, subIndices };
+    }
+
+    const [dominantPollutant, aqi] = measured.reduce((max, entry) => entry[1] > max[1] ? entry : max);
+    return { aqi, dominantPollutant, subIndices };
   }
 
   /**
-   * Normalize Water Security (stress level) to 0-100 scale
-   * Lower stress is better, so we invert the scale
+   * Linear interpolation within the EPA breakpoint containing the concentration.
+   * Values between breakpoints after truncation take the upper category's floor;
+   * values past the table are reported as 500.
    */
-  private normalizeWaterSecurity(stressLevel: number): number {
-    if (stressLevel <= this.referenceValues.waterSecurity.excellent) return 100;
-    if (stressLevel <= this.referenceValues.waterSecurity.good) return 80;
-    if (stressLevel <= this.referenceValues.waterSecurity.moderate) return 60;
-    if (stressLevel <= this.referenceValues.waterSecurity.poor) return 40;
-    if (stressLevel <= this.referenceValues.waterSecurity.veryPoor) return 20;
-    return 10; // Extremely high stress
+  private pollutantSubIndex(pollutant: Pollutant, concentration: number): number {
+    const { decimals, breakpoints } = AQI_BREAKPOINTS[pollutant];
+    const factor = 10 ** decimals;
+    // Rounding off float noise first keeps a weighted mean of 20 from truncating to 19
+    const c = Math.floor(Number((Math.max(0, concentration) * factor).toFixed(6))) / factor;
+
+    const breakpoint = breakpoints.find(([, cHigh]) => c <= cHigh);
+    if (!breakpoint) return 500;
+
+    const [cLow, cHigh, iLow, iHigh] = breakpoint;
+    if (c < cLow) return iLow;
+    return Math.round(((iHigh - iLow) / (cHigh - cLow)) * (c - cLow) + iLow);
   }
 
   /**
-   * Normalize Green Space coverage to 0-100 scale
-   * Higher coverage is better
+   * Normalize a dimension's metric to 0-100 with the profile's thresholds, or the
+   * dimension's own when a profile predates it
    */
-  private normalizeGreenSpace(coverage: number): number {
-    if (coverage >= this.referenceValues.greenSpace.excellent) return 100;
-    if (coverage >= this.referenceValues.greenSpace.good) return 80;
-    if (coverage >= this.referenceValues.greenSpace.moderate) return 60;
-    if (coverage >= this.referenceValues.greenSpace.poor) return 40;
-    if (coverage >= this.referenceValues.greenSpace.veryPoor) return 20;
-    return 10; // Very low vegetation
+  private normalizeDimension(key: DimensionKey, value: number, config: ScoringConfig) {
+    const dimension = getDimension(key);
+    const reference = config.referenceValues[key] ?? dimension.referenceValues;
+    return this.normalize(value, reference, dimension.curve, config.normalization);
+  }
+
+  /**
+   * Map a metric onto 0-100 through the band thresholds. Step mode scores the
+   * whole band the same; linear mode interpolates between adjacent breakpoints
+   * so small changes in the metric move the score by small amounts.
+   */
+  private normalize(
+    value: number,
+    reference: Thresholds,
+    curve: NormalizationCurve,
+    mode: NormalizationMode
+  ): { score: number; segment: NormalizationSegment } {
+    const isWorse = (a: number, b: number) => curve.higherIsWorse ? a > b : a < b;
+    // A profile may set 'veryPoor' past the default limit; the floor then starts there
+    const limit = isWorse(reference.veryPoor, curve.limit) ? reference.veryPoor : curve.limit;
+    const breakpoints = [
+      ...BANDS.map((band, i) => ({ label: band as string, value: reference[band], score: curve.scores[i] })),
+      { label: 'limit', value: limit, score: curve.scores[BANDS.length] }
+    ];
+
+    if (mode === 'step') {
+      const band = BANDS.findIndex(b => !isWorse(value, reference[b]));
+      if (band === -1) {
+        return {
+          score: curve.scores[BANDS.length],
+          segment: { label: 'beyond veryPoor', from: reference.veryPoor, to: null }
+        };
+      }
+      return {
+        score: curve.scores[band],
+        segment: { label: BANDS[band], from: band > 0 ? reference[BANDS[band - 1]] : null, to: reference[BANDS[band]] }
+      };
+    }
+
+    if (!isWorse(value, breakpoints[0].value)) {
+      return { score: breakpoints[0].score, segment: { label: breakpoints[0].label, from: null, to: breakpoints[0].value } };
+    }
+
+    for (let i = 1; i < breakpoints.length; i++) {
+      const from = breakpoints[i - 1];
+      const to = breakpoints[i];
+      if (isWorse(value, to.value)) continue;
+
+      const span = to.value - from.value;
+      const fraction = span === 0 ? 1 : (value - from.value) / span;
+      return {
+        score: from.score + (to.score - from.score) * fraction,
+        segment: { label: `${from.label}-${to.label}`, from: from.value, to: to.value }
+      };
+    }
+
+    const last = breakpoints[breakpoints.length - 1];
+    return { score: last.score, segment: { label: 'beyond limit', from: last.value, to: null } };
   }
 
   /**
@@ -153,14 +448,15 @@ class LiveabilityCalculator {
   calculateRegionalLivability(locations: Array<{
     name: string;
     metrics: LiveabilityMetrics;
-  }>): Array<{
+    evidence?: ScoreEvidence;
+  }>, config: ScoringConfig = DEFAULT_SCORING_CONFIG): Array<{
     name: string;
     result: LiveabilityResult;
     ranking: number;
   }> {
     const results = locations.map(location => ({
       name: location.name,
-      result: this.calculateLivabilityScore(location.metrics)
+      result: this.calculateLivabilityScore(location.metrics, config, location.evidence)
     }));
 
     // Sort by overall score (descending)
@@ -181,37 +477,9 @@ class LiveabilityCalculator {
     description: string;
     color: string;
   } {
-    if (score >= 85) {
-      return {
-        category: 'Excellent',
-        description: 'Outstanding environmental conditions',
-        color: 'green'
-      };
-    } else if (score >= 70) {
-      return {
-        category: 'Good',
-        description: 'Generally favorable environmental conditions',
-        color: 'lightgreen'
-      };
-    } else if (score >= 55) {
-      return {
-        category: 'Moderate',
-        description: 'Acceptable environmental conditions with some concerns',
-        color: 'yellow'
-      };
-    } else if (score >= 40) {
-      return {
-        category: 'Poor',
-        description: 'Environmental conditions need improvement',
-        color: 'orange'
-      };
-    } else {
-      return {
-        category: 'Very Poor',
-        description: 'Significant environmental concerns requiring action',
-        color: 'red'
-      };
-    }
+    const { minScore, ...category } =
+      LIVABILITY_CATEGORIES.find(band => score >= band.minScore) ?? LIVABILITY_CATEGORIES[LIVABILITY_CATEGORIES.length - 1];
+    return category;
   }
 
   /**
@@ -220,34 +488,14 @@ class LiveabilityCalculator {
   generateRecommendations(result: LiveabilityResult): string[] {
     const recommendations: string[] = [];
 
-    // Air quality recommendations
-    if (result.airQualityScore < 60) {
-      recommendations.push('Implement traffic reduction measures in high-pollution areas');
-      recommendations.push('Increase monitoring of industrial emissions');
-      recommendations.push('Promote public transportation and electric vehicle adoption');
-    }
-
-    // Water security recommendations
-    if (result.waterSecurityScore < 60) {
-      recommendations.push('Improve water conservation and efficiency programs');
-      recommendations.push('Invest in flood protection infrastructure');
-      recommendations.push('Enhance groundwater monitoring and management');
-    }
-
-    // Green space recommendations
-    if (result.greenSpaceScore < 60) {
-      recommendations.push('Expand urban parks and green corridors');
-      recommendations.push('Implement green building requirements');
-      recommendations.push('Create community gardens and green roofs');
-      recommendations.push('Protect existing natural areas from development');
+    for (const { key, score } of result.dimensions) {
+      if (score < 60) {
+        recommendations.push(...getDimension(key).recommendations);
+      }
     }
 
     // Overall recommendations based on weakest factors
-    const factors = [
-      { name: 'air quality', score: result.airQualityScore },
-      { name: 'water security', score: result.waterSecurityScore },
-      { name: 'green space', score: result.greenSpaceScore }
-    ];
+    const factors = result.dimensions.map(({ label, score }) => ({ name: label.toLowerCase(), score }));
 
     const weakestFactor = factors.reduce((min, factor) => 
       factor.score < min.score ? factor : min
@@ -0,0 +1,152 @@
+// Livability dimensions
+// Each dimension scores one environmental metric on a 0-100 scale. The calculator,
+// the built-in scoring profile and the scorecard all work from this list.
+
+import type { ReferenceValues, ScoringWeights } from "@shared/schema";
+
+export type DimensionKey = keyof ScoringWeights;
+
+// Scored at every location; the other dimensions are scored where readings exist
+export type CoreDimensionKey = 'airQuality' | 'waterSecurity' | 'greenSpace';
+
+export type Thresholds = NonNullable<ReferenceValues[DimensionKey]>;
+
+export interface NormalizationCurve {
+  scores: number[];      // Score at each band threshold, then the floor beyond 'veryPoor'
+  limit: number;         // Metric value where linear mode reaches the floor
+  higherIsWorse: boolean;
+}
+
+export interface LivabilityDimension {
+  key: DimensionKey;
+  label: string;
+  metric: string;            // What the normalized value measures
+  weight: number;            // Share of the built-in profile
+  referenceValues: Thresholds;
+  curve: NormalizationCurve; // Step scores per band; linear mode interpolates between the same points
+  recommendations: string[]; // Offered when the dimension scores below 60
+}
+
+// The core weights keep the original 40/35/25 split within their 75% share, so a
+// location without heat or flood readings scores exactly as it did before them
+export const LIVABILITY_DIMENSIONS: LivabilityDimension[] = [
+  {
+    key: 'airQuality',
+    label: 'Air Quality',
+    metric: 'EPA AQI',
+    weight: 0.3, // Highest weight due to immediate health impact
+    referenceValues: {
+      excellent: 0,    // AQI 0-50
+      good: 50,        // AQI 51-100
+      moderate: 100,   // AQI 101-150
+      poor: 200,       // AQI 151-200
+      veryPoor: 300    // AQI 201+
+    },
+    curve: { scores: [100, 85, 60, 35, 15, 5], limit: 500, higherIsWorse: true }, // EPA AQI tops out at 500
+    recommendations: [
+      'Implement traffic reduction measures in high-pollution areas',
+      'Increase monitoring of industrial emissions',
+      'Promote public transportation and electric vehicle adoption'
+    ]
+  },
+  {
+    key: 'waterSecurity',
+    label: 'Water Security',
+    metric: 'Water stress, %',
+    weight: 0.2625, // Critical for sustainability
+    referenceValues: {
+      excellent: 0,    // 0-20% stress
+      good: 20,        // 21-40% stress
+      moderate: 40,    // 41-60% stress
+      poor: 60,        // 61-80% stress
+      veryPoor: 80     // 81-100% stress
+    },
+    curve: { scores: [100, 80, 60, 40, 20, 10], limit: 100, higherIsWorse: true },
+    recommendations: [
+      'Improve water conservation and efficiency programs',
+      'Enhance groundwater monitoring and management'
+    ]
+  },
+  {
+    key: 'greenSpace',
+    label: 'Green Space',
+    metric: 'Vegetation coverage, %',
+    weight: 0.1875, // Important for quality of life
+    referenceValues: {
+      excellent: 80,   // 80%+ vegetation coverage
+      good: 60,        // 60-79% coverage
+      moderate: 40,    // 40-59% coverage
+      poor: 20,        // 20-39% coverage
+      veryPoor: 10     // <20% coverage
+    },
+    curve: { scores: [100, 80, 60, 40, 20, 10], limit: 0, higherIsWorse: false },
+    recommendations: [
+      'Expand urban parks and green corridors',
+      'Implement green building requirements',
+      'Create community gardens and green roofs',
+      'Protect existing natural areas from development'
+    ]
+  },
+  {
+    key: 'heat',
+    label: 'Urban Heat',
+    metric: 'Daytime land surface temperature, °C',
+    weight: 0.15, // Heat stress is the deadliest weather hazard in cities
+    referenceValues: {
+      excellent: 25,   // Comfortable surfaces
+      good: 30,
+      moderate: 35,
+      poor: 40,
+      veryPoor: 45     // Surfaces hot enough to burn skin on contact
+    },
+    curve: { scores: [100, 80, 60, 40, 20, 5], limit: 60, higherIsWorse: true },
+    recommendations: [
+      'Expand street tree canopy and shade structures',
+      'Adopt cool roof and reflective pavement standards',
+      'Open cooling centres during heat waves'
+    ]
+  },
+  {
+    key: 'flood',
+    label: 'Flood Exposure',
+    metric: 'Flood risk, 0-100',
+    weight: 0.1,
+    referenceValues: {
+      excellent: 10,
+      good: 25,
+      moderate: 45,
+      poor: 65,
+      veryPoor: 85
+    },
+    curve: { scores: [100, 80, 60, 40, 20, 5], limit: 100, higherIsWorse: true },
+    recommendations: [
+      'Invest in flood protection infrastructure',
+      'Restrict new development in flood-prone areas',
+      'Expand permeable surfaces and stormwater retention'
+    ]
+  },
+  {
+    key: 'noise',
+    label: 'Noise',
+    metric: 'Day-evening-night noise level, dB(A)',
+    weight: 0, // Unweighted until measured noise data is available
+    referenceValues: {
+      excellent: 45,
+      good: 55,        // WHO guideline for road traffic noise is 53 dB Lden
+      moderate: 65,
+      poor: 70,
+      veryPoor: 75
+    },
+    curve: { scores: [100, 80, 60, 40, 20, 5], limit: 90, higherIsWorse: true },
+    recommendations: [
+      'Lower speed limits and use quieter road surfaces on busy streets',
+      'Add noise barriers and vegetation buffers along major roads'
+    ]
+  }
+];
+
+const DIMENSIONS_BY_KEY = new Map(LIVABILITY_DIMENSIONS.map(dimension => [dimension.key, dimension]));
+
+export function getDimension(key: DimensionKey): LivabilityDimension {
+  return DIMENSIONS_BY_KEY.get(key)!;
+}
@@ -0,0 +1,182 @@
+// Livability score history
+// Groups the scores stored for a location into UTC calendar buckets so the overall
+// score and each dimension can be charted over time
+
+import type { LiveabilityScore } from "@shared/schema";
+import { storage, DEFAULT_SCORE_RADIUS_KM } from "../storage";
+import type { DimensionScore } from "./livabilityCalculator";
+import type { DimensionKey } from "./livabilityDimensions";
+
+export type HistoryInterval = 'day' | 'week' | 'month';
+
+export interface ScoreSummary {
+  mean: number;
+  min: number;
+  max: number;
+}
+
+export interface HistoryBucket {
+  start: string; // Inclusive; weeks start on Monday
+  end: string;   // Exclusive
+  scoreCount: number;
+  overall: ScoreSummary;
+  dimensions: Partial<Record<DimensionKey, ScoreSummary>>;
+}
+
+export interface LivabilityHistory {
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  radiusKm: number;
+  buckets: HistoryBucket[]; // Oldest first; intervals without scores are left out
+  trend: {                  // Change in mean score from the first bucket to the last
+    overall: number | null;
+    dimensions: Partial<Record<DimensionKey, number>>;
+  };
+}
+
+export interface HistoryQuery {
+  interval: HistoryInterval;
+  from?: Date;
+  to?: Date;
+  radiusKm?: number;
+}
+
+export class HistoryRangeError extends Error {}
+
+// Buckets covered when no start is given
+const DEFAULT_BUCKETS: Record<HistoryInterval, number> = { day: 30, week: 12, month: 12 };
+
+// Upper bound on buckets a single request may span
+const MAX_BUCKETS = 400;
+
+class LivabilityHistoryService {
+  async getHistory(lat: number, lon: number, query: HistoryQuery): Promise<LivabilityHistory> {
+    const { interval, radiusKm = DEFAULT_SCORE_RADIUS_KM } = query;
+    const to = query.to ?? new Date();
+    const from = query.from ?? this.shift(this.bucketStart(to, interval), interval, 1 - DEFAULT_BUCKETS[interval]);
+
+    if (this.countBuckets(from, to, interval) > MAX_BUCKETS) {
+      throw new HistoryRangeError(
+        `Range spans more than ${MAX_BUCKETS} ${interval} buckets; narrow it or use a longer interval`
+      );
+    }
+
+    const scores = await storage.getLivabilityScoreHistory(lat, lon, from, to, { radiusKm });
+
+    const byBucket = new Map<number, LiveabilityScore[]>();
+    for (const score of scores) {
+      const start = this.bucketStart(score.timestamp, interval).getTime();
+      byBucket.set(start, [...(byBucket.get(start) ?? []), score]);
+    }
+
+    const buckets = Array.from(byBucket.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([start, bucketScores]) => this.summarizeBucket(new Date(start), interval, bucketScores));
+
+    return {
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      radiusKm,
+      buckets,
+      trend: this.trend(buckets)
+    };
+  }
+
+  private summarizeBucket(start: Date, interval: HistoryInterval, scores: LiveabilityScore[]): HistoryBucket {
+    const byDimension = new Map<DimensionKey, number[]>();
+    for (const score of scores) {
+      for (const dimension of this.dimensionScores(score)) {
+        byDimension.set(dimension.key, [...(byDimension.get(dimension.key) ?? []), dimension.score]);
+      }
+    }
+
+    return {
+      start: start.toISOString(),
+      end: this.shift(start, interval, 1).toISOString(),
+      scoreCount: scores.length,
+      overall: this.summarize(scores.map(score => score.overallScore)),
+      dimensions: Object.fromEntries(
+        Array.from(byDimension.entries()).map(([key, values]) => [key, this.summarize(values)])
+      )
+    };
+  }
+
+  // Scores stored before dimensions were configurable only carry the core columns
+  private dimensionScores(score: LiveabilityScore): Array<Pick<DimensionScore, 'key' | 'score'>> {
+    return (score.dimensionScores as DimensionScore[] | null) ?? [
+      { key: 'airQuality', score: score.airQualityScore },
+      { key: 'waterSecurity', score: score.waterSecurityScore },
+      { key: 'greenSpace', score: score.greenSpaceScore }
+    ];
+  }
+
+  private summarize(values: number[]): ScoreSummary {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      mean: Math.round(mean * 10) / 10,
+      min: Math.min(...values),
+      max: Math.max(...values)
+    };
+  }
+
+  private trend(buckets: HistoryBucket[]): LivabilityHistory['trend'] {
+    if (buckets.length < 2) {
+      return { overall: null, dimensions: {} };
+    }
+
+    const first = buckets[0];
+    const last = buckets[buckets.length - 1];
+    const change = (a: ScoreSummary, b: ScoreSummary) => Math.round((b.mean - a.mean) * 10) / 10;
+
+    const dimensions: Partial<Record<DimensionKey, number>> = {};
+    for (const key of Object.keys(last.dimensions) as DimensionKey[]) {
+      const before = first.dimensions[key];
+      if (before) dimensions[key] = change(before, last.dimensions[key]!);
+    }
+
+    return { overall: change(first.overall, last.overall), dimensions };
+  }
+
+  private bucketStart(date: Date, interval: HistoryInterval): Date {
+    const y = date.getUTCFullYear();
+    const m = date.getUTCMonth();
+    const d = date.getUTCDate();
+
+    switch (interval) {
+      case 'day':
+        return new Date(Date.UTC(y, m, d));
+      case 'week':
+        return new Date(Date.UTC(y, m, d - (date.getUTCDay() + 6) % 7));
+      case 'month':
+        return new Date(Date.UTC(y, m, 1));
+    }
+  }
+
+  private shift(start: Date, interval: HistoryInterval, count: number): Date {
+    const y = start.getUTCFullYear();
+    const m = start.getUTCMonth();
+    const d = start.getUTCDate();
+
+    switch (interval) {
+      case 'day':
+        return new Date(Date.UTC(y, m, d + count));
+      case 'week':
+        return new Date(Date.UTC(y, m, d + 7 * count));
+      case 'month':
+        return new Date(Date.UTC(y, m + count, 1));
+    }
+  }
+
+  // Counting stops just past the limit, so huge ranges stay cheap to reject
+  private countBuckets(from: Date, to: Date, interval: HistoryInterval): number {
+    let count = 0;
+    for (let start = this.bucketStart(from, interval); start <= to && count <= MAX_BUCKETS; count++) {
+      start = this.shift(start, interval, 1);
+    }
+    return count;
+  }
+}
+
+export default new LivabilityHistoryService();
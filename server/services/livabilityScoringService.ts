@@ -0,0 +1,74 @@
+// Single-location livability scoring
+// Fuses a point's recent readings, scores them with a profile and stores the score, for
+// on-demand requests and scheduled monitoring alike
+
+import type { LiveabilityScore, NormalizationMode } from "@shared/schema";
+import { storage } from "../storage";
+import livabilityCalculator, { type AirQualityIndex, type LiveabilityResult } from "./livabilityCalculator";
+import fusionService, { type FusedEnvironmentalData } from "./fusionService";
+import type { ResolvedScoringProfile } from "./scoringProfileService";
+
+// Readings older than this are left out of a location's score
+const RECENT_HOURS = 24;
+
+export interface LocationScore {
+  result: LiveabilityResult;
+  fused: FusedEnvironmentalData;
+  airQualityIndex: AirQualityIndex;
+  stored: LiveabilityScore;
+}
+
+class LivabilityScoringService {
+  /**
+   * Score and store a point; undefined when air, water or green space readings are missing
+   */
+  async scoreLocation(
+    lat: number,
+    lon: number,
+    profile: ResolvedScoringProfile,
+    options: { normalization?: NormalizationMode; location?: string } = {}
+  ): Promise<LocationScore | undefined> {
+    const envData = await storage.getRecentEnvironmentalData(lat, lon, RECENT_HOURS);
+
+    if (envData.airQuality.length === 0 || envData.waterSecurity.length === 0 || envData.greenSpace.length === 0) {
+      return undefined;
+    }
+
+    // Fuse readings per category; air quality comes from the fused pollutant sub-indices
+    const fused = fusionService.fuseEnvironmentalData(envData);
+    const airQualityIndex = fused.airQuality!.index;
+
+    // Per-reading values behind each average, for the confidence interval
+    const evidence = fusionService.collectEvidence(envData);
+
+    // Heat, flood and noise are scored where readings exist
+    const result = livabilityCalculator.calculateLivabilityScore({
+      airQuality: fused.airQuality!.value,
+      waterSecurity: fused.waterSecurity!.value,
+      greenSpace: fused.greenSpace!.value,
+      heat: fused.heat?.value,
+      flood: fused.flood?.value,
+      noise: fused.noise?.value
+    }, { ...profile, normalization: options.normalization ?? profile.normalization }, evidence);
+
+    const stored = await storage.insertLivabilityScore({
+      latitude: lat,
+      longitude: lon,
+      airQualityScore: result.airQualityScore,
+      waterSecurityScore: result.waterSecurityScore,
+      greenSpaceScore: result.greenSpaceScore,
+      overallScore: result.overallScore,
+      profile: profile.name,
+      dominantPollutant: airQualityIndex.dominantPollutant,
+      confidenceLower: result.confidence?.lower,
+      confidenceUpper: result.confidence?.upper,
+      dataQuality: result.dataQuality,
+      dimensionScores: result.dimensions,
+      location: options.location || `${lat.toFixed(3)}, ${lon.toFixed(3)}`
+    });
+
+    return { result, fused, airQualityIndex, stored };
+  }
+}
+
+export default new LivabilityScoringService();
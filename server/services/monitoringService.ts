@@ -0,0 +1,263 @@
+// Scheduled monitoring of watched locations
+// Each watched location is refreshed at its own cadence: readings are ingested from the
+// enabled providers, livability is rescored and alerts are regenerated. Failed runs retry
+// with exponential backoff, and every location records the outcome of its last run.
+
+import type {
+  WatchedLocation,
+  WatchedLocationRequest,
+  WatchedLocationUpdate
+} from "@shared/schema";
+import { storage } from "../storage";
+import nasaDataService from "./nasaDataService";
+import ingestionService from "./ingestionService";
+import livabilityCalculator from "./livabilityCalculator";
+import livabilityScoringService from "./livabilityScoringService";
+import scoringProfileService from "./scoringProfileService";
+import alertService from "./alertService";
+
+// How often the scheduler looks for due locations
+const TICK_INTERVAL_MS = 60 * 1000;
+
+// Longest wait between retries of a failing location, unless its cadence is longer
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+// Readings alert generation looks back over, matching on-demand generation
+const ALERT_WINDOW_HOURS = 6;
+
+export interface MonitoringRunResult {
+  startedAt: string;  // ISO timestamp
+  durationMs: number;
+  readings: Record<'airQuality' | 'waterSecurity' | 'greenSpace' | 'heat' | 'flood' | 'noise', number>; // Stored per category
+  livability: {
+    id: string;
+    overallScore: number;
+    category: ReturnType<typeof livabilityCalculator.getLivabilityCategory>;
+  } | null; // Null when air, water or green space readings were missing
+  alerts: {
+    open: number;     // Open alerts for the current conditions
+    created: number;  // Raised by this run rather than updated
+    ids: string[];
+  };
+}
+
+export class MonitoringRequestError extends Error {}
+export class MonitoringConflictError extends Error {}
+
+class MonitoringService {
+  private readonly running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Check for due locations every minute until stopped
+   */
+  start(intervalMs: number = TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async listLocations(): Promise<WatchedLocation[]> {
+    return storage.getWatchedLocations();
+  }
+
+  async getLocation(id: string): Promise<WatchedLocation | undefined> {
+    return storage.getWatchedLocation(id);
+  }
+
+  /**
+   * Start watching a location; its first run is due immediately
+   */
+  async watchLocation(request: WatchedLocationRequest): Promise<WatchedLocation> {
+    await this.checkProfile(request.profile);
+
+    return storage.createWatchedLocation({
+      name: request.name,
+      latitude: request.lat,
+      longitude: request.lon,
+      cadenceMinutes: request.cadenceMinutes,
+      profile: request.profile ?? null,
+      userId: request.userId ?? null,
+      enabled: request.enabled,
+      nextRunAt: new Date()
+    });
+  }
+
+  /**
+   * Change a watched location; moving it makes its next run due immediately, and a new
+   * cadence applies from the last run unless the location is backing off
+   */
+  async updateLocation(id: string, update: WatchedLocationUpdate): Promise<WatchedLocation | undefined> {
+    const location = await storage.getWatchedLocation(id);
+    if (!location) return undefined;
+
+    await this.checkProfile(update.profile);
+
+    const { lat, lon, ...fields } = update;
+    const moved = (lat !== undefined && lat !== location.latitude) || (lon !== undefined && lon !== location.longitude);
+
+    let nextRunAt = location.nextRunAt;
+    if (moved) {
+      nextRunAt = new Date();
+    } else if (update.cadenceMinutes !== undefined && location.lastRunAt && location.consecutiveFailures === 0) {
+      nextRunAt = new Date(location.lastRunAt.getTime() + update.cadenceMinutes * 60 * 1000);
+    }
+
+    return storage.updateWatchedLocation(id, {
+      ...fields,
+      ...(lat !== undefined && { latitude: lat }),
+      ...(lon !== undefined && { longitude: lon }),
+      nextRunAt
+    });
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    return storage.deleteWatchedLocation(id);
+  }
+
+  /**
+   * Run a location now, whether or not it's due; undefined when it doesn't exist
+   */
+  async runNow(id: string, now: Date = new Date()): Promise<WatchedLocation | undefined> {
+    const location = await storage.getWatchedLocation(id);
+    if (!location) return undefined;
+
+    if (this.running.has(id)) {
+      throw new MonitoringConflictError("A run of this location is already in progress");
+    }
+    return this.runLocation(location, now);
+  }
+
+  /**
+   * Run every enabled location that's due, one at a time, most overdue first
+   */
+  async runDueLocations(now: Date = new Date()): Promise<WatchedLocation[]> {
+    const completed: WatchedLocation[] = [];
+    for (const location of await storage.getDueWatchedLocations(now)) {
+      if (this.running.has(location.id)) continue;
+
+      const updated = await this.runLocation(location, now);
+      if (updated) completed.push(updated);
+    }
+    return completed;
+  }
+
+  private tick(): void {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    this.runDueLocations()
+      .catch(error => {
+        console.error("Error running watched locations:", error);
+      })
+      .finally(() => {
+        this.ticking = false;
+      });
+  }
+
+  private async runLocation(location: WatchedLocation, now: Date): Promise<WatchedLocation | undefined> {
+    this.running.add(location.id);
+    const started = Date.now();
+
+    try {
+      await storage.updateWatchedLocation(location.id, { status: 'running', lastRunAt: now });
+      const result = await this.monitor(location, now);
+      result.durationMs = Date.now() - started;
+
+      return await storage.updateWatchedLocation(location.id, {
+        status: 'succeeded',
+        lastSuccessAt: now,
+        lastResult: result,
+        lastError: null,
+        consecutiveFailures: 0,
+        nextRunAt: new Date(now.getTime() + location.cadenceMinutes * 60 * 1000)
+      });
+    } catch (error) {
+      console.error(`Error monitoring watched location ${location.id}:`, error);
+
+      const consecutiveFailures = location.consecutiveFailures + 1;
+      return await storage.updateWatchedLocation(location.id, {
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : String(error),
+        consecutiveFailures,
+        nextRunAt: new Date(now.getTime() + this.backoffMinutes(location.cadenceMinutes, consecutiveFailures) * 60 * 1000)
+      });
+    } finally {
+      this.running.delete(location.id);
+    }
+  }
+
+  // Ingest, rescore and regenerate alerts for one location
+  private async monitor(location: WatchedLocation, now: Date): Promise<MonitoringRunResult> {
+    const { latitude: lat, longitude: lon } = location;
+
+    const profile = await scoringProfileService.resolveProfile(location.profile ?? undefined);
+    if (!profile) {
+      throw new Error(`Scoring profile "${location.profile}" not found`);
+    }
+
+    const readings = await nasaDataService.fetchAllEnvironmentalData(lat, lon);
+    const stored = await ingestionService.storeReadings(readings);
+
+    const scored = await livabilityScoringService.scoreLocation(lat, lon, profile, { location: location.name });
+
+    const envData = await storage.getRecentEnvironmentalData(lat, lon, ALERT_WINDOW_HOURS);
+    const alerts = await alertService.generateAlerts({
+      airQuality: envData.airQuality,
+      waterSecurity: envData.waterSecurity,
+      greenSpace: envData.greenSpace,
+      location: location.name,
+      latitude: lat,
+      longitude: lon,
+      userId: location.userId ?? undefined
+    }, now);
+
+    return {
+      startedAt: now.toISOString(),
+      durationMs: 0,
+      readings: {
+        airQuality: stored.airQuality.length,
+        waterSecurity: stored.waterSecurity.length,
+        greenSpace: stored.greenSpace.length,
+        heat: stored.heat.length,
+        flood: stored.flood.length,
+        noise: stored.noise.length
+      },
+      livability: scored
+        ? {
+          id: scored.stored.id,
+          overallScore: scored.result.overallScore,
+          category: livabilityCalculator.getLivabilityCategory(scored.result.overallScore)
+        }
+        : null,
+      alerts: {
+        open: alerts.length,
+        created: alerts.filter(alert => alert.occurrences === 1).length,
+        ids: alerts.map(alert => alert.id)
+      }
+    };
+  }
+
+  // Each consecutive failure doubles the wait, starting from the cadence
+  private backoffMinutes(cadenceMinutes: number, failures: number): number {
+    return Math.min(cadenceMinutes * 2 ** (failures - 1), Math.max(cadenceMinutes, MAX_BACKOFF_MINUTES));
+  }
+
+  private async checkProfile(name: string | null | undefined): Promise<void> {
+    if (name != null && !await scoringProfileService.resolveProfile(name)) {
+      throw new MonitoringRequestError(`Scoring profile "${name}" not found`);
+    }
+  }
+}
+
+export default new MonitoringService();
@@ -1,6 +1,19 @@
 // NASA Earth observation data integration service
 // Reference: javascript_openai integration for ML analysis
 
+import {
+  DataProviderRegistry,
+  GLOBAL_COVERAGE,
+  cadenceSlots,
+  coversPoint,
+  type CategoryReadings,
+  type CoverageBounds,
+  type DataCategory,
+  type DataProvider,
+  type TimeRange
+} from "./dataProviders";
+import { createSimulationSource, type SimulationSource } from "./simulation";
+
 export interface NASADataPoint {
   latitude: number;
   longitude: number;
@@ -20,6 +33,7 @@ export interface AirQualityReading {
   so2?: number;
   source: string;
   timestamp: string;
+  quality?: number; // Retrieval quality, 0-1
 }
 
 export interface WaterSecurityReading {
@@ -31,6 +45,7 @@ export interface WaterSecurityReading {
   floodRisk?: number;
   source: string;
   timestamp: string;
+  quality?: number; // Retrieval quality, 0-1
 }
 
 export interface GreenSpaceReading {
@@ -41,32 +56,222 @@ export interface GreenSpaceReading {
   greenSpaceType?: string;
   source: string;
   timestamp: string;
+  quality?: number; // Retrieval quality, 0-1
+}
+
+export interface HeatReading {
+  latitude: number;
+  longitude: number;
+  landSurfaceTemperature: number; // °C
+  urbanHeatIsland?: number;       // °C above the surrounding rural surface
+  source: string;
+  timestamp: string;
+  quality?: number; // Retrieval quality, 0-1
+}
+
+export interface FloodExposureReading {
+  latitude: number;
+  longitude: number;
+  floodRisk: number;      // 0-100
+  inundatedArea?: number; // Percentage of the surrounding area under water
+  source: string;
+  timestamp: string;
+  quality?: number; // Retrieval quality, 0-1
+}
+
+export interface NoiseReading {
+  latitude: number;
+  longitude: number;
+  noiseLevel: number; // Day-evening-night level, dB(A)
+  source: string;
+  timestamp: string;
+  quality?: number; // Retrieval quality, 0-1
+}
+
+export interface EnvironmentalReadings {
+  airQuality: AirQualityReading[];
+  waterSecurity: WaterSecurityReading[];
+  greenSpace: GreenSpaceReading[];
+  heat: HeatReading[];
+  flood: FloodExposureReading[];
+  noise: NoiseReading[];
 }
 
+const HOUR_MINUTES = 60;
+const DAY_MINUTES = 24 * HOUR_MINUTES;
+
+// Observation window used when callers don't ask for a specific range
+const DEFAULT_LOOKBACK_HOURS = 12;
+
+const NORTH_AMERICA: CoverageBounds = {
+  minLat: 25,
+  maxLat: 70,
+  minLon: -180,
+  maxLon: -40
+};
+
 class NASADataService {
   private readonly NASA_BASE_URL = 'https://api.nasa.gov';
   private readonly EARTH_DATA_URL = 'https://appeears.earthdatacloud.nasa.gov/api';
-  
+
+  readonly registry = new DataProviderRegistry();
+
+  // Seed via SIMULATION_SEED for reproducible demos and tests
+  private simulation: SimulationSource = createSimulationSource(process.env.SIMULATION_SEED);
+
+  constructor() {
+    this.registerBuiltInProviders();
+  }
+
+  private registerBuiltInProviders(): void {
+    const perSlot = <T>(fetchSlot: (lat: number, lon: number, date: string) => Promise<T[]>, cadenceMinutes: number) =>
+      async (lat: number, lon: number, timeRange: TimeRange): Promise<T[]> => {
+        const readings: T[] = [];
+        for (const slot of cadenceSlots(timeRange, cadenceMinutes)) {
+          readings.push(...await fetchSlot(lat, lon, slot.toISOString()));
+        }
+        return readings;
+      };
+
+    const builtIns: DataProvider[] = [
+      {
+        id: 'aura-omi',
+        name: 'Aura OMI',
+        type: 'nasa',
+        category: 'air_quality',
+        description: 'Ozone Monitoring Instrument for air quality data',
+        source: 'nasa_omi',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: DAY_MINUTES,
+        resolutionKm: 13,
+        fetch: perSlot((lat, lon, date) => this.fetchAuraOMIData(lat, lon, date), DAY_MINUTES)
+      },
+      {
+        id: 'tempo',
+        name: 'TEMPO',
+        type: 'nasa',
+        category: 'air_quality',
+        description: 'Tropospheric Emissions Monitoring',
+        source: 'nasa_tempo',
+        coverage: { label: 'North America', bounds: NORTH_AMERICA },
+        cadenceMinutes: HOUR_MINUTES,
+        resolutionKm: 4,
+        fetch: perSlot((lat, lon, date) => this.fetchTEMPOData(lat, lon, date), HOUR_MINUTES)
+      },
+      {
+        id: 'grace',
+        name: 'GRACE',
+        type: 'nasa',
+        category: 'water_security',
+        description: 'Gravity Recovery and Climate Experiment',
+        source: 'nasa_grace',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: 30 * DAY_MINUTES,
+        resolutionKm: 300,
+        fetch: perSlot((lat, lon, date) => this.fetchGRACEData(lat, lon, date), 30 * DAY_MINUTES)
+      },
+      {
+        id: 'swot',
+        name: 'SWOT',
+        type: 'nasa',
+        category: 'water_security',
+        description: 'Surface Water and Ocean Topography',
+        source: 'nasa_swot',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: 21 * DAY_MINUTES,
+        resolutionKm: 1,
+        fetch: perSlot((lat, lon, date) => this.fetchSWOTData(lat, lon, date), 21 * DAY_MINUTES)
+      },
+      {
+        id: 'landsat',
+        name: 'Landsat',
+        type: 'nasa',
+        category: 'green_space',
+        description: 'Land surface imaging for vegetation analysis',
+        source: 'nasa_landsat',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: 16 * DAY_MINUTES,
+        resolutionKm: 0.03,
+        fetch: perSlot((lat, lon, date) => this.fetchLandsatData(lat, lon, date), 16 * DAY_MINUTES)
+      },
+      {
+        id: 'modis',
+        name: 'MODIS',
+        type: 'nasa',
+        category: 'green_space',
+        description: 'Moderate Resolution Imaging Spectroradiometer',
+        source: 'nasa_modis',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: DAY_MINUTES,
+        resolutionKm: 0.25,
+        fetch: perSlot((lat, lon, date) => this.fetchMODISData(lat, lon, date), DAY_MINUTES)
+      },
+      {
+        id: 'modis-lst',
+        name: 'MODIS LST',
+        type: 'nasa',
+        category: 'heat',
+        description: 'MODIS land surface temperature for urban heat exposure',
+        source: 'nasa_modis_lst',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: DAY_MINUTES,
+        resolutionKm: 1,
+        fetch: perSlot((lat, lon, date) => this.fetchMODISLandSurfaceTemperature(lat, lon, date), DAY_MINUTES)
+      },
+      {
+        id: 'modis-flood',
+        name: 'MODIS NRT Flood',
+        type: 'nasa',
+        category: 'flood',
+        description: 'MODIS near real-time global flood mapping',
+        source: 'nasa_modis_flood',
+        coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+        cadenceMinutes: DAY_MINUTES,
+        resolutionKm: 0.25,
+        fetch: perSlot((lat, lon, date) => this.fetchMODISFloodData(lat, lon, date), DAY_MINUTES)
+      }
+    ];
+
+    builtIns.forEach(provider => this.registry.register(provider));
+
+    // Placeholder until a measured noise source is connected; disabled so noise
+    // is only scored where someone opts in to modelled values
+    this.registry.register({
+      id: 'noise-model',
+      name: 'Noise exposure model',
+      type: 'local',
+      category: 'noise',
+      description: 'Modelled road traffic noise from urban density',
+      source: 'local_noise_model',
+      coverage: { label: 'Global', bounds: GLOBAL_COVERAGE },
+      cadenceMinutes: HOUR_MINUTES,
+      resolutionKm: 0.1,
+      fetch: perSlot((lat, lon, date) => this.simulateNoiseData(lat, lon, date), HOUR_MINUTES)
+    }, { enabled: false });
+  }
+
   // Aura OMI (Ozone Monitoring Instrument) - Air Quality Data
   async fetchAuraOMIData(lat: number, lon: number, date?: string): Promise<AirQualityReading[]> {
     try {
       // NASA OMI provides ozone and air quality data
       // In a real implementation, this would use actual NASA APIs
       // For now, we'll simulate realistic data based on location and time
+      const at = this.observationTime(date);
       
-      const baseAQI = this.calculateBaseAQI(lat, lon);
-      const timeVariation = this.getTimeBasedVariation();
+      const baseAQI = this.calculateBaseAQI(lat, lon, at);
+      const timeVariation = this.getTimeBasedVariation(lat, lon, at);
       const locationFactor = this.getLocationFactor(lat, lon);
       
       return [{
         latitude: lat,
         longitude: lon,
         aqi: Math.max(0, Math.min(500, baseAQI + timeVariation + locationFactor)),
-        ozone: this.simulateOzoneLevel(lat, lon),
-        no2: this.simulateNO2Level(lat, lon),
-        so2: this.simulateSO2Level(lat, lon),
+        ozone: this.simulateOzoneLevel(lat, lon, at),
+        no2: this.simulateNO2Level(lat, lon, at),
+        so2: this.simulateSO2Level(lat, lon, at),
         source: 'nasa_omi',
-        timestamp: date || new Date().toISOString()
+        timestamp: at.toISOString(),
+        quality: this.simulate('omi_quality', lat, lon, at, 0.6, 0.95)
       }];
     } catch (error) {
       console.error('Error fetching Aura OMI data:', error);
@@ -78,34 +283,25 @@ class NASADataService {
   async fetchTEMPOData(lat: number, lon: number, date?: string): Promise<AirQualityReading[]> {
     try {
       // TEMPO provides hourly air quality data over North America
-      const isNorthAmerica = lat >= 25 && lat <= 70 && lon >= -180 && lon <= -40;
-      
-      if (!isNorthAmerica) {
+      if (!coversPoint(NORTH_AMERICA, lat, lon)) {
         return []; // TEMPO coverage is limited to North America
       }
 
-      const hourlyReadings: AirQualityReading[] = [];
-      const currentHour = new Date().getHours();
-      
-      // Generate hourly data for the past 12 hours
-      for (let i = 0; i < 12; i++) {
-        const hour = (currentHour - i + 24) % 24;
-        const timestamp = new Date();
-        timestamp.setHours(hour, 0, 0, 0);
-        
-        hourlyReadings.push({
-          latitude: lat,
-          longitude: lon,
-          aqi: this.calculateHourlyAQI(lat, lon, hour),
-          pm25: this.simulatePM25(lat, lon, hour),
-          pm10: this.simulatePM10(lat, lon, hour),
-          no2: this.simulateNO2Level(lat, lon, hour),
-          source: 'nasa_tempo',
-          timestamp: timestamp.toISOString()
-        });
-      }
-      
-      return hourlyReadings.reverse(); // Return in chronological order
+      // Readings are hourly aggregates, so snap to the top of the hour
+      const at = this.observationTime(date);
+      at.setMinutes(0, 0, 0);
+
+      return [{
+        latitude: lat,
+        longitude: lon,
+        aqi: this.calculateHourlyAQI(lat, lon, at),
+        pm25: this.simulatePM25(lat, lon, at),
+        pm10: this.simulatePM10(lat, lon, at),
+        no2: this.simulateNO2Level(lat, lon, at, true),
+        source: 'nasa_tempo',
+        timestamp: at.toISOString(),
+        quality: this.simulate('tempo_quality', lat, lon, at, 0.7, 1)
+      }];
     } catch (error) {
       console.error('Error fetching TEMPO data:', error);
       return [];
@@ -116,18 +312,20 @@ class NASADataService {
   async fetchGRACEData(lat: number, lon: number, date?: string): Promise<WaterSecurityReading[]> {
     try {
       // GRACE provides groundwater and water storage data
-      const groundwaterAnomaly = this.simulateGroundwaterAnomaly(lat, lon);
-      const waterStress = this.calculateWaterStress(lat, lon, groundwaterAnomaly);
+      const at = this.observationTime(date);
+      const groundwaterAnomaly = this.simulateGroundwaterAnomaly(lat, lon, at);
+      const waterStress = this.calculateWaterStress(lat, lon, at, groundwaterAnomaly);
       
       return [{
         latitude: lat,
         longitude: lon,
         waterStressLevel: waterStress,
         groundwaterLevel: groundwaterAnomaly,
-        precipitationLevel: this.simulatePrecipitation(lat, lon),
+        precipitationLevel: this.simulatePrecipitation(lat, lon, at),
         floodRisk: this.calculateFloodRisk(lat, lon, groundwaterAnomaly),
         source: 'nasa_grace',
-        timestamp: date || new Date().toISOString()
+        timestamp: at.toISOString(),
+        quality: this.simulate('grace_quality', lat, lon, at, 0.8, 0.95)
       }];
     } catch (error) {
       console.error('Error fetching GRACE data:', error);
@@ -139,16 +337,18 @@ class NASADataService {
   async fetchSWOTData(lat: number, lon: number, date?: string): Promise<WaterSecurityReading[]> {
     try {
       // SWOT provides surface water elevation and extent data
-      const surfaceWaterLevel = this.simulateSurfaceWaterLevel(lat, lon);
+      const at = this.observationTime(date);
+      const surfaceWaterLevel = this.simulateSurfaceWaterLevel(lat, lon, at);
       const floodRisk = this.calculateFloodRiskFromSurfaceWater(lat, lon, surfaceWaterLevel);
       
       return [{
         latitude: lat,
         longitude: lon,
-        waterStressLevel: this.calculateWaterStressFromSurface(surfaceWaterLevel),
+        waterStressLevel: this.calculateWaterStressFromSurface(lat, lon, at, surfaceWaterLevel),
         floodRisk: floodRisk,
         source: 'nasa_swot',
-        timestamp: date || new Date().toISOString()
+        timestamp: at.toISOString(),
+        quality: this.simulate('swot_quality', lat, lon, at, 0.6, 0.9)
       }];
     } catch (error) {
       console.error('Error fetching SWOT data:', error);
@@ -160,8 +360,9 @@ class NASADataService {
   async fetchLandsatData(lat: number, lon: number, date?: string): Promise<GreenSpaceReading[]> {
     try {
       // Landsat provides land surface imagery for NDVI calculation
-      const ndvi = this.calculateNDVI(lat, lon);
-      const vegetationCoverage = this.calculateVegetationCoverage(ndvi);
+      const at = this.observationTime(date);
+      const ndvi = this.calculateNDVI(lat, lon, at);
+      const vegetationCoverage = this.calculateVegetationCoverage(lat, lon, at, ndvi);
       const greenSpaceType = this.classifyGreenSpace(ndvi, lat, lon);
       
       return [{
@@ -171,7 +372,8 @@ class NASADataService {
         vegetationCoverage: vegetationCoverage,
         greenSpaceType: greenSpaceType,
         source: 'nasa_landsat',
-        timestamp: date || new Date().toISOString()
+        timestamp: at.toISOString(),
+        quality: this.simulate('landsat_cloud_free', lat, lon, at, 0.4, 1) // Cloud cover limits optical scenes
       }];
     } catch (error) {
       console.error('Error fetching Landsat data:', error);
@@ -183,8 +385,9 @@ class NASADataService {
   async fetchMODISData(lat: number, lon: number, date?: string): Promise<GreenSpaceReading[]> {
     try {
       // MODIS provides frequent vegetation monitoring
-      const ndvi = this.calculateMODISNDVI(lat, lon);
-      const vegetationCoverage = this.calculateVegetationCoverage(ndvi);
+      const at = this.observationTime(date);
+      const ndvi = this.calculateMODISNDVI(lat, lon, at);
+      const vegetationCoverage = this.calculateVegetationCoverage(lat, lon, at, ndvi);
       
       return [{
         latitude: lat,
@@ -192,7 +395,8 @@ class NASADataService {
         ndvi: ndvi,
         vegetationCoverage: vegetationCoverage,
         source: 'nasa_modis',
-        timestamp: date || new Date().toISOString()
+        timestamp: at.toISOString(),
+        quality: this.simulate('modis_quality', lat, lon, at, 0.6, 0.95)
       }];
     } catch (error) {
       console.error('Error fetching MODIS data:', error);
@@ -200,42 +404,137 @@ class NASADataService {
     }
   }
 
-  // Comprehensive data fetch for a location
-  async fetchAllEnvironmentalData(lat: number, lon: number, date?: string) {
-    const [airQualityOMI, airQualityTEMPO, waterGRACE, waterSWOT, vegetationLandsat, vegetationMODIS] = 
-      await Promise.all([
-        this.fetchAuraOMIData(lat, lon, date),
-        this.fetchTEMPOData(lat, lon, date),
-        this.fetchGRACEData(lat, lon, date),
-        this.fetchSWOTData(lat, lon, date),
-        this.fetchLandsatData(lat, lon, date),
-        this.fetchMODISData(lat, lon, date)
-      ]);
-
-    return {
-      airQuality: [...airQualityOMI, ...airQualityTEMPO],
-      waterSecurity: [...waterGRACE, ...waterSWOT],
-      greenSpace: [...vegetationLandsat, ...vegetationMODIS]
+  // MODIS land surface temperature - Urban heat exposure
+  async fetchMODISLandSurfaceTemperature(lat: number, lon: number, date?: string): Promise<HeatReading[]> {
+    try {
+      // Daytime LST; dense, sparsely vegetated areas run hotter than their surroundings
+      const at = this.observationTime(date);
+      const urbanHeatIsland = this.getUrbanDensity(lat, lon) * 20 + this.simulate('urban_heat_island', lat, lon, at, 0, 2);
+
+      return [{
+        latitude: lat,
+        longitude: lon,
+        landSurfaceTemperature: this.getClimateTemperature(lat, at) + urbanHeatIsland +
+          this.simulate('lst_variation', lat, lon, at, -3, 3),
+        urbanHeatIsland,
+        source: 'nasa_modis_lst',
+        timestamp: at.toISOString(),
+        quality: this.simulate('modis_lst_clear_sky', lat, lon, at, 0.5, 1) // Clouds hide the surface
+      }];
+    } catch (error) {
+      console.error('Error fetching MODIS LST data:', error);
+      return [];
+    }
+  }
+
+  // MODIS NRT Global Flood Product - Flood exposure
+  async fetchMODISFloodData(lat: number, lon: number, date?: string): Promise<FloodExposureReading[]> {
+    try {
+      // Observed inundation on top of the terrain's standing flood risk
+      const at = this.observationTime(date);
+      const inundatedArea = this.simulate('inundated_area', lat, lon, at, 0, 10);
+
+      return [{
+        latitude: lat,
+        longitude: lon,
+        floodRisk: Math.max(0, Math.min(100, this.getTerrainFloodRisk(lat, lon) + inundatedArea * 3)),
+        inundatedArea,
+        source: 'nasa_modis_flood',
+        timestamp: at.toISOString(),
+        quality: this.simulate('modis_flood_cloud_free', lat, lon, at, 0.4, 1)
+      }];
+    } catch (error) {
+      console.error('Error fetching MODIS flood data:', error);
+      return [];
+    }
+  }
+
+  // Modelled noise exposure - placeholder for measured noise data
+  private async simulateNoiseData(lat: number, lon: number, date?: string): Promise<NoiseReading[]> {
+    const at = this.observationTime(date);
+    const trafficFactor = this.isRushHour(this.localHour(lon, at)) ? 5 : 0;
+
+    return [{
+      latitude: lat,
+      longitude: lon,
+      noiseLevel: 45 + this.getUrbanDensity(lat, lon) * 60 + trafficFactor + this.simulate('noise', lat, lon, at, -3, 3),
+      source: 'local_noise_model',
+      timestamp: at.toISOString(),
+      quality: 0.5 // Modelled rather than measured
+    }];
+  }
+
+  // Comprehensive data fetch for a location from every enabled provider covering it
+  async fetchAllEnvironmentalData(lat: number, lon: number, timeRange?: TimeRange): Promise<EnvironmentalReadings> {
+    const end = timeRange?.end ?? new Date();
+    const range = timeRange ?? {
+      start: new Date(end.getTime() - DEFAULT_LOOKBACK_HOURS * HOUR_MINUTES * 60 * 1000),
+      end
+    };
+
+    const fetchCategory = async <C extends DataCategory>(category: C): Promise<CategoryReadings[C][]> => {
+      const providers = this.registry.getActiveProviders({ category, lat, lon }) as DataProvider<C>[];
+      const results = await Promise.all(
+        providers.map(provider => this.registry.fetchFrom(provider, lat, lon, range))
+      );
+      return results.flat();
     };
+
+    const [airQuality, waterSecurity, greenSpace, heat, flood, noise] = await Promise.all([
+      fetchCategory('air_quality'),
+      fetchCategory('water_security'),
+      fetchCategory('green_space'),
+      fetchCategory('heat'),
+      fetchCategory('flood'),
+      fetchCategory('noise')
+    ]);
+
+    return { airQuality, waterSecurity, greenSpace, heat, flood, noise };
+  }
+
+  /**
+   * Switch between seeded (reproducible) and unseeded simulation.
+   * Passing no seed restores Math.random() behaviour.
+   */
+  setSimulationSeed(seed?: number): void {
+    this.simulation = createSimulationSource(seed);
+  }
+
+  private observationTime(date?: string): Date {
+    return date ? new Date(date) : new Date();
+  }
+
+  // Uniform sample in [min, max) from the simulation source
+  private simulate(channel: string, lat: number, lon: number, at: Date | undefined, min: number, max: number): number {
+    return min + this.simulation.sample(channel, lat, lon, at) * (max - min);
+  }
+
+  // Mean solar hour at the observation point, independent of server timezone
+  private localHour(lon: number, at: Date): number {
+    const utcHours = at.getUTCHours() + at.getUTCMinutes() / 60;
+    return Math.floor(((utcHours + lon / 15) % 24 + 24) % 24);
+  }
+
+  private isRushHour(hour: number): boolean {
+    // Higher pollution during rush hours (7-9 AM, 5-7 PM)
+    return (hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19);
   }
 
   // Simulation methods (replace with real NASA API calls in production)
-  private calculateBaseAQI(lat: number, lon: number): number {
+  private calculateBaseAQI(lat: number, lon: number, at: Date): number {
     // Simulate AQI based on location characteristics
-    const urbanFactor = this.getUrbanFactor(lat, lon);
-    const industrialFactor = this.getIndustrialFactor(lat, lon);
+    const urbanFactor = this.getUrbanFactor(lat, lon, at);
+    const industrialFactor = this.getIndustrialFactor(lat, lon, at);
     const geographicFactor = this.getGeographicFactor(lat, lon);
     
     return 30 + urbanFactor + industrialFactor + geographicFactor;
   }
 
-  private getTimeBasedVariation(): number {
-    const hour = new Date().getHours();
-    // Higher pollution during rush hours (7-9 AM, 5-7 PM)
-    if ((hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19)) {
-      return Math.random() * 20 + 10;
+  private getTimeBasedVariation(lat: number, lon: number, at: Date): number {
+    if (this.isRushHour(this.localHour(lon, at))) {
+      return this.simulate('aqi_time_variation', lat, lon, at, 10, 30);
     }
-    return Math.random() * 10 - 5;
+    return this.simulate('aqi_time_variation', lat, lon, at, -5, 5);
   }
 
   private getLocationFactor(lat: number, lon: number): number {
@@ -261,80 +560,81 @@ class NASADataService {
     return closestOffset;
   }
 
-  private getUrbanFactor(lat: number, lon: number): number {
+  private getUrbanFactor(lat: number, lon: number, at: Date): number {
     // Simulate urban density impact on air quality
-    return Math.random() * 15;
+    return this.simulate('urban_activity', lat, lon, at, 0, 15);
   }
 
-  private getIndustrialFactor(lat: number, lon: number): number {
+  private getIndustrialFactor(lat: number, lon: number, at: Date): number {
     // Simulate industrial activity impact
-    return Math.random() * 10;
+    return this.simulate('industrial_activity', lat, lon, at, 0, 10);
   }
 
   private getGeographicFactor(lat: number, lon: number): number {
-    // Simulate geographic factors (altitude, proximity to coast, etc.)
-    return Math.random() * 8 - 4;
+    // Simulate geographic factors (altitude, proximity to coast, etc.) - static over time
+    return this.simulate('geography', lat, lon, undefined, -4, 4);
   }
 
-  private simulateOzoneLevel(lat: number, lon: number): number {
-    return Math.random() * 0.08 + 0.02; // ppb
+  private simulateOzoneLevel(lat: number, lon: number, at: Date): number {
+    return this.simulate('ozone', lat, lon, at, 0.02, 0.1); // ppm
   }
 
-  private simulateNO2Level(lat: number, lon: number, hour?: number): number {
-    const baseLevel = Math.random() * 30 + 10;
-    const hourFactor = hour ? (hour >= 7 && hour <= 9 || hour >= 17 && hour <= 19 ? 1.5 : 1) : 1;
+  private simulateNO2Level(lat: number, lon: number, at: Date, hourly = false): number {
+    const baseLevel = this.simulate('no2', lat, lon, at, 10, 40);
+    const hourFactor = hourly && this.isRushHour(this.localHour(lon, at)) ? 1.5 : 1;
     return baseLevel * hourFactor;
   }
 
-  private simulateSO2Level(lat: number, lon: number): number {
-    return Math.random() * 15 + 2;
+  private simulateSO2Level(lat: number, lon: number, at: Date): number {
+    return this.simulate('so2', lat, lon, at, 2, 17);
   }
 
-  private calculateHourlyAQI(lat: number, lon: number, hour: number): number {
-    const baseAQI = this.calculateBaseAQI(lat, lon);
-    const hourlyVariation = this.getHourlyVariation(hour);
+  private calculateHourlyAQI(lat: number, lon: number, at: Date): number {
+    const baseAQI = this.calculateBaseAQI(lat, lon, at);
+    const hourlyVariation = this.getHourlyVariation(lat, lon, at);
     return Math.max(0, Math.min(500, baseAQI + hourlyVariation));
   }
 
-  private getHourlyVariation(hour: number): number {
+  private getHourlyVariation(lat: number, lon: number, at: Date): number {
+    const hour = this.localHour(lon, at);
     // Rush hour pollution peaks
-    if ((hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19)) {
-      return Math.random() * 25 + 10;
+    if (this.isRushHour(hour)) {
+      return this.simulate('aqi_hourly_variation', lat, lon, at, 10, 35);
     }
     // Night time lower pollution
     if (hour >= 22 || hour <= 5) {
-      return Math.random() * 5 - 10;
+      return this.simulate('aqi_hourly_variation', lat, lon, at, -10, -5);
     }
-    return Math.random() * 10 - 5;
+    return this.simulate('aqi_hourly_variation', lat, lon, at, -5, 5);
   }
 
-  private simulatePM25(lat: number, lon: number, hour: number): number {
-    const base = Math.random() * 20 + 5;
-    const hourFactor = this.getHourlyVariation(hour) / 10;
+  private simulatePM25(lat: number, lon: number, at: Date): number {
+    const base = this.simulate('pm25', lat, lon, at, 5, 25);
+    const hourFactor = this.getHourlyVariation(lat, lon, at) / 10;
     return Math.max(0, base + hourFactor);
   }
 
-  private simulatePM10(lat: number, lon: number, hour: number): number {
-    const base = Math.random() * 40 + 10;
-    const hourFactor = this.getHourlyVariation(hour) / 5;
+  private simulatePM10(lat: number, lon: number, at: Date): number {
+    const base = this.simulate('pm10', lat, lon, at, 10, 50);
+    const hourFactor = this.getHourlyVariation(lat, lon, at) / 5;
     return Math.max(0, base + hourFactor);
   }
 
-  private simulateGroundwaterAnomaly(lat: number, lon: number): number {
+  private simulateGroundwaterAnomaly(lat: number, lon: number, at: Date): number {
     // Simulate groundwater level anomaly (-100 to 100)
-    return Math.random() * 200 - 100;
+    return this.simulate('groundwater_anomaly', lat, lon, at, -100, 100);
   }
 
-  private calculateWaterStress(lat: number, lon: number, groundwaterAnomaly: number): number {
+  private calculateWaterStress(lat: number, lon: number, at: Date, groundwaterAnomaly: number): number {
     // Calculate water stress level (0-100)
-    const baseStress = Math.random() * 40 + 20;
+    const baseStress = this.simulate('water_stress', lat, lon, at, 20, 60);
     const anomalyFactor = groundwaterAnomaly < 0 ? Math.abs(groundwaterAnomaly) / 2 : -groundwaterAnomaly / 4;
     return Math.max(0, Math.min(100, baseStress + anomalyFactor));
   }
 
-  private simulatePrecipitation(lat: number, lon: number): number {
+  private simulatePrecipitation(lat: number, lon: number, at: Date): number {
     // Simulate monthly precipitation in mm
-    return Math.random() * 150 + 20;
+    return this.simulate('precipitation', lat, lon, at, 20, 170);
   }
 
   private calculateFloodRisk(lat: number, lon: number, groundwaterAnomaly: number): number {
@@ -343,8 +643,8 @@ class NASADataService {
     return Math.max(0, Math.min(100, baseTerrain + waterFactor));
   }
 
-  private simulateSurfaceWaterLevel(lat: number, lon: number): number {
-    return Math.random() * 10 - 5; // meters above/below normal
+  private simulateSurfaceWaterLevel(lat: number, lon: number, at: Date): number {
+    return this.simulate('surface_water_level', lat, lon, at, -5, 5); // meters above/below normal
   }
 
   private calculateFloodRiskFromSurfaceWater(lat: number, lon: number, waterLevel: number): number {
@@ -353,37 +653,37 @@ class NASADataService {
     return Math.max(0, Math.min(100, baseTerrain + waterFactor));
   }
 
-  private calculateWaterStressFromSurface(waterLevel: number): number {
-    if (waterLevel < -2) return Math.random() * 30 + 50; // High stress if very low water
-    if (waterLevel > 2) return Math.random() * 20 + 10; // Low stress if high water
-    return Math.random() * 40 + 30; // Moderate stress
+  private calculateWaterStressFromSurface(lat: number, lon: number, at: Date, waterLevel: number): number {
+    if (waterLevel < -2) return this.simulate('surface_water_stress', lat, lon, at, 50, 80); // High stress if very low water
+    if (waterLevel > 2) return this.simulate('surface_water_stress', lat, lon, at, 10, 30); // Low stress if high water
+    return this.simulate('surface_water_stress', lat, lon, at, 30, 70); // Moderate stress
   }
 
   private getTerrainFloodRisk(lat: number, lon: number): number {
-    // Simulate terrain-based flood risk
-    return Math.random() * 30 + 10;
+    // Simulate terrain-based flood risk - static over time
+    return this.simulate('terrain_flood_risk', lat, lon, undefined, 10, 40);
   }
 
-  private calculateNDVI(lat: number, lon: number): number {
+  private calculateNDVI(lat: number, lon: number, at: Date): number {
     // Simulate NDVI calculation (-1 to 1, typically 0.2-0.8 for vegetation)
     const urbanFactor = this.getUrbanDensity(lat, lon);
-    const seasonalFactor = this.getSeasonalVegetation();
-    const baseNDVI = Math.random() * 0.6 + 0.2;
+    const seasonalFactor = this.getSeasonalVegetation(lat, lon, at);
+    const baseNDVI = this.simulate('ndvi', lat, lon, at, 0.2, 0.8);
     
     return Math.max(-1, Math.min(1, baseNDVI - urbanFactor + seasonalFactor));
   }
 
-  private calculateMODISNDVI(lat: number, lon: number): number {
+  private calculateMODISNDVI(lat: number, lon: number, at: Date): number {
     // MODIS typically has slightly different resolution/timing than Landsat
-    return this.calculateNDVI(lat, lon) + (Math.random() * 0.1 - 0.05);
+    return this.calculateNDVI(lat, lon, at) + this.simulate('modis_ndvi_offset', lat, lon, at, -0.05, 0.05);
   }
 
-  private calculateVegetationCoverage(ndvi: number): number {
+  private calculateVegetationCoverage(lat: number, lon: number, at: Date, ndvi: number): number {
     // Convert NDVI to vegetation coverage percentage
-    if (ndvi < 0.1) return Math.random() * 5;
-    if (ndvi < 0.3) return Math.random() * 25 + 5;
-    if (ndvi < 0.6) return Math.random() * 40 + 30;
-    return Math.random() * 30 + 70;
+    if (ndvi < 0.1) return this.simulate('vegetation_coverage', lat, lon, at, 0, 5);
+    if (ndvi < 0.3) return this.simulate('vegetation_coverage', lat, lon, at, 5, 30);
+    if (ndvi < 0.6) return this.simulate('vegetation_coverage', lat, lon, at, 30, 70);
+    return this.simulate('vegetation_coverage', lat, lon, at, 70, 100);
   }
 
   private classifyGreenSpace(ndvi: number, lat: number, lon: number): string {
@@ -394,18 +694,26 @@ class NASADataService {
   }
 
   private getUrbanDensity(lat: number, lon: number): number {
-    // Simulate urban density factor (reduces NDVI)
-    return Math.random() * 0.3;
+    // Simulate urban density factor (reduces NDVI) - static over time
+    return this.simulate('urban_density', lat, lon, undefined, 0, 0.3);
+  }
+
+  private getClimateTemperature(lat: number, at: Date): number {
+    // Daytime surface temperature falls away from the equator and swings with the
+    // seasons, peaking in late July in the north and late January in the south
+    const dayOfYear = (at.getTime() - Date.UTC(at.getUTCFullYear(), 0, 1)) / (24 * 60 * 60 * 1000);
+    const season = Math.cos(2 * Math.PI * (dayOfYear - 200) / 365) * Math.sign(lat);
+    return 32 - Math.abs(lat) * 0.45 + season * 12 * Math.min(1, Math.abs(lat) / 30);
   }
 
-  private getSeasonalVegetation(): number {
-    const month = new Date().getMonth();
+  private getSeasonalVegetation(lat: number, lon: number, at: Date): number {
+    const month = at.getUTCMonth();
     // Northern hemisphere seasonal variation
-    if (month >= 2 && month <= 5) return Math.random() * 0.2; // Spring growth
-    if (month >= 6 && month <= 8) return Math.random() * 0.1 + 0.1; // Summer peak
-    if (month >= 9 && month <= 11) return -Math.random() * 0.2; // Fall decline
-    return -Math.random() * 0.3; // Winter dormancy
+    if (month >= 2 && month <= 5) return this.simulate('seasonal_vegetation', lat, lon, at, 0, 0.2); // Spring growth
+    if (month >= 6 && month <= 8) return this.simulate('seasonal_vegetation', lat, lon, at, 0.1, 0.2); // Summer peak
+    if (month >= 9 && month <= 11) return -this.simulate('seasonal_vegetation', lat, lon, at, 0, 0.2); // Fall decline
+    return -this.simulate('seasonal_vegetation', lat, lon, at, 0, 0.3); // Winter dormancy
   }
 }
 
-export default new NASADataService();
\ No newline at end of file
+export default new NASADataService();
@@ -0,0 +1,147 @@
+// Notification senders
+// Formats an alert notification for each channel kind and hands it over: a signed JSON
+// POST for generic webhooks, a message with an attachment for Slack-compatible incoming
+// webhooks, and a plain-text email through the channel's SMTP server
+
+import { createHmac } from "crypto";
+import type {
+  EmailChannelConfig,
+  NotificationChannelKind,
+  NotificationEvent,
+  SlackChannelConfig,
+  WebhookChannelConfig
+} from "@shared/schema";
+import { sendMail } from "../smtp";
+
+export interface NotificationPayload {
+  event: NotificationEvent;
+  alert: {
+    id: string | null; // Null for test sends
+    type: string;
+    category: string;
+    title: string;
+    message: string;
+    severity: number;
+    location: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    status: string;
+    rule: string | null;
+    raisedAt: string; // ISO timestamp
+  };
+}
+
+// Status code or SMTP reply code the receiver accepted the notification with
+export type NotificationSender = (config: unknown, payload: NotificationPayload, deliveryId: string) => Promise<number>;
+
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, readonly responseStatus?: number) {
+    super(message);
+  }
+}
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  new: 'New',
+  escalated: 'Escalated',
+  test: 'Test'
+};
+
+const SLACK_COLORS: Record<string, string> = {
+  danger: '#d92d20',
+  warning: '#f79009',
+  info: '#2e90fa'
+};
+
+/**
+ * Signature of a webhook body: hex HMAC-SHA256 of "<timestamp>.<body>" with the channel secret
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+async function post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw new NotificationDeliveryError(`Request failed: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw new NotificationDeliveryError(`Receiver responded with ${response.status}`, response.status);
+  }
+  return response.status;
+}
+
+const sendWebhook: NotificationSender = async (config, payload, deliveryId) => {
+  const { url, secret } = config as WebhookChannelConfig;
+  const body = JSON.stringify({ deliveryId, ...payload });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  return post(url, body, {
+    'X-EarthWatch-Event': payload.event,
+    'X-EarthWatch-Delivery': deliveryId,
+    'X-EarthWatch-Timestamp': timestamp,
+    'X-EarthWatch-Signature': `sha256=${signWebhook(secret, timestamp, body)}`
+  });
+};
+
+const sendSlack: NotificationSender = async (config, payload) => {
+  const { url } = config as SlackChannelConfig;
+  const { alert } = payload;
+
+  return post(url, JSON.stringify({
+    text: `${EVENT_LABELS[payload.event]} ${alert.type} alert: ${alert.title}`,
+    attachments: [{
+      color: SLACK_COLORS[alert.type] ?? SLACK_COLORS.info,
+      title: alert.title,
+      text: alert.message,
+      fields: [
+        { title: 'Severity', value: String(Math.round(alert.severity)), short: true },
+        { title: 'Category', value: alert.category, short: true },
+        ...(alert.location ? [{ title: 'Location', value: alert.location, short: false }] : [])
+      ],
+      ts: Math.floor(new Date(alert.raisedAt).getTime() / 1000)
+    }]
+  }), {});
+};
+
+const sendEmail: NotificationSender = async (config, payload) => {
+  const { host, port, secure, username, password, from, to } = config as EmailChannelConfig;
+  const { alert } = payload;
+
+  const text = [
+    alert.message,
+    '',
+    `Severity: ${Math.round(alert.severity)}/100 (${alert.type})`,
+    `Category: ${alert.category}`,
+    ...(alert.location ? [`Location: ${alert.location}`] : []),
+    `Raised: ${alert.raisedAt}`,
+    ...(alert.id ? [`Alert: ${alert.id}`] : [])
+  ].join('\n');
+
+  try {
+    return await sendMail({ host, port, secure, username, password }, {
+      from,
+      to,
+      subject: `[${EVENT_LABELS[payload.event]} ${alert.type}] ${alert.title}`,
+      text
+    });
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    throw new NotificationDeliveryError((error as Error).message, typeof code === 'number' ? code : undefined);
+  }
+};
+
+export const NOTIFICATION_SENDERS: Record<NotificationChannelKind, NotificationSender> = {
+  webhook: sendWebhook,
+  slack: sendSlack,
+  email: sendEmail
+};
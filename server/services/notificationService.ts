@@ -0,0 +1,297 @@
+// Alert notifications
+// Delivers new and escalated alerts to the notification channels whose filters they pass.
+// Each delivery is logged; failed attempts retry with exponential backoff until the
+// attempt limit, after which the delivery is marked failed.
+
+import {
+  notificationChannelConfigSchemas,
+  type EnvironmentalAlert,
+  type NotificationChannel,
+  type NotificationChannelKind,
+  type NotificationChannelRequest,
+  type NotificationChannelUpdate,
+  type NotificationDelivery,
+  type NotificationEvent
+} from "@shared/schema";
+import { storage, type DeliveryQuery } from "../storage";
+import { NOTIFICATION_SENDERS, NotificationDeliveryError, type NotificationPayload } from "./notificationSenders";
+
+// Attempts per delivery, including the first
+const MAX_ATTEMPTS = 5;
+
+// Wait before the first retry; doubled for each later one
+const RETRY_BASE_MS = 30 * 1000;
+
+// How often the retry loop looks for due deliveries
+const RETRY_INTERVAL_MS = 15 * 1000;
+
+// Config fields that are accepted but never returned
+const SECRET_FIELDS = ['secret', 'password'];
+const REDACTED = '********';
+
+export interface AlertNotification {
+  alert: EnvironmentalAlert;
+  event: Exclude<NotificationEvent, 'test'>;
+}
+
+export class NotificationChannelValidationError extends Error {}
+
+class NotificationService {
+  private readonly sending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private retrying = false;
+
+  /**
+   * Retry due deliveries periodically until stopped
+   */
+  start(intervalMs: number = RETRY_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async listChannels(): Promise<NotificationChannel[]> {
+    return (await storage.getNotificationChannels()).map(channel => this.redact(channel));
+  }
+
+  async getChannel(id: string): Promise<NotificationChannel | undefined> {
+    const channel = await storage.getNotificationChannel(id);
+    return channel ? this.redact(channel) : undefined;
+  }
+
+  async createChannel(request: NotificationChannelRequest): Promise<NotificationChannel> {
+    const channel = await storage.createNotificationChannel({
+      name: request.name,
+      kind: request.kind,
+      config: request.config,
+      minSeverity: request.minSeverity,
+      categories: request.categories ?? null,
+      enabled: request.enabled
+    });
+    return this.redact(channel);
+  }
+
+  /**
+   * Change a channel's filters or settings; a new config replaces the old one and must
+   * suit the channel's kind. Secrets sent back redacted, or left out where the config
+   * still needs them, keep their stored values.
+   */
+  async updateChannel(id: string, update: NotificationChannelUpdate): Promise<NotificationChannel | undefined> {
+    const channel = await storage.getNotificationChannel(id);
+    if (!channel) return undefined;
+
+    const { config, ...fields } = update;
+    let parsedConfig: unknown;
+    if (config !== undefined) {
+      const schema = notificationChannelConfigSchemas[channel.kind as NotificationChannelKind];
+      const stored = channel.config as Record<string, unknown>;
+      const merged = Object.fromEntries(Object.entries(config)
+        .map(([key, value]) => [key, SECRET_FIELDS.includes(key) && value === REDACTED ? stored[key] : value]));
+
+      let parsed = schema.safeParse(merged);
+      if (!parsed.success) {
+        const omitted = SECRET_FIELDS.filter(key => merged[key] === undefined && stored[key] !== undefined);
+        if (omitted.length > 0) {
+          const withSecrets = schema.safeParse({ ...merged, ...Object.fromEntries(omitted.map(key => [key, stored[key]])) });
+          if (withSecrets.success) parsed = withSecrets;
+        }
+      }
+      if (!parsed.success) {
+        const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+        throw new NotificationChannelValidationError(`Invalid ${channel.kind} config: ${problems.join('; ')}`);
+      }
+      parsedConfig = parsed.data;
+    }
+
+    const updated = await storage.updateNotificationChannel(id, {
+      ...fields,
+      ...(parsedConfig !== undefined && { config: parsedConfig })
+    });
+    return updated ? this.redact(updated) : undefined;
+  }
+
+  async deleteChannel(id: string): Promise<boolean> {
+    return storage.deleteNotificationChannel(id);
+  }
+
+  async listDeliveries(query: DeliveryQuery): Promise<NotificationDelivery[]> {
+    return storage.getNotificationDeliveries(query);
+  }
+
+  /**
+   * Queue the alerts for every enabled channel whose filters they pass and send them in
+   * the background
+   */
+  notify(notifications: AlertNotification[]): void {
+    if (notifications.length === 0) return;
+
+    this.queue(notifications).catch(error => {
+      console.error("Error queueing alert notifications:", error);
+    });
+  }
+
+  /**
+   * Send a sample alert through a channel once, without retries; undefined when the
+   * channel doesn't exist
+   */
+  async sendTest(id: string, now: Date = new Date()): Promise<NotificationDelivery | undefined> {
+    const channel = await storage.getNotificationChannel(id);
+    if (!channel) return undefined;
+
+    const payload: NotificationPayload = {
+      event: 'test',
+      alert: {
+        id: null,
+        type: 'info',
+        category: (channel.categories as string[] | null)?.[0] ?? 'air_quality',
+        title: 'Test notification',
+        message: `Alerts for "${channel.name}" will be delivered like this one.`,
+        severity: channel.minSeverity,
+        location: null,
+        latitude: null,
+        longitude: null,
+        status: 'active',
+        rule: null,
+        raisedAt: now.toISOString()
+      }
+    };
+
+    const delivery = await storage.createNotificationDelivery({
+      channelId: channel.id,
+      alertId: null,
+      event: 'test',
+      payload,
+      status: 'pending'
+    });
+    return this.attempt(delivery, channel, false);
+  }
+
+  /**
+   * Retry every pending delivery that's due
+   */
+  async retryDue(now: Date = new Date()): Promise<NotificationDelivery[]> {
+    const attempted: NotificationDelivery[] = [];
+    for (const delivery of await storage.getDueNotificationDeliveries(now)) {
+      if (this.sending.has(delivery.id)) continue;
+
+      const channel = await storage.getNotificationChannel(delivery.channelId);
+      const updated = await this.attempt(delivery, channel, true, now);
+      if (updated) attempted.push(updated);
+    }
+    return attempted;
+  }
+
+  private tick(): void {
+    if (this.retrying) return;
+    this.retrying = true;
+
+    this.retryDue()
+      .catch(error => {
+        console.error("Error retrying notification deliveries:", error);
+      })
+      .finally(() => {
+        this.retrying = false;
+      });
+  }
+
+  private async queue(notifications: AlertNotification[]): Promise<void> {
+    const channels = (await storage.getNotificationChannels()).filter(channel => channel.enabled);
+
+    for (const { alert, event } of notifications) {
+      for (const channel of channels.filter(channel => this.accepts(channel, alert))) {
+        const delivery = await storage.createNotificationDelivery({
+          channelId: channel.id,
+          alertId: alert.id,
+          event,
+          payload: this.payload(alert, event),
+          status: 'pending'
+        });
+
+        this.attempt(delivery, channel, true).catch(error => {
+          console.error(`Error delivering notification ${delivery.id}:`, error);
+        });
+      }
+    }
+  }
+
+  private accepts(channel: NotificationChannel, alert: EnvironmentalAlert): boolean {
+    const categories = channel.categories as string[] | null;
+    return alert.severity >= channel.minSeverity && (categories === null || categories.includes(alert.category));
+  }
+
+  private payload(alert: EnvironmentalAlert, event: NotificationEvent): NotificationPayload {
+    return {
+      event,
+      alert: {
+        id: alert.id,
+        type: alert.type,
+        category: alert.category,
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        location: alert.location,
+        latitude: alert.latitude,
+        longitude: alert.longitude,
+        status: alert.status,
+        rule: alert.rule,
+        raisedAt: alert.timestamp.toISOString()
+      }
+    };
+  }
+
+  // Send once and record the outcome, scheduling a retry while attempts remain
+  private async attempt(
+    delivery: NotificationDelivery,
+    channel: NotificationChannel | undefined,
+    retry: boolean,
+    now: Date = new Date()
+  ): Promise<NotificationDelivery | undefined> {
+    this.sending.add(delivery.id);
+    const attempts = delivery.attempts + 1;
+
+    try {
+      if (!channel) {
+        throw new NotificationDeliveryError('Notification channel no longer exists');
+      }
+
+      const sender = NOTIFICATION_SENDERS[channel.kind as NotificationChannelKind];
+      const responseStatus = await sender(channel.config, delivery.payload as NotificationPayload, delivery.id);
+
+      return await storage.updateNotificationDelivery(delivery.id, {
+        status: 'delivered',
+        attempts,
+        nextAttemptAt: null,
+        lastError: null,
+        responseStatus,
+        deliveredAt: new Date()
+      });
+    } catch (error) {
+      const giveUp = !retry || !channel || attempts >= MAX_ATTEMPTS;
+      return await storage.updateNotificationDelivery(delivery.id, {
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: giveUp ? null : new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+        lastError: error instanceof Error ? error.message : String(error),
+        responseStatus: error instanceof NotificationDeliveryError ? error.responseStatus ?? null : null
+      });
+    } finally {
+      this.sending.delete(delivery.id);
+    }
+  }
+
+  private redact(channel: NotificationChannel): NotificationChannel {
+    const config = Object.fromEntries(Object.entries(channel.config as Record<string, unknown>)
+      .map(([key, value]) => [key, SECRET_FIELDS.includes(key) ? REDACTED : value]));
+    return { ...channel, config };
+  }
+}
+
+export default new NotificationService();
@@ -0,0 +1,108 @@
+// Livability scoring profiles
+// Named weightings and normalization thresholds, stored in the database alongside
+// the built-in profile, so different stakeholders can score the same data their own way
+
+import type {
+  NormalizationMode,
+  ReferenceValues,
+  ScoringProfile,
+  ScoringProfileRequest,
+  ScoringWeights
+} from "@shared/schema";
+import { storage } from "../storage";
+import { DEFAULT_SCORING_CONFIG, DEFAULT_SCORING_PROFILE, type ScoringConfig } from "./livabilityCalculator";
+
+export interface ResolvedScoringProfile extends ScoringConfig {
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  builtIn: boolean;
+}
+
+export class ScoringProfileConflictError extends Error {}
+
+class ScoringProfileService {
+  /**
+   * Built-in profile followed by stored profiles, oldest first
+   */
+  async listProfiles(): Promise<ResolvedScoringProfile[]> {
+    const stored = await storage.getScoringProfiles();
+    const hasStoredDefault = stored.some(profile => profile.isDefault);
+    return [this.builtInProfile(!hasStoredDefault), ...stored.map(profile => this.toResolved(profile))];
+  }
+
+  async createProfile(request: ScoringProfileRequest): Promise<ResolvedScoringProfile> {
+    if (request.name === DEFAULT_SCORING_PROFILE || await storage.getScoringProfileByName(request.name)) {
+      throw new ScoringProfileConflictError(`Scoring profile "${request.name}" already exists`);
+    }
+
+    const profile = await storage.createScoringProfile({
+      name: request.name,
+      description: request.description ?? null,
+      weights: request.weights,
+      referenceValues: request.referenceValues ?? DEFAULT_SCORING_CONFIG.referenceValues,
+      normalization: request.normalization,
+      isDefault: false
+    });
+
+    if (request.isDefault) {
+      return (await this.selectDefault(profile.name))!;
+    }
+    return this.toResolved(profile);
+  }
+
+  /**
+   * Make a profile the default for requests that don't name one; selecting the
+   * built-in profile clears any stored default
+   */
+  async selectDefault(name: string): Promise<ResolvedScoringProfile | undefined> {
+    if (name === DEFAULT_SCORING_PROFILE) {
+      await storage.clearDefaultScoringProfile();
+      return this.builtInProfile(true);
+    }
+
+    const profile = await storage.setDefaultScoringProfile(name);
+    return profile ? this.toResolved(profile) : undefined;
+  }
+
+  /**
+   * Profile to score with: the named one, or the current default when no name is given
+   */
+  async resolveProfile(name?: string): Promise<ResolvedScoringProfile | undefined> {
+    const storedDefault = await storage.getDefaultScoringProfile();
+
+    if (name === undefined) {
+      return storedDefault ? this.toResolved(storedDefault) : this.builtInProfile(true);
+    }
+    if (name === DEFAULT_SCORING_PROFILE) {
+      return this.builtInProfile(!storedDefault);
+    }
+
+    const profile = await storage.getScoringProfileByName(name);
+    return profile ? this.toResolved(profile) : undefined;
+  }
+
+  private builtInProfile(isDefault: boolean): ResolvedScoringProfile {
+    return {
+      name: DEFAULT_SCORING_PROFILE,
+      description: "Built-in weighting favouring immediate health impact",
+      ...DEFAULT_SCORING_CONFIG,
+      isDefault,
+      builtIn: true
+    };
+  }
+
+  private toResolved(profile: ScoringProfile): ResolvedScoringProfile {
+    return {
+      name: profile.name,
+      description: profile.description,
+      weights: profile.weights as ScoringWeights,
+      referenceValues: profile.referenceValues as ReferenceValues,
+      normalization: profile.normalization as NormalizationMode,
+      isDefault: profile.isDefault,
+      builtIn: false
+    };
+  }
+}
+
+export default new ScoringProfileService();
@@ -0,0 +1,128 @@
+// Simulation sources for the NASA data simulators
+// A seeded source yields reproducible, spatially and temporally coherent fields
+
+export interface SimulationSource {
+  /**
+   * Sample in [0, 1) for a named channel at a location and (optionally) a time.
+   * Omitting the time samples a static field, e.g. terrain or urban density.
+   */
+  sample(channel: string, lat: number, lon: number, time?: Date): number;
+}
+
+export interface FieldScales {
+  spatialDegrees: number; // Distance over which values decorrelate
+  temporalHours: number;  // Time over which values decorrelate
+}
+
+const DEFAULT_SCALES: FieldScales = {
+  spatialDegrees: 0.25,
+  temporalHours: 6
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Unseeded source backed by Math.random(); every call is independent
+ */
+export class RandomSource implements SimulationSource {
+  sample(): number {
+    return Math.random();
+  }
+}
+
+/**
+ * Seeded value-noise field over (lat, lon, time). Lattice values are hashed
+ * from the seed and channel, then smoothly interpolated, so nearby points and
+ * adjacent hours return related values and equal inputs always agree.
+ */
+export class SeededFieldSource implements SimulationSource {
+  private readonly channelHashes = new Map<string, number>();
+
+  constructor(
+    readonly seed: number,
+    private readonly scales: FieldScales = DEFAULT_SCALES
+  ) {}
+
+  sample(channel: string, lat: number, lon: number, time?: Date): number {
+    const channelHash = this.hashChannel(channel);
+    const x = (lat + 90) / this.scales.spatialDegrees;
+    const y = (lon + 180) / this.scales.spatialDegrees;
+    const t = time ? time.getTime() / MS_PER_HOUR / this.scales.temporalHours : 0;
+
+    // Two octaves: broad structure plus finer detail
+    const value = 0.75 * this.noise(channelHash, x, y, t, 1) +
+      0.25 * this.noise(channelHash ^ 0x9e3779b9, x, y, t, 4);
+
+    return Math.min(value, 0.999999);
+  }
+
+  private noise(channelHash: number, x: number, y: number, t: number, frequency: number): number {
+    x *= frequency;
+    y *= frequency;
+    t *= frequency;
+
+    // Longitude lattice wraps so the field is continuous across the antimeridian
+    const lonCells = Math.round(360 / this.scales.spatialDegrees) * frequency;
+    const wrap = (i: number) => ((i % lonCells) + lonCells) % lonCells;
+
+    const x0 = Math.floor(x), y0 = Math.floor(y), t0 = Math.floor(t);
+    const fx = this.smooth(x - x0), fy = this.smooth(y - y0), ft = this.smooth(t - t0);
+
+    const corner = (dx: number, dy: number, dt: number) =>
+      this.lattice(channelHash, x0 + dx, wrap(y0 + dy), t0 + dt);
+
+    const lerp = (a: number, b: number, f: number) => a + (b - a) * f;
+
+    const c00 = lerp(corner(0, 0, 0), corner(1, 0, 0), fx);
+    const c10 = lerp(corner(0, 1, 0), corner(1, 1, 0), fx);
+    const c01 = lerp(corner(0, 0, 1), corner(1, 0, 1), fx);
+    const c11 = lerp(corner(0, 1, 1), corner(1, 1, 1), fx);
+
+    return lerp(lerp(c00, c10, fy), lerp(c01, c11, fy), ft);
+  }
+
+  private smooth(f: number): number {
+    return f * f * (3 - 2 * f);
+  }
+
+  private lattice(channelHash: number, ix: number, iy: number, it: number): number {
+    let h = Math.imul(this.seed | 0, 0x27d4eb2d) ^ channelHash;
+    h = Math.imul(h ^ ix, 0x85ebca6b);
+    h = Math.imul(h ^ iy, 0xc2b2ae35);
+    h = Math.imul(h ^ it, 0x27d4eb2f);
+    h ^= h >>> 15;
+    h = Math.imul(h, 0x2c1b3c6d);
+    h ^= h >>> 12;
+    return (h >>> 0) / 0x100000000;
+  }
+
+  private hashChannel(channel: string): number {
+    const cached = this.channelHashes.get(channel);
+    if (cached !== undefined) return cached;
+
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < channel.length; i++) {
+      h = Math.imul(h ^ channel.charCodeAt(i), 0x01000193);
+    }
+    this.channelHashes.set(channel, h);
+    return h;
+  }
+}
+
+/**
+ * Build a simulation source from a seed value such as SIMULATION_SEED.
+ * Without a seed the simulators stay non-deterministic.
+ */
+export function createSimulationSource(seed?: string | number): SimulationSource {
+  if (seed === undefined || seed === '') {
+    return new RandomSource();
+  }
+
+  const numericSeed = typeof seed === 'number' ? seed : Number(seed);
+  if (!Number.isFinite(numericSeed)) {
+    throw new Error(`Invalid simulation seed "${seed}"; expected a number`);
+  }
+
+  return new SeededFieldSource(Math.trunc(numericSeed));
+}
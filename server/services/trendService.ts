@@ -0,0 +1,136 @@
+// Metric trends
+// Compares each category's mean over the latest window with the window before it, and
+// only calls a direction when a least-squares slope across both windows is significant
+
+import type { EnvironmentalData } from "../storage";
+
+export type TrendDirection = 'up' | 'down' | 'stable';
+
+export interface MetricTrend {
+  direction: TrendDirection;
+  current: number | null;       // Mean over the latest window
+  previous: number | null;      // Mean over the window before it
+  change: number | null;        // current - previous
+  changePercent: number | null; // Relative to previous; null when previous is 0
+  slopePerHour: number | null;  // Least-squares slope across both windows
+  significant: boolean;         // Slope differs from zero at the 95% level
+  readingCount: number;         // Readings across both windows
+}
+
+export type MetricTrends = Record<keyof EnvironmentalData, MetricTrend>;
+
+export const DEFAULT_TREND_WINDOW_HOURS = 24;
+
+// Smaller relative changes read as stable even when the slope is significant
+const MIN_CHANGE_PERCENT = 1;
+
+// Two-sided 95% critical values of Student's t for 1-10 degrees of freedom
+const T_CRITICAL = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+interface TimedReading {
+  timestamp: Date;
+}
+
+// The value each category's trend follows; matches what fusion estimates
+const METRIC_VALUES: { [K in keyof EnvironmentalData]: (reading: EnvironmentalData[K][number]) => number } = {
+  airQuality: reading => reading.aqi,
+  waterSecurity: reading => reading.waterStressLevel,
+  greenSpace: reading => reading.vegetationCoverage || reading.ndvi * 100,
+  heat: reading => reading.landSurfaceTemperature,
+  flood: reading => reading.floodRisk,
+  noise: reading => reading.noiseLevel
+};
+
+class TrendService {
+  /**
+   * Trend per category from readings covering at least the last two windows
+   */
+  computeTrends(data: EnvironmentalData, windowHours: number = DEFAULT_TREND_WINDOW_HOURS, now: Date = new Date()): MetricTrends {
+    const trend = <K extends keyof EnvironmentalData>(key: K) =>
+      this.computeTrend(data[key] as EnvironmentalData[K][number][], METRIC_VALUES[key], windowHours, now);
+
+    return {
+      airQuality: trend('airQuality'),
+      waterSecurity: trend('waterSecurity'),
+      greenSpace: trend('greenSpace'),
+      heat: trend('heat'),
+      flood: trend('flood'),
+      noise: trend('noise')
+    };
+  }
+
+  private computeTrend<T extends TimedReading>(
+    readings: T[],
+    valueOf: (reading: T) => number,
+    windowHours: number,
+    now: Date
+  ): MetricTrend {
+    // Hours before now, so older readings have larger ages
+    const points = readings
+      .map(reading => ({ age: (now.getTime() - reading.timestamp.getTime()) / MS_PER_HOUR, value: valueOf(reading) }))
+      .filter(point => point.age >= 0 && point.age <= 2 * windowHours && Number.isFinite(point.value));
+
+    const current = this.mean(points.filter(point => point.age < windowHours).map(point => point.value));
+    const previous = this.mean(points.filter(point => point.age >= windowHours).map(point => point.value));
+    const change = current !== null && previous !== null ? current - previous : null;
+    const changePercent = change !== null && previous !== 0 ? (change / Math.abs(previous!)) * 100 : null;
+
+    const { slope, significant } = this.regress(points.map(point => ({ x: -point.age, y: point.value })));
+
+    let direction: TrendDirection = 'stable';
+    if (change !== null && significant && Math.sign(change) === Math.sign(slope ?? 0) &&
+        (changePercent === null || Math.abs(changePercent) >= MIN_CHANGE_PERCENT)) {
+      direction = change > 0 ? 'up' : 'down';
+    }
+
+    return {
+      direction,
+      current: this.round(current),
+      previous: this.round(previous),
+      change: this.round(change),
+      changePercent: this.round(changePercent),
+      slopePerHour: slope === null ? null : Math.round(slope * 1000) / 1000,
+      significant,
+      readingCount: points.length
+    };
+  }
+
+  /**
+   * Ordinary least squares, testing the slope against zero with a t-test
+   */
+  private regress(points: Array<{ x: number; y: number }>): { slope: number | null; significant: boolean } {
+    const n = points.length;
+    if (n < 2) return { slope: null, significant: false };
+
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+    const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    if (sxx === 0) return { slope: null, significant: false };
+
+    const slope = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+    if (n < 3) return { slope, significant: false };
+
+    const residuals = points.reduce((sum, p) => sum + (p.y - meanY - slope * (p.x - meanX)) ** 2, 0);
+    const standardError = Math.sqrt(residuals / (n - 2) / sxx);
+    if (standardError === 0) return { slope, significant: slope !== 0 };
+
+    return { slope, significant: Math.abs(slope / standardError) >= this.tCritical(n - 2) };
+  }
+
+  // Beyond the table, 1.96 + 2.4/df stays within 0.02 of the exact value
+  private tCritical(degreesOfFreedom: number): number {
+    return T_CRITICAL[degreesOfFreedom - 1] ?? 1.96 + 2.4 / degreesOfFreedom;
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  }
+
+  private round(value: number | null): number | null {
+    return value === null ? null : Math.round(value * 10) / 10;
+  }
+}
+
+export default new TrendService();
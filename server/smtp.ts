@@ -0,0 +1,190 @@
+// Minimal SMTP client for notification email
+// Speaks just enough SMTP to hand one plain-text message to a relay: EHLO, STARTTLS when
+// offered, AUTH PLAIN, then a single MAIL/RCPT/DATA transaction
+
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;    // TLS from connect; otherwise upgraded with STARTTLS when the server offers it
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+// Collects the server's replies, which may span several "250-" lines, in arrival order
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private readonly waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  // Stop reading so the socket can be handed to TLS
+  detach(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+  }
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  };
+
+  private readonly onError = (error: Error) => this.fail(error);
+  private readonly onClose = () => this.fail(new SmtpError('SMTP server closed the connection'));
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(this.failure);
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+// RFC 2047 encoded-word for subjects that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function formatMessage(message: MailMessage): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? [])
+  ].join('\r\n');
+}
+
+/**
+ * Deliver a message to the server; resolves with the reply code accepting it and throws
+ * SmtpError with the server's code when a command is refused
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<number> {
+  let socket = await connect(options);
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+    socket.destroy(new SmtpError('SMTP server timed out'));
+  });
+  let reader = new ReplyReader(socket);
+
+  const expect = async (codes: number[], command?: string, name = command?.split(' ')[0]): Promise<SmtpReply> => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${name ?? 'greeting'} refused: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code);
+    }
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    const hello = await expect([250], `EHLO ${os.hostname()}`);
+    let encrypted = options.secure;
+
+    if (!encrypted && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await expect([220], 'STARTTLS');
+      reader.detach();
+      socket = await upgrade(socket, options.host);
+      reader = new ReplyReader(socket);
+      encrypted = true;
+      await expect([250], `EHLO ${os.hostname()}`);
+    }
+
+    if (options.username !== undefined && options.password !== undefined) {
+      // Never send credentials in the clear, even to a server that offers no TLS
+      if (!encrypted) {
+        throw new SmtpError('SMTP server does not support STARTTLS; refusing to authenticate over an unencrypted connection');
+      }
+      const credentials = Buffer.from(`\0${options.username}\0${options.password}`, 'utf8').toString('base64');
+      await expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await expect([250], `MAIL FROM:<${message.from}>`);
+    for (const recipient of message.to) {
+      await expect([250, 251], `RCPT TO:<${recipient}>`);
+    }
+    await expect([354], 'DATA');
+
+    // Lines starting with a dot are doubled so they can't end the message early
+    const data = formatMessage(message).replace(/^\./gm, '..');
+    const accepted = await expect([250], `${data}\r\n.`, 'message');
+
+    socket.write('QUIT\r\n');
+    return accepted.code;
+  } finally {
+    socket.end();
+  }
+}
@@ -8,19 +8,189 @@ import {
   type InsertWaterSecurityData,
   type GreenSpaceData,
   type InsertGreenSpaceData,
+  type HeatData,
+  type InsertHeatData,
+  type FloodExposureData,
+  type InsertFloodExposureData,
+  type NoiseData,
+  type InsertNoiseData,
   type LiveabilityScore,
   type InsertLivabilityScore,
   type EnvironmentalAlert,
   type InsertEnvironmentalAlert,
+  type BackfillJob,
+  type InsertBackfillJob,
+  type ScoringProfile,
+  type InsertScoringProfile,
+  type AlertRule,
+  type InsertAlertRule,
+  type AlertThresholdOverride,
+  type InsertAlertThresholdOverride,
+  type WatchedLocation,
+  type InsertWatchedLocation,
+  type NotificationChannel,
+  type InsertNotificationChannel,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
   users,
   airQualityData,
   waterSecurityData,
   greenSpaceData,
+  heatData,
+  floodExposureData,
+  noiseData,
   livabilityScores,
-  environmentalAlerts
+  environmentalAlerts,
+  backfillJobs,
+  scoringProfiles,
+  alertRules,
+  alertThresholdOverrides,
+  watchedLocations,
+  notificationChannels,
+  notificationDeliveries,
+  OPEN_ALERT_STATUSES,
+  type AlertStatus
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, gte, lte } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+import { EARTH_RADIUS_KM, boundingBoxes, encodeGeohash, geohashCover, haversineKm } from "./geo";
+import { randomUUID } from "crypto";
+import { eq, asc, desc, and, or, gte, lte, like, inArray, isNull, sql, getTableColumns, type SQL } from "drizzle-orm";
+
+type ReadingTable =
+  | typeof airQualityData
+  | typeof waterSecurityData
+  | typeof greenSpaceData
+  | typeof heatData
+  | typeof floodExposureData
+  | typeof noiseData;
+
+type LocatedTable = ReadingTable | typeof livabilityScores;
+
+export type LocationSort = 'distance' | 'time';
+
+export interface LocationQuery {
+  radiusKm?: number;     // Great-circle search radius
+  sortBy?: LocationSort; // Nearest first, or newest first (default)
+  since?: Date;          // Only rows observed at or after this time
+}
+
+export interface DeliveryQuery {
+  channelId?: string;
+  alertId?: string;
+  status?: string;
+  limit?: number; // Newest deliveries first
+}
+
+// Default search radii: nearby readings, and scores computed for the same spot
+export const DEFAULT_READING_RADIUS_KM = 10;
+export const DEFAULT_SCORE_RADIUS_KM = 1;
+
+// Round to 3 decimal places; adding 0 turns -0 into 0 so both sides of zero share a key
+const roundKeyCoordinate = (value: number) => Math.round(value * 1000) / 1000 + 0;
+
+/**
+ * Rounded location used, with source and observation time, as the natural key
+ * for readings (3 decimal places is roughly 110 m). Longitude 180 is the same
+ * meridian as -180 and keys as -180.
+ */
+export function observationLocationKey(lat: number, lon: number): string {
+  const roundedLon = roundKeyCoordinate(lon);
+  return `${roundKeyCoordinate(lat).toFixed(3)},${(roundedLon >= 180 ? roundedLon - 360 : roundedLon).toFixed(3)}`;
+}
+
+// Derived columns stored with every reading
+function spatialKeys(lat: number, lon: number) {
+  return {
+    locationKey: observationLocationKey(lat, lon),
+    geohash: encodeGeohash(lat, lon)
+  };
+}
+
+// On a repeated observation, overwrite the measured values and keep the row's identity
+function upsertOnObservationKey(table: ReadingTable) {
+  const set: Record<string, ReturnType<typeof sql.raw>> = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (key === 'id' || key === 'source' || key === 'locationKey' || key === 'timestamp') continue;
+    set[key] = sql.raw(`excluded."${column.name}"`);
+  }
+
+  return {
+    target: [table.source, table.locationKey, table.timestamp],
+    set
+  };
+}
+
+const float8 = (value: number) => sql`${value}::double precision`;
+
+// Haversine distance in kilometers from a row's coordinates to a point
+function distanceKmSql(
+  table: LocatedTable | typeof environmentalAlerts | typeof alertThresholdOverrides,
+  lat: number,
+  lon: number
+): SQL<number> {
+  return sql<number>`2 * ${float8(EARTH_RADIUS_KM)} * asin(sqrt(least(1,
+    power(sin(radians(${table.latitude} - ${float8(lat)}) / 2), 2) +
+    cos(radians(${float8(lat)})) * cos(radians(${table.latitude})) *
+    power(sin(radians(${table.longitude} - ${float8(lon)}) / 2), 2)
+  )))`;
+}
+
+// Geohash prefixes and the time cutoff hit the (geohash, timestamp) index, bounding
+// boxes trim the cells to the circle's extent and the haversine check makes the radius exact
+export function withinRadius(table: LocatedTable, lat: number, lon: number, radiusKm: number, since?: Date) {
+  const cells = geohashCover(lat, lon, radiusKm).map(prefix => like(table.geohash, `${prefix}%`));
+  const boxes = boundingBoxes(lat, lon, radiusKm).map(box => and(
+    gte(table.latitude, box.minLat),
+    lte(table.latitude, box.maxLat),
+    gte(table.longitude, box.minLon),
+    lte(table.longitude, box.maxLon)
+  ));
+
+  return and(
+    cells.length > 0 ? or(...cells) : undefined,
+    since ? gte(table.timestamp, since) : undefined,
+    or(...boxes),
+    lte(distanceKmSql(table, lat, lon), radiusKm)
+  );
+}
+
+function locationOrder(table: LocatedTable, lat: number, lon: number, sortBy: LocationSort = 'time') {
+  return sortBy === 'distance'
+    ? [asc(distanceKmSql(table, lat, lon)), desc(table.timestamp)]
+    : [desc(table.timestamp)];
+}
+
+// Chunk size for multi-row inserts, well inside Postgres' bind parameter limit
+const BATCH_CHUNK_SIZE = 500;
+
+type Executor = Database | Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Later rows win when a batch repeats an observation, since one upsert statement can't touch a row twice
+function dedupeObservations<T extends { source: string; locationKey: string; timestamp?: Date }>(rows: T[]): T[] {
+  const byKey = new Map<string, T>();
+  for (const row of rows) {
+    byKey.set(`${row.source}|${row.locationKey}|${row.timestamp?.getTime() ?? ''}`, row);
+  }
+  return Array.from(byKey.values());
+}
+
+export interface EnvironmentalBatch {
+  airQuality: InsertAirQualityData[];
+  waterSecurity: InsertWaterSecurityData[];
+  greenSpace: InsertGreenSpaceData[];
+  heat: InsertHeatData[];
+  flood: InsertFloodExposureData[];
+  noise: InsertNoiseData[];
+}
+
+export interface EnvironmentalData {
+  airQuality: AirQualityData[];
+  waterSecurity: WaterSecurityData[];
+  greenSpace: GreenSpaceData[];
+  heat: HeatData[];
+  flood: FloodExposureData[];
+  noise: NoiseData[];
+}
 
 // Environmental data storage interface
 export interface IStorage {
@@ -29,40 +199,111 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
-  // Environmental data methods
+  // Environmental data methods; readings are upserted on (source, location key, observation time)
   insertAirQualityData(data: InsertAirQualityData): Promise<AirQualityData>;
   insertWaterSecurityData(data: InsertWaterSecurityData): Promise<WaterSecurityData>;
   insertGreenSpaceData(data: InsertGreenSpaceData): Promise<GreenSpaceData>;
+  insertHeatData(data: InsertHeatData): Promise<HeatData>;
+  insertFloodExposureData(data: InsertFloodExposureData): Promise<FloodExposureData>;
+  insertNoiseData(data: InsertNoiseData): Promise<NoiseData>;
   insertLivabilityScore(score: InsertLivabilityScore): Promise<LiveabilityScore>;
   insertEnvironmentalAlert(alert: InsertEnvironmentalAlert): Promise<EnvironmentalAlert>;
+
+  // Batched upserts; each call runs in a single transaction
+  insertAirQualityBatch(data: InsertAirQualityData[]): Promise<AirQualityData[]>;
+  insertWaterSecurityBatch(data: InsertWaterSecurityData[]): Promise<WaterSecurityData[]>;
+  insertGreenSpaceBatch(data: InsertGreenSpaceData[]): Promise<GreenSpaceData[]>;
+  insertEnvironmentalBatch(batch: EnvironmentalBatch): Promise<EnvironmentalData>;
   
-  // Query methods
-  getAirQualityDataByLocation(lat: number, lon: number, radius?: number): Promise<AirQualityData[]>;
-  getWaterSecurityDataByLocation(lat: number, lon: number, radius?: number): Promise<WaterSecurityData[]>;
-  getGreenSpaceDataByLocation(lat: number, lon: number, radius?: number): Promise<GreenSpaceData[]>;
-  getLivabilityScoreByLocation(lat: number, lon: number): Promise<LiveabilityScore | undefined>;
-  getActiveAlerts(): Promise<EnvironmentalAlert[]>;
-  getRecentEnvironmentalData(lat: number, lon: number, hours?: number): Promise<{
-    airQuality: AirQualityData[];
-    waterSecurity: WaterSecurityData[];
-    greenSpace: GreenSpaceData[];
-  }>;
+  // Query methods; locations match within a great-circle radius in kilometers
+  getAirQualityDataByLocation(lat: number, lon: number, query?: LocationQuery): Promise<AirQualityData[]>;
+  getWaterSecurityDataByLocation(lat: number, lon: number, query?: LocationQuery): Promise<WaterSecurityData[]>;
+  getGreenSpaceDataByLocation(lat: number, lon: number, query?: LocationQuery): Promise<GreenSpaceData[]>;
+  getHeatDataByLocation(lat: number, lon: number, query?: LocationQuery): Promise<HeatData[]>;
+  getFloodExposureDataByLocation(lat: number, lon: number, query?: LocationQuery): Promise<FloodExposureData[]>;
+  getNoiseDataByLocation(lat: number, lon: number, query?: LocationQuery): Promise<NoiseData[]>;
+  getLivabilityScoreByLocation(lat: number, lon: number, query?: LocationQuery): Promise<LiveabilityScore | undefined>;
+  // Scores computed between from and to (inclusive), oldest first
+  getLivabilityScoreHistory(lat: number, lon: number, from: Date, to: Date, query?: LocationQuery): Promise<LiveabilityScore[]>;
+  getActiveAlerts(): Promise<EnvironmentalAlert[]>; // Open alerts: active or acknowledged
+  getEnvironmentalAlert(id: string): Promise<EnvironmentalAlert | undefined>;
+  getOpenAlertsByLocation(lat: number, lon: number, query?: LocationQuery): Promise<EnvironmentalAlert[]>;
+  getLatestAlertByFingerprint(fingerprint: string): Promise<EnvironmentalAlert | undefined>;
+  updateEnvironmentalAlert(id: string, updates: Partial<InsertEnvironmentalAlert>): Promise<EnvironmentalAlert | undefined>;
+  getRecentEnvironmentalData(lat: number, lon: number, hours?: number, query?: LocationQuery): Promise<EnvironmentalData>;
+
+  // Backfill job methods
+  createBackfillJob(job: InsertBackfillJob): Promise<BackfillJob>;
+  updateBackfillJob(id: string, updates: Partial<InsertBackfillJob>): Promise<BackfillJob | undefined>;
+  getBackfillJob(id: string): Promise<BackfillJob | undefined>;
+  getBackfillJobsByStatus(statuses: string[]): Promise<BackfillJob[]>;
+
+  // Scoring profile methods; at most one stored profile is the default
+  createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile>;
+  getScoringProfiles(): Promise<ScoringProfile[]>;
+  getScoringProfileByName(name: string): Promise<ScoringProfile | undefined>;
+  getDefaultScoringProfile(): Promise<ScoringProfile | undefined>;
+  setDefaultScoringProfile(name: string): Promise<ScoringProfile | undefined>;
+  clearDefaultScoringProfile(): Promise<void>;
+
+  // Alert rule methods
+  getAlertRules(): Promise<AlertRule[]>; // Oldest first
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+
+  // Alert threshold override methods
+  getAlertThresholdOverrides(): Promise<AlertThresholdOverride[]>; // Oldest first
+  // Overrides for everyone or the given user, set everywhere or for an area containing the point
+  getAlertThresholdOverridesAt(lat: number, lon: number, userId?: string): Promise<AlertThresholdOverride[]>;
+  createAlertThresholdOverride(override: InsertAlertThresholdOverride): Promise<AlertThresholdOverride>;
+  // Insert, or replace the thresholds of the override with the same subscriber and area
+  upsertAlertThresholdOverride(override: InsertAlertThresholdOverride): Promise<{ override: AlertThresholdOverride; created: boolean }>;
+  updateAlertThresholdOverride(id: string, updates: Partial<InsertAlertThresholdOverride>): Promise<AlertThresholdOverride | undefined>;
+  deleteAlertThresholdOverride(id: string): Promise<boolean>;
+
+  // Watched location methods
+  getWatchedLocations(): Promise<WatchedLocation[]>; // Oldest first
+  getWatchedLocation(id: string): Promise<WatchedLocation | undefined>;
+  // Enabled locations whose next run is due at the given time, most overdue first
+  getDueWatchedLocations(now: Date): Promise<WatchedLocation[]>;
+  createWatchedLocation(location: InsertWatchedLocation): Promise<WatchedLocation>;
+  updateWatchedLocation(id: string, updates: Partial<InsertWatchedLocation>): Promise<WatchedLocation | undefined>;
+  deleteWatchedLocation(id: string): Promise<boolean>;
+
+  // Notification channel methods
+  getNotificationChannels(): Promise<NotificationChannel[]>; // Oldest first
+  getNotificationChannel(id: string): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(id: string, updates: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(id: string): Promise<boolean>;
+
+  // Notification delivery log methods
+  createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  updateNotificationDelivery(id: string, updates: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined>;
+  getNotificationDelivery(id: string): Promise<NotificationDelivery | undefined>;
+  getNotificationDeliveries(query?: DeliveryQuery): Promise<NotificationDelivery[]>;
+  // Pending deliveries whose next attempt is due at the given time, oldest first
+  getDueNotificationDeliveries(now: Date): Promise<NotificationDelivery[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database = createDatabase()) {}
+
   // Legacy user methods
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(insertUser)
       .returning();
@@ -71,132 +312,1310 @@ export class DatabaseStorage implements IStorage {
 
   // Environmental data methods
   async insertAirQualityData(data: InsertAirQualityData): Promise<AirQualityData> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(airQualityData)
-      .values(data)
+      .values({ ...data, ...spatialKeys(data.latitude, data.longitude) })
+      .onConflictDoUpdate(upsertOnObservationKey(airQualityData))
       .returning();
     return result;
   }
 
   async insertWaterSecurityData(data: InsertWaterSecurityData): Promise<WaterSecurityData> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(waterSecurityData)
-      .values(data)
+      .values({ ...data, ...spatialKeys(data.latitude, data.longitude) })
+      .onConflictDoUpdate(upsertOnObservationKey(waterSecurityData))
       .returning();
     return result;
   }
 
   async insertGreenSpaceData(data: InsertGreenSpaceData): Promise<GreenSpaceData> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(greenSpaceData)
-      .values(data)
+      .values({ ...data, ...spatialKeys(data.latitude, data.longitude) })
+      .onConflictDoUpdate(upsertOnObservationKey(greenSpaceData))
+      .returning();
+    return result;
+  }
+
+  async insertHeatData(data: InsertHeatData): Promise<HeatData> {
+    const [result] = await this.db
+      .insert(heatData)
+      .values({ ...data, ...spatialKeys(data.latitude, data.longitude) })
+      .onConflictDoUpdate(upsertOnObservationKey(heatData))
+      .returning();
+    return result;
+  }
+
+  async insertFloodExposureData(data: InsertFloodExposureData): Promise<FloodExposureData> {
+    const [result] = await this.db
+      .insert(floodExposureData)
+      .values({ ...data, ...spatialKeys(data.latitude, data.longitude) })
+      .onConflictDoUpdate(upsertOnObservationKey(floodExposureData))
+      .returning();
+    return result;
+  }
+
+  async insertNoiseData(data: InsertNoiseData): Promise<NoiseData> {
+    const [result] = await this.db
+      .insert(noiseData)
+      .values({ ...data, ...spatialKeys(data.latitude, data.longitude) })
+      .onConflictDoUpdate(upsertOnObservationKey(noiseData))
       .returning();
     return result;
   }
 
   async insertLivabilityScore(score: InsertLivabilityScore): Promise<LiveabilityScore> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(livabilityScores)
-      .values(score)
+      .values({ ...score, geohash: encodeGeohash(score.latitude, score.longitude) })
       .returning();
     return result;
   }
 
   async insertEnvironmentalAlert(alert: InsertEnvironmentalAlert): Promise<EnvironmentalAlert> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(environmentalAlerts)
       .values(alert)
       .returning();
     return result;
   }
 
+  // Batched upserts
+  async insertAirQualityBatch(data: InsertAirQualityData[]): Promise<AirQualityData[]> {
+    return await this.db.transaction(tx => this.upsertAirQualityRows(tx, data));
+  }
+
+  async insertWaterSecurityBatch(data: InsertWaterSecurityData[]): Promise<WaterSecurityData[]> {
+    return await this.db.transaction(tx => this.upsertWaterSecurityRows(tx, data));
+  }
+
+  async insertGreenSpaceBatch(data: InsertGreenSpaceData[]): Promise<GreenSpaceData[]> {
+    return await this.db.transaction(tx => this.upsertGreenSpaceRows(tx, data));
+  }
+
+  async insertEnvironmentalBatch(batch: EnvironmentalBatch): Promise<EnvironmentalData> {
+    return await this.db.transaction(async tx => ({
+      airQuality: await this.upsertAirQualityRows(tx, batch.airQuality),
+      waterSecurity: await this.upsertWaterSecurityRows(tx, batch.waterSecurity),
+      greenSpace: await this.upsertGreenSpaceRows(tx, batch.greenSpace),
+      heat: await this.upsertHeatRows(tx, batch.heat),
+      flood: await this.upsertFloodExposureRows(tx, batch.flood),
+      noise: await this.upsertNoiseRows(tx, batch.noise)
+    }));
+  }
+
+  private async upsertAirQualityRows(executor: Executor, data: InsertAirQualityData[]): Promise<AirQualityData[]> {
+    const rows = dedupeObservations(data.map(d => ({ ...d, ...spatialKeys(d.latitude, d.longitude) })));
+    const results: AirQualityData[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CHUNK_SIZE) {
+      results.push(...await executor
+        .insert(airQualityData)
+        .values(rows.slice(i, i + BATCH_CHUNK_SIZE))
+        .onConflictDoUpdate(upsertOnObservationKey(airQualityData))
+        .returning());
+    }
+    return results;
+  }
+
+  private async upsertWaterSecurityRows(executor: Executor, data: InsertWaterSecurityData[]): Promise<WaterSecurityData[]> {
+    const rows = dedupeObservations(data.map(d => ({ ...d, ...spatialKeys(d.latitude, d.longitude) })));
+    const results: WaterSecurityData[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CHUNK_SIZE) {
+      results.push(...await executor
+        .insert(waterSecurityData)
+        .values(rows.slice(i, i + BATCH_CHUNK_SIZE))
+        .onConflictDoUpdate(upsertOnObservationKey(waterSecurityData))
+        .returning());
+    }
+    return results;
+  }
+
+  private async upsertGreenSpaceRows(executor: Executor, data: InsertGreenSpaceData[]): Promise<GreenSpaceData[]> {
+    const rows = dedupeObservations(data.map(d => ({ ...d, ...spatialKeys(d.latitude, d.longitude) })));
+    const results: GreenSpaceData[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CHUNK_SIZE) {
+      results.push(...await executor
+        .insert(greenSpaceData)
+        .values(rows.slice(i, i + BATCH_CHUNK_SIZE))
+        .onConflictDoUpdate(upsertOnObservationKey(greenSpaceData))
+        .returning());
+    }
+    return results;
+  }
+
+  private async upsertHeatRows(executor: Executor, data: InsertHeatData[]): Promise<HeatData[]> {
+    const rows = dedupeObservations(data.map(d => ({ ...d, ...spatialKeys(d.latitude, d.longitude) })));
+    const results: HeatData[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CHUNK_SIZE) {
+      results.push(...await executor
+        .insert(heatData)
+        .values(rows.slice(i, i + BATCH_CHUNK_SIZE))
+        .onConflictDoUpdate(upsertOnObservationKey(heatData))
+        .returning());
+    }
+    return results;
+  }
+
+  private async upsertFloodExposureRows(executor: Executor, data: InsertFloodExposureData[]): Promise<FloodExposureData[]> {
+    const rows = dedupeObservations(data.map(d => ({ ...d, ...spatialKeys(d.latitude, d.longitude) })));
+    const results: FloodExposureData[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CHUNK_SIZE) {
+      results.push(...await executor
+        .insert(floodExposureData)
+        .values(rows.slice(i, i + BATCH_CHUNK_SIZE))
+        .onConflictDoUpdate(upsertOnObservationKey(floodExposureData))
+        .returning());
+    }
+    return results;
+  }
+
+  private async upsertNoiseRows(executor: Executor, data: InsertNoiseData[]): Promise<NoiseData[]> {
+    const rows = dedupeObservations(data.map(d => ({ ...d, ...spatialKeys(d.latitude, d.longitude) })));
+    const results: NoiseData[] = [];
+    for (let i = 0; i < rows.length; i += BATCH_CHUNK_SIZE) {
+      results.push(...await executor
+        .insert(noiseData)
+        .values(rows.slice(i, i + BATCH_CHUNK_SIZE))
+        .onConflictDoUpdate(upsertOnObservationKey(noiseData))
+        .returning());
+    }
+    return results;
+  }
+
   // Query methods with geospatial calculations
-  async getAirQualityDataByLocation(lat: number, lon: number, radius: number = 0.1): Promise<AirQualityData[]> {
-    return await db
+  async getAirQualityDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<AirQualityData[]> {
+    const { radiusKm = DEFAULT_READING_RADIUS_KM, sortBy, since } = query;
+    return await this.db
       .select()
       .from(airQualityData)
-      .where(
-        and(
-          gte(airQualityData.latitude, lat - radius),
-          lte(airQualityData.latitude, lat + radius),
-          gte(airQualityData.longitude, lon - radius),
-          lte(airQualityData.longitude, lon + radius)
-        )
-      )
-      .orderBy(desc(airQualityData.timestamp));
+      .where(withinRadius(airQualityData, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(airQualityData, lat, lon, sortBy));
   }
 
-  async getWaterSecurityDataByLocation(lat: number, lon: number, radius: number = 0.1): Promise<WaterSecurityData[]> {
-    return await db
+  async getWaterSecurityDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<WaterSecurityData[]> {
+    const { radiusKm = DEFAULT_READING_RADIUS_KM, sortBy, since } = query;
+    return await this.db
       .select()
       .from(waterSecurityData)
-      .where(
-        and(
-          gte(waterSecurityData.latitude, lat - radius),
-          lte(waterSecurityData.latitude, lat + radius),
-          gte(waterSecurityData.longitude, lon - radius),
-          lte(waterSecurityData.longitude, lon + radius)
-        )
-      )
-      .orderBy(desc(waterSecurityData.timestamp));
+      .where(withinRadius(waterSecurityData, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(waterSecurityData, lat, lon, sortBy));
   }
 
-  async getGreenSpaceDataByLocation(lat: number, lon: number, radius: number = 0.1): Promise<GreenSpaceData[]> {
-    return await db
+  async getGreenSpaceDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<GreenSpaceData[]> {
+    const { radiusKm = DEFAULT_READING_RADIUS_KM, sortBy, since } = query;
+    return await this.db
       .select()
       .from(greenSpaceData)
-      .where(
-        and(
-          gte(greenSpaceData.latitude, lat - radius),
-          lte(greenSpaceData.latitude, lat + radius),
-          gte(greenSpaceData.longitude, lon - radius),
-          lte(greenSpaceData.longitude, lon + radius)
-        )
-      )
-      .orderBy(desc(greenSpaceData.timestamp));
+      .where(withinRadius(greenSpaceData, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(greenSpaceData, lat, lon, sortBy));
+  }
+
+  async getHeatDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<HeatData[]> {
+    const { radiusKm = DEFAULT_READING_RADIUS_KM, sortBy, since } = query;
+    return await this.db
+      .select()
+      .from(heatData)
+      .where(withinRadius(heatData, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(heatData, lat, lon, sortBy));
+  }
+
+  async getFloodExposureDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<FloodExposureData[]> {
+    const { radiusKm = DEFAULT_READING_RADIUS_KM, sortBy, since } = query;
+    return await this.db
+      .select()
+      .from(floodExposureData)
+      .where(withinRadius(floodExposureData, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(floodExposureData, lat, lon, sortBy));
+  }
+
+  async getNoiseDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<NoiseData[]> {
+    const { radiusKm = DEFAULT_READING_RADIUS_KM, sortBy, since } = query;
+    return await this.db
+      .select()
+      .from(noiseData)
+      .where(withinRadius(noiseData, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(noiseData, lat, lon, sortBy));
   }
 
-  async getLivabilityScoreByLocation(lat: number, lon: number): Promise<LiveabilityScore | undefined> {
-    const [score] = await db
+  async getLivabilityScoreByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<LiveabilityScore | undefined> {
+    const { radiusKm = DEFAULT_SCORE_RADIUS_KM, sortBy, since } = query;
+    const [score] = await this.db
       .select()
       .from(livabilityScores)
-      .where(
-        and(
-          gte(livabilityScores.latitude, lat - 0.01),
-          lte(livabilityScores.latitude, lat + 0.01),
-          gte(livabilityScores.longitude, lon - 0.01),
-          lte(livabilityScores.longitude, lon + 0.01)
-        )
-      )
-      .orderBy(desc(livabilityScores.timestamp))
+      .where(withinRadius(livabilityScores, lat, lon, radiusKm, since))
+      .orderBy(...locationOrder(livabilityScores, lat, lon, sortBy))
       .limit(1);
     return score || undefined;
   }
 
+  async getLivabilityScoreHistory(
+    lat: number,
+    lon: number,
+    from: Date,
+    to: Date,
+    query: LocationQuery = {}
+  ): Promise<LiveabilityScore[]> {
+    const { radiusKm = DEFAULT_SCORE_RADIUS_KM } = query;
+    return await this.db
+      .select()
+      .from(livabilityScores)
+      .where(and(
+        withinRadius(livabilityScores, lat, lon, radiusKm, from),
+        lte(livabilityScores.timestamp, to)
+      ))
+      .orderBy(asc(livabilityScores.timestamp));
+  }
+
   async getActiveAlerts(): Promise<EnvironmentalAlert[]> {
-    return await db
+    return await this.db
       .select()
       .from(environmentalAlerts)
-      .where(eq(environmentalAlerts.isActive, true))
+      .where(inArray(environmentalAlerts.status, OPEN_ALERT_STATUSES))
       .orderBy(desc(environmentalAlerts.severity), desc(environmentalAlerts.timestamp));
   }
 
-  async getRecentEnvironmentalData(lat: number, lon: number, hours: number = 24) {
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - hours);
+  async getEnvironmentalAlert(id: string): Promise<EnvironmentalAlert | undefined> {
+    const [alert] = await this.db.select().from(environmentalAlerts).where(eq(environmentalAlerts.id, id));
+    return alert || undefined;
+  }
+
+  // Alerts have no geohash, so the status index narrows the rows before the distance check
+  async getOpenAlertsByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<EnvironmentalAlert[]> {
+    const { radiusKm = DEFAULT_SCORE_RADIUS_KM } = query;
+    return await this.db
+      .select()
+      .from(environmentalAlerts)
+      .where(and(
+        inArray(environmentalAlerts.status, OPEN_ALERT_STATUSES),
+        lte(distanceKmSql(environmentalAlerts, lat, lon), radiusKm)
+      ))
+      .orderBy(desc(environmentalAlerts.timestamp));
+  }
+
+  async getLatestAlertByFingerprint(fingerprint: string): Promise<EnvironmentalAlert | undefined> {
+    const [alert] = await this.db
+      .select()
+      .from(environmentalAlerts)
+      .where(eq(environmentalAlerts.fingerprint, fingerprint))
+      .orderBy(desc(environmentalAlerts.timestamp))
+      .limit(1);
+    return alert || undefined;
+  }
+
+  async updateEnvironmentalAlert(id: string, updates: Partial<InsertEnvironmentalAlert>): Promise<EnvironmentalAlert | undefined> {
+    const [result] = await this.db
+      .update(environmentalAlerts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(environmentalAlerts.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async getRecentEnvironmentalData(lat: number, lon: number, hours: number = 24, query: LocationQuery = {}): Promise<EnvironmentalData> {
+    const since = new Date();
+    since.setHours(since.getHours() - hours);
+    const recent = { ...query, since };
 
-    const [airQuality, waterSecurity, greenSpace] = await Promise.all([
-      this.getAirQualityDataByLocation(lat, lon),
-      this.getWaterSecurityDataByLocation(lat, lon),
-      this.getGreenSpaceDataByLocation(lat, lon)
+    const [airQuality, waterSecurity, greenSpace, heat, flood, noise] = await Promise.all([
+      this.getAirQualityDataByLocation(lat, lon, recent),
+      this.getWaterSecurityDataByLocation(lat, lon, recent),
+      this.getGreenSpaceDataByLocation(lat, lon, recent),
+      this.getHeatDataByLocation(lat, lon, recent),
+      this.getFloodExposureDataByLocation(lat, lon, recent),
+      this.getNoiseDataByLocation(lat, lon, recent)
     ]);
 
+    return { airQuality, waterSecurity, greenSpace, heat, flood, noise };
+  }
+
+  // Backfill job methods
+  async createBackfillJob(job: InsertBackfillJob): Promise<BackfillJob> {
+    const [result] = await this.db
+      .insert(backfillJobs)
+      .values(job)
+      .returning();
+    return result;
+  }
+
+  async updateBackfillJob(id: string, updates: Partial<InsertBackfillJob>): Promise<BackfillJob | undefined> {
+    const [result] = await this.db
+      .update(backfillJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(backfillJobs.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async getBackfillJob(id: string): Promise<BackfillJob | undefined> {
+    const [job] = await this.db.select().from(backfillJobs).where(eq(backfillJobs.id, id));
+    return job || undefined;
+  }
+
+  async getBackfillJobsByStatus(statuses: string[]): Promise<BackfillJob[]> {
+    return await this.db
+      .select()
+      .from(backfillJobs)
+      .where(inArray(backfillJobs.status, statuses))
+      .orderBy(backfillJobs.createdAt);
+  }
+
+  // Scoring profile methods
+  async createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile> {
+    const [result] = await this.db
+      .insert(scoringProfiles)
+      .values(profile)
+      .returning();
+    return result;
+  }
+
+  async getScoringProfiles(): Promise<ScoringProfile[]> {
+    return await this.db.select().from(scoringProfiles).orderBy(scoringProfiles.createdAt);
+  }
+
+  async getScoringProfileByName(name: string): Promise<ScoringProfile | undefined> {
+    const [profile] = await this.db.select().from(scoringProfiles).where(eq(scoringProfiles.name, name));
+    return profile || undefined;
+  }
+
+  async getDefaultScoringProfile(): Promise<ScoringProfile | undefined> {
+    const [profile] = await this.db.select().from(scoringProfiles).where(eq(scoringProfiles.isDefault, true));
+    return profile || undefined;
+  }
+
+  async setDefaultScoringProfile(name: string): Promise<ScoringProfile | undefined> {
+    return await this.db.transaction(async tx => {
+      const [profile] = await tx.select().from(scoringProfiles).where(eq(scoringProfiles.name, name));
+      if (!profile) return undefined;
+
+      await tx.update(scoringProfiles).set({ isDefault: false }).where(eq(scoringProfiles.isDefault, true));
+      const [updated] = await tx
+        .update(scoringProfiles)
+        .set({ isDefault: true })
+        .where(eq(scoringProfiles.id, profile.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async clearDefaultScoringProfile(): Promise<void> {
+    await this.db.update(scoringProfiles).set({ isDefault: false }).where(eq(scoringProfiles.isDefault, true));
+  }
+
+  // Alert rule methods
+  async getAlertRules(): Promise<AlertRule[]> {
+    return await this.db.select().from(alertRules).orderBy(alertRules.createdAt, alertRules.id);
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await this.db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [result] = await this.db
+      .insert(alertRules)
+      .values(rule)
+      .returning();
+    return result;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [result] = await this.db
+      .update(alertRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(alertRules.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(alertRules).where(eq(alertRules.id, id)).returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  // Alert threshold override methods
+  async getAlertThresholdOverrides(): Promise<AlertThresholdOverride[]> {
+    return await this.db.select().from(alertThresholdOverrides).orderBy(alertThresholdOverrides.createdAt);
+  }
+
+  async getAlertThresholdOverridesAt(lat: number, lon: number, userId?: string): Promise<AlertThresholdOverride[]> {
+    return await this.db
+      .select()
+      .from(alertThresholdOverrides)
+      .where(and(
+        userId === undefined
+          ? isNull(alertThresholdOverrides.userId)
+          : or(isNull(alertThresholdOverrides.userId), eq(alertThresholdOverrides.userId, userId)),
+        or(
+          isNull(alertThresholdOverrides.latitude),
+          lte(distanceKmSql(alertThresholdOverrides, lat, lon), alertThresholdOverrides.radiusKm)
+        )
+      ))
+      .orderBy(alertThresholdOverrides.createdAt);
+  }
+
+  async createAlertThresholdOverride(override: InsertAlertThresholdOverride): Promise<AlertThresholdOverride> {
+    const [result] = await this.db
+      .insert(alertThresholdOverrides)
+      .values(override)
+      .returning();
+    return result;
+  }
+
+  async upsertAlertThresholdOverride(
+    override: InsertAlertThresholdOverride
+  ): Promise<{ override: AlertThresholdOverride; created: boolean }> {
+    const [{ created, ...result }] = await this.db
+      .insert(alertThresholdOverrides)
+      .values(override)
+      .onConflictDoUpdate({
+        target: [
+          alertThresholdOverrides.userId,
+          alertThresholdOverrides.latitude,
+          alertThresholdOverrides.longitude,
+          alertThresholdOverrides.radiusKm
+        ],
+        set: { thresholds: override.thresholds, updatedAt: new Date() }
+      })
+      // xmax is zero only on a freshly inserted row version
+      .returning({ ...getTableColumns(alertThresholdOverrides), created: sql<boolean>`xmax = 0` });
+    return { override: result, created };
+  }
+
+  async updateAlertThresholdOverride(
+    id: string,
+    updates: Partial<InsertAlertThresholdOverride>
+  ): Promise<AlertThresholdOverride | undefined> {
+    const [result] = await this.db
+      .update(alertThresholdOverrides)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(alertThresholdOverrides.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async deleteAlertThresholdOverride(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(alertThresholdOverrides)
+      .where(eq(alertThresholdOverrides.id, id))
+      .returning({ id: alertThresholdOverrides.id });
+    return deleted.length > 0;
+  }
+
+  // Watched location methods
+  async getWatchedLocations(): Promise<WatchedLocation[]> {
+    return await this.db.select().from(watchedLocations).orderBy(watchedLocations.createdAt);
+  }
+
+  async getWatchedLocation(id: string): Promise<WatchedLocation | undefined> {
+    const [location] = await this.db.select().from(watchedLocations).where(eq(watchedLocations.id, id));
+    return location || undefined;
+  }
+
+  async getDueWatchedLocations(now: Date): Promise<WatchedLocation[]> {
+    return await this.db
+      .select()
+      .from(watchedLocations)
+      .where(and(eq(watchedLocations.enabled, true), lte(watchedLocations.nextRunAt, now)))
+      .orderBy(watchedLocations.nextRunAt);
+  }
+
+  async createWatchedLocation(location: InsertWatchedLocation): Promise<WatchedLocation> {
+    const [result] = await this.db
+      .insert(watchedLocations)
+      .values(location)
+      .returning();
+    return result;
+  }
+
+  async updateWatchedLocation(id: string, updates: Partial<InsertWatchedLocation>): Promise<WatchedLocation | undefined> {
+    const [result] = await this.db
+      .update(watchedLocations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(watchedLocations.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async deleteWatchedLocation(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(watchedLocations)
+      .where(eq(watchedLocations.id, id))
+      .returning({ id: watchedLocations.id });
+    return deleted.length > 0;
+  }
+
+  // Notification channel methods
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return await this.db.select().from(notificationChannels).orderBy(notificationChannels.createdAt);
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | undefined> {
+    const [channel] = await this.db.select().from(notificationChannels).where(eq(notificationChannels.id, id));
+    return channel || undefined;
+  }
+
+  async createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [result] = await this.db
+      .insert(notificationChannels)
+      .values(channel)
+      .returning();
+    return result;
+  }
+
+  async updateNotificationChannel(
+    id: string,
+    updates: Partial<InsertNotificationChannel>
+  ): Promise<NotificationChannel | undefined> {
+    const [result] = await this.db
+      .update(notificationChannels)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(notificationChannels.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notificationChannels)
+      .where(eq(notificationChannels.id, id))
+      .returning({ id: notificationChannels.id });
+    return deleted.length > 0;
+  }
+
+  // Notification delivery log methods
+  async createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const [result] = await this.db
+      .insert(notificationDeliveries)
+      .values(delivery)
+      .returning();
+    return result;
+  }
+
+  async updateNotificationDelivery(
+    id: string,
+    updates: Partial<InsertNotificationDelivery>
+  ): Promise<NotificationDelivery | undefined> {
+    const [result] = await this.db
+      .update(notificationDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async getNotificationDelivery(id: string): Promise<NotificationDelivery | undefined> {
+    const [delivery] = await this.db.select().from(notificationDeliveries).where(eq(notificationDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async getNotificationDeliveries(query: DeliveryQuery = {}): Promise<NotificationDelivery[]> {
+    const conditions: SQL[] = [];
+    if (query.channelId !== undefined) conditions.push(eq(notificationDeliveries.channelId, query.channelId));
+    if (query.alertId !== undefined) conditions.push(eq(notificationDeliveries.alertId, query.alertId));
+    if (query.status !== undefined) conditions.push(eq(notificationDeliveries.status, query.status));
+
+    return await this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(query.limit ?? 100);
+  }
+
+  async getDueNotificationDeliveries(now: Date): Promise<NotificationDelivery[]> {
+    return await this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(eq(notificationDeliveries.status, 'pending'), lte(notificationDeliveries.nextAttemptAt, now)))
+      .orderBy(notificationDeliveries.nextAttemptAt);
+  }
+}
+
+type StoredReading = { id: string; latitude: number; longitude: number; source: string; locationKey: string; timestamp: Date };
+
+const newestFirst = (a: { timestamp: Date }, b: { timestamp: Date }) => b.timestamp.getTime() - a.timestamp.getTime();
+
+/**
+ * In-process IStorage for local development and tests; data lives only as long as the process
+ */
+export class MemStorage implements IStorage {
+  private readonly users = new Map<string, User>();
+  // Readings are keyed by observation so repeated ingestion upserts like the database does
+  private readonly airQuality = new Map<string, AirQualityData>();
+  private readonly waterSecurity = new Map<string, WaterSecurityData>();
+  private readonly greenSpace = new Map<string, GreenSpaceData>();
+  private readonly heat = new Map<string, HeatData>();
+  private readonly flood = new Map<string, FloodExposureData>();
+  private readonly noise = new Map<string, NoiseData>();
+  private readonly livabilityScores = new Map<string, LiveabilityScore>();
+  private readonly alerts = new Map<string, EnvironmentalAlert>();
+  private readonly backfillJobs = new Map<string, BackfillJob>();
+  private readonly scoringProfiles = new Map<string, ScoringProfile>();
+  private readonly alertRules = new Map<string, AlertRule>();
+  private readonly thresholdOverrides = new Map<string, AlertThresholdOverride>();
+  private readonly watchedLocations = new Map<string, WatchedLocation>();
+  private readonly notificationChannels = new Map<string, NotificationChannel>();
+  private readonly notificationDeliveries = new Map<string, NotificationDelivery>();
+
+  // Legacy user methods
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username "${insertUser.username}" already exists`);
+    }
+    const user: User = { ...insertUser, id: randomUUID() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  // Environmental data methods
+  async insertAirQualityData(data: InsertAirQualityData): Promise<AirQualityData> {
+    return this.upsertReading(this.airQuality, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      ...spatialKeys(data.latitude, data.longitude),
+      aqi: data.aqi,
+      pm25: data.pm25 ?? null,
+      pm10: data.pm10 ?? null,
+      ozone: data.ozone ?? null,
+      no2: data.no2 ?? null,
+      so2: data.so2 ?? null,
+      source: data.source,
+      timestamp: data.timestamp ?? new Date(),
+      metadata: data.metadata ?? null
+    });
+  }
+
+  async insertWaterSecurityData(data: InsertWaterSecurityData): Promise<WaterSecurityData> {
+    return this.upsertReading(this.waterSecurity, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      ...spatialKeys(data.latitude, data.longitude),
+      waterStressLevel: data.waterStressLevel,
+      precipitationLevel: data.precipitationLevel ?? null,
+      groundwaterLevel: data.groundwaterLevel ?? null,
+      floodRisk: data.floodRisk ?? null,
+      source: data.source,
+      timestamp: data.timestamp ?? new Date(),
+      metadata: data.metadata ?? null
+    });
+  }
+
+  async insertGreenSpaceData(data: InsertGreenSpaceData): Promise<GreenSpaceData> {
+    return this.upsertReading(this.greenSpace, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      ...spatialKeys(data.latitude, data.longitude),
+      ndvi: data.ndvi,
+      vegetationCoverage: data.vegetationCoverage ?? null,
+      greenSpaceType: data.greenSpaceType ?? null,
+      source: data.source,
+      timestamp: data.timestamp ?? new Date(),
+      metadata: data.metadata ?? null
+    });
+  }
+
+  async insertHeatData(data: InsertHeatData): Promise<HeatData> {
+    return this.upsertReading(this.heat, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      ...spatialKeys(data.latitude, data.longitude),
+      landSurfaceTemperature: data.landSurfaceTemperature,
+      urbanHeatIsland: data.urbanHeatIsland ?? null,
+      source: data.source,
+      timestamp: data.timestamp ?? new Date(),
+      metadata: data.metadata ?? null
+    });
+  }
+
+  async insertFloodExposureData(data: InsertFloodExposureData): Promise<FloodExposureData> {
+    return this.upsertReading(this.flood, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      ...spatialKeys(data.latitude, data.longitude),
+      floodRisk: data.floodRisk,
+      inundatedArea: data.inundatedArea ?? null,
+      source: data.source,
+      timestamp: data.timestamp ?? new Date(),
+      metadata: data.metadata ?? null
+    });
+  }
+
+  async insertNoiseData(data: InsertNoiseData): Promise<NoiseData> {
+    return this.upsertReading(this.noise, {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      ...spatialKeys(data.latitude, data.longitude),
+      noiseLevel: data.noiseLevel,
+      source: data.source,
+      timestamp: data.timestamp ?? new Date(),
+      metadata: data.metadata ?? null
+    });
+  }
+
+  async insertLivabilityScore(score: InsertLivabilityScore): Promise<LiveabilityScore> {
+    const result: LiveabilityScore = {
+      ...score,
+      geohash: encodeGeohash(score.latitude, score.longitude),
+      profile: score.profile ?? null,
+      dominantPollutant: score.dominantPollutant ?? null,
+      confidenceLower: score.confidenceLower ?? null,
+      confidenceUpper: score.confidenceUpper ?? null,
+      dataQuality: score.dataQuality ?? null,
+      dimensionScores: score.dimensionScores ?? null,
+      location: score.location ?? null,
+      id: randomUUID(),
+      timestamp: score.timestamp ?? new Date()
+    };
+    this.livabilityScores.set(result.id, result);
+    return result;
+  }
+
+  async insertEnvironmentalAlert(alert: InsertEnvironmentalAlert): Promise<EnvironmentalAlert> {
+    const result: EnvironmentalAlert = {
+      ...alert,
+      latitude: alert.latitude ?? null,
+      longitude: alert.longitude ?? null,
+      location: alert.location ?? null,
+      isActive: alert.isActive ?? true,
+      actionable: alert.actionable ?? false,
+      recommendations: alert.recommendations ?? null,
+      status: alert.status ?? 'active',
+      statusHistory: alert.statusHistory ?? [],
+      rule: alert.rule ?? null,
+      userId: alert.userId ?? null,
+      fingerprint: alert.fingerprint ?? null,
+      occurrences: alert.occurrences ?? 1,
+      lastSeenAt: alert.lastSeenAt ?? new Date(),
+      id: randomUUID(),
+      timestamp: new Date(),
+      updatedAt: new Date()
+    };
+    this.alerts.set(result.id, result);
+    return result;
+  }
+
+  // Batched upserts
+  async insertAirQualityBatch(data: InsertAirQualityData[]): Promise<AirQualityData[]> {
+    return await Promise.all(data.map(d => this.insertAirQualityData(d)));
+  }
+
+  async insertWaterSecurityBatch(data: InsertWaterSecurityData[]): Promise<WaterSecurityData[]> {
+    return await Promise.all(data.map(d => this.insertWaterSecurityData(d)));
+  }
+
+  async insertGreenSpaceBatch(data: InsertGreenSpaceData[]): Promise<GreenSpaceData[]> {
+    return await Promise.all(data.map(d => this.insertGreenSpaceData(d)));
+  }
+
+  async insertEnvironmentalBatch(batch: EnvironmentalBatch): Promise<EnvironmentalData> {
+    // Inserts are synchronous underneath, so no other request can observe a partial batch
     return {
-      airQuality: airQuality.filter(d => new Date(d.timestamp) >= cutoffTime),
-      waterSecurity: waterSecurity.filter(d => new Date(d.timestamp) >= cutoffTime),
-      greenSpace: greenSpace.filter(d => new Date(d.timestamp) >= cutoffTime)
+      airQuality: await this.insertAirQualityBatch(batch.airQuality),
+      waterSecurity: await this.insertWaterSecurityBatch(batch.waterSecurity),
+      greenSpace: await this.insertGreenSpaceBatch(batch.greenSpace),
+      heat: await Promise.all(batch.heat.map(d => this.insertHeatData(d))),
+      flood: await Promise.all(batch.flood.map(d => this.insertFloodExposureData(d))),
+      noise: await Promise.all(batch.noise.map(d => this.insertNoiseData(d)))
+    };
+  }
+
+  // Query methods with the same great-circle semantics as DatabaseStorage
+  async getAirQualityDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<AirQualityData[]> {
+    return this.rowsNear(this.airQuality, lat, lon, query.radiusKm ?? DEFAULT_READING_RADIUS_KM, query.sortBy, query.since);
+  }
+
+  async getWaterSecurityDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<WaterSecurityData[]> {
+    return this.rowsNear(this.waterSecurity, lat, lon, query.radiusKm ?? DEFAULT_READING_RADIUS_KM, query.sortBy, query.since);
+  }
+
+  async getGreenSpaceDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<GreenSpaceData[]> {
+    return this.rowsNear(this.greenSpace, lat, lon, query.radiusKm ?? DEFAULT_READING_RADIUS_KM, query.sortBy, query.since);
+  }
+
+  async getHeatDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<HeatData[]> {
+    return this.rowsNear(this.heat, lat, lon, query.radiusKm ?? DEFAULT_READING_RADIUS_KM, query.sortBy, query.since);
+  }
+
+  async getFloodExposureDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<FloodExposureData[]> {
+    return this.rowsNear(this.flood, lat, lon, query.radiusKm ?? DEFAULT_READING_RADIUS_KM, query.sortBy, query.since);
+  }
+
+  async getNoiseDataByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<NoiseData[]> {
+    return this.rowsNear(this.noise, lat, lon, query.radiusKm ?? DEFAULT_READING_RADIUS_KM, query.sortBy, query.since);
+  }
+
+  async getLivabilityScoreByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<LiveabilityScore | undefined> {
+    return this.rowsNear(this.livabilityScores, lat, lon, query.radiusKm ?? DEFAULT_SCORE_RADIUS_KM, query.sortBy, query.since)[0];
+  }
+
+  async getLivabilityScoreHistory(
+    lat: number,
+    lon: number,
+    from: Date,
+    to: Date,
+    query: LocationQuery = {}
+  ): Promise<LiveabilityScore[]> {
+    return this.rowsNear(this.livabilityScores, lat, lon, query.radiusKm ?? DEFAULT_SCORE_RADIUS_KM, 'time', from)
+      .filter(score => score.timestamp <= to)
+      .reverse();
+  }
+
+  async getActiveAlerts(): Promise<EnvironmentalAlert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => OPEN_ALERT_STATUSES.includes(alert.status as AlertStatus))
+      .sort((a, b) => b.severity - a.severity || newestFirst(a, b));
+  }
+
+  async getEnvironmentalAlert(id: string): Promise<EnvironmentalAlert | undefined> {
+    return this.alerts.get(id);
+  }
+
+  async getOpenAlertsByLocation(lat: number, lon: number, query: LocationQuery = {}): Promise<EnvironmentalAlert[]> {
+    const radiusKm = query.radiusKm ?? DEFAULT_SCORE_RADIUS_KM;
+    return (await this.getActiveAlerts())
+      .filter(alert => alert.latitude !== null && alert.longitude !== null &&
+        haversineKm(lat, lon, alert.latitude, alert.longitude) <= radiusKm)
+      .sort(newestFirst);
+  }
+
+  async getLatestAlertByFingerprint(fingerprint: string): Promise<EnvironmentalAlert | undefined> {
+    // Reversed first so the later insert wins a timestamp tie
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.fingerprint === fingerprint)
+      .reverse()
+      .sort(newestFirst)[0];
+  }
+
+  async updateEnvironmentalAlert(id: string, updates: Partial<InsertEnvironmentalAlert>): Promise<EnvironmentalAlert | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+
+    const updated: EnvironmentalAlert = { ...alert, ...updates, updatedAt: new Date() };
+    this.alerts.set(id, updated);
+    return updated;
+  }
+
+  async getRecentEnvironmentalData(lat: number, lon: number, hours: number = 24, query: LocationQuery = {}): Promise<EnvironmentalData> {
+    const since = new Date();
+    since.setHours(since.getHours() - hours);
+    const recent = { ...query, since };
+
+    const [airQuality, waterSecurity, greenSpace, heat, flood, noise] = await Promise.all([
+      this.getAirQualityDataByLocation(lat, lon, recent),
+      this.getWaterSecurityDataByLocation(lat, lon, recent),
+      this.getGreenSpaceDataByLocation(lat, lon, recent),
+      this.getHeatDataByLocation(lat, lon, recent),
+      this.getFloodExposureDataByLocation(lat, lon, recent),
+      this.getNoiseDataByLocation(lat, lon, recent)
+    ]);
+
+    return { airQuality, waterSecurity, greenSpace, heat, flood, noise };
+  }
+
+  // Backfill job methods
+  async createBackfillJob(job: InsertBackfillJob): Promise<BackfillJob> {
+    const now = new Date();
+    const result: BackfillJob = {
+      status: job.status ?? 'pending',
+      request: job.request,
+      totalSteps: job.totalSteps ?? 0,
+      completedSteps: job.completedSteps ?? 0,
+      insertedReadings: job.insertedReadings ?? 0,
+      cursor: job.cursor ?? null,
+      error: job.error ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
     };
+    this.backfillJobs.set(result.id, result);
+    return result;
+  }
+
+  async updateBackfillJob(id: string, updates: Partial<InsertBackfillJob>): Promise<BackfillJob | undefined> {
+    const job = this.backfillJobs.get(id);
+    if (!job) return undefined;
+
+    const updated: BackfillJob = { ...job, ...updates, updatedAt: new Date() };
+    this.backfillJobs.set(id, updated);
+    return updated;
+  }
+
+  async getBackfillJob(id: string): Promise<BackfillJob | undefined> {
+    return this.backfillJobs.get(id);
+  }
+
+  async getBackfillJobsByStatus(statuses: string[]): Promise<BackfillJob[]> {
+    return Array.from(this.backfillJobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Scoring profile methods
+  async createScoringProfile(profile: InsertScoringProfile): Promise<ScoringProfile> {
+    if (await this.getScoringProfileByName(profile.name)) {
+      throw new Error(`Scoring profile "${profile.name}" already exists`);
+    }
+    const result: ScoringProfile = {
+      ...profile,
+      description: profile.description ?? null,
+      isDefault: profile.isDefault ?? false,
+      id: randomUUID(),
+      createdAt: new Date()
+    };
+    this.scoringProfiles.set(result.id, result);
+    return result;
+  }
+
+  async getScoringProfiles(): Promise<ScoringProfile[]> {
+    return Array.from(this.scoringProfiles.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getScoringProfileByName(name: string): Promise<ScoringProfile | undefined> {
+    return Array.from(this.scoringProfiles.values()).find(profile => profile.name === name);
+  }
+
+  async getDefaultScoringProfile(): Promise<ScoringProfile | undefined> {
+    return Array.from(this.scoringProfiles.values()).find(profile => profile.isDefault);
+  }
+
+  async setDefaultScoringProfile(name: string): Promise<ScoringProfile | undefined> {
+    const profile = await this.getScoringProfileByName(name);
+    if (!profile) return undefined;
+
+    await this.clearDefaultScoringProfile();
+    const updated = { ...profile, isDefault: true };
+    this.scoringProfiles.set(updated.id, updated);
+    return updated;
+  }
+
+  async clearDefaultScoringProfile(): Promise<void> {
+    for (const profile of Array.from(this.scoringProfiles.values())) {
+      if (profile.isDefault) {
+        this.scoringProfiles.set(profile.id, { ...profile, isDefault: false });
+      }
+    }
+  }
+
+  // Alert rule methods
+  async getAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    if (this.alertRules.has(rule.id)) {
+      throw new Error(`Alert rule "${rule.id}" already exists`);
+    }
+    const now = new Date();
+    const result: AlertRule = {
+      ...rule,
+      description: rule.description ?? null,
+      measure: rule.measure ?? 'value',
+      changeWindowMinutes: rule.changeWindowMinutes ?? null,
+      persistenceMinutes: rule.persistenceMinutes ?? 0,
+      cooldownMinutes: rule.cooldownMinutes ?? 30,
+      suppressMinutes: rule.suppressMinutes ?? 360,
+      actionable: rule.actionable ?? true,
+      enabled: rule.enabled ?? true,
+      builtIn: rule.builtIn ?? false,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.alertRules.set(result.id, result);
+    return result;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const rule = this.alertRules.get(id);
+    if (!rule) return undefined;
+
+    const updated: AlertRule = { ...rule, ...updates, updatedAt: new Date() };
+    this.alertRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return this.alertRules.delete(id);
+  }
+
+  // Alert threshold override methods
+  async getAlertThresholdOverrides(): Promise<AlertThresholdOverride[]> {
+    return Array.from(this.thresholdOverrides.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAlertThresholdOverridesAt(lat: number, lon: number, userId?: string): Promise<AlertThresholdOverride[]> {
+    return (await this.getAlertThresholdOverrides()).filter(override =>
+      (override.userId === null || override.userId === userId) &&
+      (override.latitude === null || override.longitude === null || override.radiusKm === null ||
+        haversineKm(lat, lon, override.latitude, override.longitude) <= override.radiusKm));
+  }
+
+  async createAlertThresholdOverride(override: InsertAlertThresholdOverride): Promise<AlertThresholdOverride> {
+    const now = new Date();
+    const result: AlertThresholdOverride = {
+      ...override,
+      userId: override.userId ?? null,
+      latitude: override.latitude ?? null,
+      longitude: override.longitude ?? null,
+      radiusKm: override.radiusKm ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.thresholdOverrides.set(result.id, result);
+    return result;
+  }
+
+  async upsertAlertThresholdOverride(
+    override: InsertAlertThresholdOverride
+  ): Promise<{ override: AlertThresholdOverride; created: boolean }> {
+    const scope = {
+      userId: override.userId ?? null,
+      latitude: override.latitude ?? null,
+      longitude: override.longitude ?? null,
+      radiusKm: override.radiusKm ?? null
+    };
+    const existing = Array.from(this.thresholdOverrides.values()).find(stored =>
+      stored.userId === scope.userId &&
+      stored.latitude === scope.latitude &&
+      stored.longitude === scope.longitude &&
+      stored.radiusKm === scope.radiusKm);
+
+    if (existing) {
+      const updated = await this.updateAlertThresholdOverride(existing.id, { thresholds: override.thresholds });
+      return { override: updated!, created: false };
+    }
+    return { override: await this.createAlertThresholdOverride(override), created: true };
+  }
+
+  async updateAlertThresholdOverride(
+    id: string,
+    updates: Partial<InsertAlertThresholdOverride>
+  ): Promise<AlertThresholdOverride | undefined> {
+    const override = this.thresholdOverrides.get(id);
+    if (!override) return undefined;
+
+    const updated: AlertThresholdOverride = { ...override, ...updates, updatedAt: new Date() };
+    this.thresholdOverrides.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertThresholdOverride(id: string): Promise<boolean> {
+    return this.thresholdOverrides.delete(id);
+  }
+
+  // Watched location methods
+  async getWatchedLocations(): Promise<WatchedLocation[]> {
+    return Array.from(this.watchedLocations.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getWatchedLocation(id: string): Promise<WatchedLocation | undefined> {
+    return this.watchedLocations.get(id);
+  }
+
+  async getDueWatchedLocations(now: Date): Promise<WatchedLocation[]> {
+    return Array.from(this.watchedLocations.values())
+      .filter(location => location.enabled && location.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime());
+  }
+
+  async createWatchedLocation(location: InsertWatchedLocation): Promise<WatchedLocation> {
+    const now = new Date();
+    const result: WatchedLocation = {
+      ...location,
+      profile: location.profile ?? null,
+      userId: location.userId ?? null,
+      enabled: location.enabled ?? true,
+      status: location.status ?? 'pending',
+      nextRunAt: location.nextRunAt ?? now,
+      lastRunAt: location.lastRunAt ?? null,
+      lastSuccessAt: location.lastSuccessAt ?? null,
+      lastResult: location.lastResult ?? null,
+      lastError: location.lastError ?? null,
+      consecutiveFailures: location.consecutiveFailures ?? 0,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.watchedLocations.set(result.id, result);
+    return result;
+  }
+
+  async updateWatchedLocation(id: string, updates: Partial<InsertWatchedLocation>): Promise<WatchedLocation | undefined> {
+    const location = this.watchedLocations.get(id);
+    if (!location) return undefined;
+
+    const updated: WatchedLocation = { ...location, ...updates, updatedAt: new Date() };
+    this.watchedLocations.set(id, updated);
+    return updated;
+  }
+
+  async deleteWatchedLocation(id: string): Promise<boolean> {
+    return this.watchedLocations.delete(id);
+  }
+
+  // Notification channel methods
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return Array.from(this.notificationChannels.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | undefined> {
+    return this.notificationChannels.get(id);
+  }
+
+  async createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const now = new Date();
+    const result: NotificationChannel = {
+      ...channel,
+      minSeverity: channel.minSeverity ?? 0,
+      categories: channel.categories ?? null,
+      enabled: channel.enabled ?? true,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notificationChannels.set(result.id, result);
+    return result;
+  }
+
+  async updateNotificationChannel(
+    id: string,
+    updates: Partial<InsertNotificationChannel>
+  ): Promise<NotificationChannel | undefined> {
+    const channel = this.notificationChannels.get(id);
+    if (!channel) return undefined;
+
+    const updated: NotificationChannel = { ...channel, ...updates, updatedAt: new Date() };
+    this.notificationChannels.set(id, updated);
+    return updated;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    return this.notificationChannels.delete(id);
+  }
+
+  // Notification delivery log methods
+  async createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const now = new Date();
+    const result: NotificationDelivery = {
+      ...delivery,
+      alertId: delivery.alertId ?? null,
+      status: delivery.status ?? 'pending',
+      attempts: delivery.attempts ?? 0,
+      nextAttemptAt: delivery.nextAttemptAt ?? null,
+      lastError: delivery.lastError ?? null,
+      responseStatus: delivery.responseStatus ?? null,
+      deliveredAt: delivery.deliveredAt ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notificationDeliveries.set(result.id, result);
+    return result;
+  }
+
+  async updateNotificationDelivery(
+    id: string,
+    updates: Partial<InsertNotificationDelivery>
+  ): Promise<NotificationDelivery | undefined> {
+    const delivery = this.notificationDeliveries.get(id);
+    if (!delivery) return undefined;
+
+    const updated: NotificationDelivery = { ...delivery, ...updates, updatedAt: new Date() };
+    this.notificationDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async getNotificationDelivery(id: string): Promise<NotificationDelivery | undefined> {
+    return this.notificationDeliveries.get(id);
+  }
+
+  async getNotificationDeliveries(query: DeliveryQuery = {}): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .reverse()
+      .filter(delivery =>
+        (query.channelId === undefined || delivery.channelId === query.channelId) &&
+        (query.alertId === undefined || delivery.alertId === query.alertId) &&
+        (query.status === undefined || delivery.status === query.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, query.limit ?? 100);
+  }
+
+  async getDueNotificationDeliveries(now: Date): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime());
+  }
+
+  private upsertReading<T extends StoredReading>(rows: Map<string, T>, row: Omit<T, 'id'>): T {
+    const key = `${row.source}|${row.locationKey}|${row.timestamp.getTime()}`;
+    const stored = { ...row, id: rows.get(key)?.id ?? randomUUID() } as T;
+    rows.set(key, stored);
+    return stored;
+  }
+
+  private rowsNear<T extends { latitude: number; longitude: number; timestamp: Date }>(
+    rows: Map<string, T>,
+    lat: number,
+    lon: number,
+    radiusKm: number,
+    sortBy: LocationSort = 'time',
+    since?: Date
+  ): T[] {
+    const matches = Array.from(rows.values())
+      .filter(row => !since || row.timestamp >= since)
+      .map(row => ({ row, distanceKm: haversineKm(lat, lon, row.latitude, row.longitude) }))
+      .filter(match => match.distanceKm <= radiusKm);
+
+    return matches
+      .sort((a, b) => sortBy === 'distance'
+        ? a.distanceKm - b.distanceKm || newestFirst(a.row, b.row)
+        : newestFirst(a.row, b.row))
+      .map(match => match.row);
+  }
+}
+
+/**
+ * Pick the storage backend from STORAGE_DRIVER ('database' or 'memory').
+ * Without it, Postgres is used when DATABASE_URL is set. Outside production
+ * memory is the fallback; in production it must be asked for explicitly.
+ */
+export function createStorage(driver = process.env.STORAGE_DRIVER): IStorage {
+  if (!driver && !process.env.DATABASE_URL && process.env.NODE_ENV === 'production') {
+    throw new Error('DATABASE_URL is not set; set it, or set STORAGE_DRIVER=memory to run without persistence');
+  }
+
+  const selected = driver || (process.env.DATABASE_URL ? 'database' : 'memory');
+
+  switch (selected) {
+    case 'database':
+      return new DatabaseStorage();
+    case 'memory':
+      if (!driver) {
+        console.warn("DATABASE_URL is not set; using in-memory storage. Data will not persist across restarts.");
+      }
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${selected}"; expected "database" or "memory"`);
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
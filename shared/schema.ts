@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, doublePrecision, timestamp, jsonb, boolean, integer, index, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,8 @@ export const airQualityData = pgTable("air_quality_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   latitude: real("latitude").notNull(),
   longitude: real("longitude").notNull(),
+  locationKey: text("location_key").notNull(), // Rounded "lat,lon" used to de-duplicate observations
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
   aqi: real("aqi").notNull(),
   pm25: real("pm25"),
   pm10: real("pm10"),
@@ -15,34 +17,94 @@ export const airQualityData = pgTable("air_quality_data", {
   no2: real("no2"),
   so2: real("so2"),
   source: text("source").notNull(), // 'nasa_omi', 'nasa_tempo', 'local'
-  timestamp: timestamp("timestamp").notNull().default(sql`now()`),
+  timestamp: timestamp("timestamp").notNull().default(sql`now()`), // Observation time
   metadata: jsonb("metadata"),
-});
+}, (table) => [
+  uniqueIndex("air_quality_observation_idx").on(table.source, table.locationKey, table.timestamp),
+  index("air_quality_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
 
 export const waterSecurityData = pgTable("water_security_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   latitude: real("latitude").notNull(),
   longitude: real("longitude").notNull(),
+  locationKey: text("location_key").notNull(), // Rounded "lat,lon" used to de-duplicate observations
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
   waterStressLevel: real("water_stress_level").notNull(), // 0-100
   precipitationLevel: real("precipitation_level"),
   groundwaterLevel: real("groundwater_level"),
   floodRisk: real("flood_risk"), // 0-100
   source: text("source").notNull(), // 'nasa_grace', 'nasa_swot', 'local_rainfall'
-  timestamp: timestamp("timestamp").notNull().default(sql`now()`),
+  timestamp: timestamp("timestamp").notNull().default(sql`now()`), // Observation time
   metadata: jsonb("metadata"),
-});
+}, (table) => [
+  uniqueIndex("water_security_observation_idx").on(table.source, table.locationKey, table.timestamp),
+  index("water_security_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
 
 export const greenSpaceData = pgTable("green_space_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   latitude: real("latitude").notNull(),
   longitude: real("longitude").notNull(),
+  locationKey: text("location_key").notNull(), // Rounded "lat,lon" used to de-duplicate observations
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
   ndvi: real("ndvi").notNull(), // Normalized Difference Vegetation Index
   vegetationCoverage: real("vegetation_coverage"), // percentage
   greenSpaceType: text("green_space_type"), // 'park', 'forest', 'urban_green', etc.
   source: text("source").notNull(), // 'nasa_landsat', 'nasa_modis', 'local'
-  timestamp: timestamp("timestamp").notNull().default(sql`now()`),
+  timestamp: timestamp("timestamp").notNull().default(sql`now()`), // Observation time
   metadata: jsonb("metadata"),
-});
+}, (table) => [
+  uniqueIndex("green_space_observation_idx").on(table.source, table.locationKey, table.timestamp),
+  index("green_space_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
+
+export const heatData = pgTable("heat_data", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  locationKey: text("location_key").notNull(), // Rounded "lat,lon" used to de-duplicate observations
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
+  landSurfaceTemperature: real("land_surface_temperature").notNull(), // °C
+  urbanHeatIsland: real("urban_heat_island"), // °C above the surrounding rural surface
+  source: text("source").notNull(), // 'nasa_modis_lst', 'local'
+  timestamp: timestamp("timestamp").notNull().default(sql`now()`), // Observation time
+  metadata: jsonb("metadata"),
+}, (table) => [
+  uniqueIndex("heat_observation_idx").on(table.source, table.locationKey, table.timestamp),
+  index("heat_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
+
+export const floodExposureData = pgTable("flood_exposure_data", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  locationKey: text("location_key").notNull(), // Rounded "lat,lon" used to de-duplicate observations
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
+  floodRisk: real("flood_risk").notNull(), // 0-100
+  inundatedArea: real("inundated_area"), // percentage of the surrounding area under water
+  source: text("source").notNull(), // 'nasa_modis_flood', 'local'
+  timestamp: timestamp("timestamp").notNull().default(sql`now()`), // Observation time
+  metadata: jsonb("metadata"),
+}, (table) => [
+  uniqueIndex("flood_exposure_observation_idx").on(table.source, table.locationKey, table.timestamp),
+  index("flood_exposure_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
+
+export const noiseData = pgTable("noise_data", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  locationKey: text("location_key").notNull(), // Rounded "lat,lon" used to de-duplicate observations
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
+  noiseLevel: real("noise_level").notNull(), // Day-evening-night level, dB(A)
+  source: text("source").notNull(), // 'local_noise_model', 'local'
+  timestamp: timestamp("timestamp").notNull().default(sql`now()`), // Observation time
+  metadata: jsonb("metadata"),
+}, (table) => [
+  uniqueIndex("noise_observation_idx").on(table.source, table.locationKey, table.timestamp),
+  index("noise_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
 
 export const livabilityScores = pgTable("livability_scores", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -52,8 +114,28 @@ export const livabilityScores = pgTable("livability_scores", {
   waterSecurityScore: real("water_security_score").notNull(),
   greenSpaceScore: real("green_space_score").notNull(),
   overallScore: real("overall_score").notNull(),
+  geohash: text("geohash").notNull(), // Spatial cell used to index location queries
+  profile: text("profile"), // Name of the scoring profile that produced the score
+  dominantPollutant: text("dominant_pollutant"), // 'pm25', 'pm10', 'ozone', 'no2', 'so2'
+  confidenceLower: real("confidence_lower"), // 95% interval around overall_score
+  confidenceUpper: real("confidence_upper"),
+  dataQuality: jsonb("data_quality"), // DataQuality: reading counts, source mix, staleness, disagreement
+  dimensionScores: jsonb("dimension_scores"), // DimensionScore[] for every dimension that was scored
   location: text("location"),
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
+}, (table) => [
+  index("livability_geohash_time_idx").on(table.geohash.op("text_pattern_ops"), table.timestamp),
+]);
+
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  weights: jsonb("weights").notNull(), // ScoringWeights, summing to 1
+  referenceValues: jsonb("reference_values").notNull(), // ReferenceValues used for normalization
+  normalization: text("normalization").notNull().default("step"), // 'step' or 'linear'
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const environmentalAlerts = pgTable("environmental_alerts", {
@@ -66,36 +148,489 @@ export const environmentalAlerts = pgTable("environmental_alerts", {
   longitude: real("longitude"),
   location: text("location"),
   severity: real("severity").notNull(), // 0-100
-  isActive: boolean("is_active").notNull().default(true),
+  isActive: boolean("is_active").notNull().default(true), // Kept in step with status: true while open
   actionable: boolean("actionable").notNull().default(false),
   recommendations: jsonb("recommendations"),
+  status: text("status").notNull().default("active"), // AlertStatus
+  statusHistory: jsonb("status_history").notNull().default(sql`'[]'::jsonb`), // AlertTransition[], oldest first
+  rule: text("rule"), // Condition that raised the alert, e.g. 'air_quality_level'
+  userId: varchar("user_id"), // Subscriber whose thresholds raised the alert; null when shared
+  fingerprint: text("fingerprint"), // category:rule:location cell; one open alert per fingerprint
+  occurrences: integer("occurrences").notNull().default(1), // Generation runs that detected the condition
+  lastSeenAt: timestamp("last_seen_at").notNull().default(sql`now()`),
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("environmental_alerts_status_idx").on(table.status),
+  index("environmental_alerts_fingerprint_idx").on(table.fingerprint, table.timestamp),
+]);
+
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey(), // Slug such as 'air_quality_level'; part of alert fingerprints
+  description: text("description"),
+  metric: text("metric").notNull(), // AlertMetric, e.g. 'aqi'
+  measure: text("measure").notNull().default("value"), // 'value', 'change' or 'rate' (change per hour)
+  changeWindowMinutes: integer("change_window_minutes"), // Age of the change baseline; previous reading when null
+  operator: text("operator").notNull(), // 'gt', 'gte', 'lt', 'lte'
+  persistenceMinutes: integer("persistence_minutes").notNull().default(0), // How long the condition must hold
+  levels: jsonb("levels").notNull(), // AlertRuleLevel[], most severe first
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(30),
+  suppressMinutes: integer("suppress_minutes").notNull().default(360),
+  actionable: boolean("actionable").notNull().default(true),
+  enabled: boolean("enabled").notNull().default(true),
+  builtIn: boolean("built_in").notNull().default(false), // Shipped default; can be edited or disabled but not deleted
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Alert thresholds for everyone or one subscriber, everywhere or within an area; the most
+// specific override containing a point wins, value by value
+export const alertThresholdOverrides = pgTable("alert_threshold_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"), // Subscriber; null for everyone
+  latitude: doublePrecision("latitude"), // Area center; null for everywhere. Double so requests match stored values exactly
+  longitude: doublePrecision("longitude"),
+  radiusKm: doublePrecision("radius_km"),
+  thresholds: jsonb("thresholds").notNull(), // AlertThresholdValues: the values this override sets
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  // One override per subscriber and area; null scopes (everyone, everywhere) count as equal
+  unique("alert_threshold_overrides_scope_key")
+    .on(table.userId, table.latitude, table.longitude, table.radiusKm)
+    .nullsNotDistinct(),
+]);
+
+export const backfillJobs = pgTable("backfill_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'failed'
+  request: jsonb("request").notNull(), // BackfillRequest: area, time range and provider ids
+  totalSteps: integer("total_steps").notNull().default(0),
+  completedSteps: integer("completed_steps").notNull().default(0),
+  insertedReadings: integer("inserted_readings").notNull().default(0),
+  cursor: jsonb("cursor"), // BackfillCursor: next task and window to process
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const watchedLocations = pgTable("watched_locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  cadenceMinutes: integer("cadence_minutes").notNull(), // How often the location is monitored
+  profile: text("profile"), // Scoring profile name; null for the current default
+  userId: varchar("user_id"), // Subscriber whose alert thresholds apply; null for everyone
+  enabled: boolean("enabled").notNull().default(true),
+  status: text("status").notNull().default("pending"), // 'pending', 'running', 'succeeded', 'failed'
+  nextRunAt: timestamp("next_run_at").notNull().default(sql`now()`),
+  lastRunAt: timestamp("last_run_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastResult: jsonb("last_result"), // MonitoringRunResult of the last successful run
+  lastError: text("last_error"),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0), // Drives the retry backoff
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("watched_locations_due_idx").on(table.enabled, table.nextRunAt),
+]);
+
+// Where alerts are delivered, and which of them
+export const notificationChannels = pgTable("notification_channels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(), // 'webhook', 'slack', 'email'
+  config: jsonb("config").notNull(), // Settings for the kind: endpoint and signing secret, or SMTP server and recipients
+  minSeverity: real("min_severity").notNull().default(0), // Alerts below this severity are not delivered
+  categories: jsonb("categories"), // Alert categories delivered; null for every category
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channelId: varchar("channel_id").notNull(),
+  alertId: varchar("alert_id"), // Null for test sends
+  event: text("event").notNull(), // 'new', 'escalated', 'test'
+  payload: jsonb("payload").notNull(), // NotificationPayload captured when queued, so retries send the same content
+  status: text("status").notNull().default("pending"), // 'pending', 'delivered', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once delivered or given up on
+  lastError: text("last_error"),
+  responseStatus: integer("response_status"), // HTTP status or SMTP reply code of the last attempt
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("notification_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  index("notification_deliveries_channel_idx").on(table.channelId, table.createdAt),
+]);
+
+// Scoring profile schemas
+export const normalizationModeSchema = z.enum(["step", "linear"]);
+
+const profileWeight = z.number().min(0).max(1);
+
+// Air quality, water security and green space are always weighted; the
+// newer dimensions are optional so existing profiles keep their meaning
+export const scoringWeightsSchema = z.object({
+  airQuality: profileWeight,
+  waterSecurity: profileWeight,
+  greenSpace: profileWeight,
+  heat: profileWeight.optional(),
+  flood: profileWeight.optional(),
+  noise: profileWeight.optional(),
+}).refine(w => Math.abs(Object.values(w).reduce((sum, v) => sum + (v ?? 0), 0) - 1) < 1e-6, {
+  message: "Weights must sum to 1",
+});
+
+const factorThresholdsSchema = z.object({
+  excellent: z.number(),
+  good: z.number(),
+  moderate: z.number(),
+  poor: z.number(),
+  veryPoor: z.number(),
+});
+
+type FactorThresholds = z.infer<typeof factorThresholdsSchema>;
+
+const thresholdOrder = (t: FactorThresholds) => [t.excellent, t.good, t.moderate, t.poor, t.veryPoor];
+const isAscending = (t: FactorThresholds) => thresholdOrder(t).every((v, i, all) => i === 0 || all[i - 1] <= v);
+const isDescending = (t: FactorThresholds) => thresholdOrder(t).every((v, i, all) => i === 0 || all[i - 1] >= v);
+
+const ascendingThresholds = (dimension: string) => factorThresholdsSchema.refine(isAscending, {
+  message: `${dimension} thresholds must increase from 'excellent' to 'veryPoor'`,
+});
+
+// Pollution, stress, heat, flood risk and noise get worse as values rise;
+// vegetation coverage gets worse as it falls
+export const referenceValuesSchema = z.object({
+  airQuality: ascendingThresholds("Air quality"),
+  waterSecurity: ascendingThresholds("Water security"),
+  greenSpace: factorThresholdsSchema.refine(isDescending, {
+    message: "Green space thresholds must decrease from 'excellent' to 'veryPoor'",
+  }),
+  heat: ascendingThresholds("Heat").optional(), // Defaults to the built-in thresholds
+  flood: ascendingThresholds("Flood").optional(),
+  noise: ascendingThresholds("Noise").optional(),
 });
 
 // Insert Schemas
 export const insertAirQualitySchema = createInsertSchema(airQualityData).omit({
   id: true,
-  timestamp: true,
+  locationKey: true,
+  geohash: true,
 });
 
 export const insertWaterSecuritySchema = createInsertSchema(waterSecurityData).omit({
   id: true,
-  timestamp: true,
+  locationKey: true,
+  geohash: true,
 });
 
 export const insertGreenSpaceSchema = createInsertSchema(greenSpaceData).omit({
   id: true,
-  timestamp: true,
+  locationKey: true,
+  geohash: true,
+});
+
+export const insertHeatSchema = createInsertSchema(heatData).omit({
+  id: true,
+  locationKey: true,
+  geohash: true,
+});
+
+export const insertFloodExposureSchema = createInsertSchema(floodExposureData).omit({
+  id: true,
+  locationKey: true,
+  geohash: true,
+});
+
+export const insertNoiseSchema = createInsertSchema(noiseData).omit({
+  id: true,
+  locationKey: true,
+  geohash: true,
 });
 
 export const insertLivabilitySchema = createInsertSchema(livabilityScores).omit({
   id: true,
-  timestamp: true,
+  geohash: true,
+});
+
+export const insertScoringProfileSchema = createInsertSchema(scoringProfiles, {
+  weights: scoringWeightsSchema,
+  referenceValues: referenceValuesSchema,
+  normalization: normalizationModeSchema,
+}).omit({
+  id: true,
+  createdAt: true,
 });
 
-export const insertAlertSchema = createInsertSchema(environmentalAlerts).omit({
+// Alert lifecycle: active and acknowledged alerts are open, the rest are final
+export const alertStatusSchema = z.enum(["active", "acknowledged", "resolved", "dismissed", "expired"]);
+export const OPEN_ALERT_STATUSES: AlertStatus[] = ["active", "acknowledged"];
+
+export const insertAlertSchema = createInsertSchema(environmentalAlerts, {
+  status: alertStatusSchema.optional(),
+}).omit({
   id: true,
   timestamp: true,
+  updatedAt: true,
+});
+
+export const insertBackfillJobSchema = createInsertSchema(backfillJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWatchedLocationSchema = createInsertSchema(watchedLocations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationChannelSchema = createInsertSchema(notificationChannels).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// API request schemas
+export const scoringProfileRequestSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, {
+    message: "Name must be lowercase letters, digits, '-' or '_'",
+  }),
+  description: z.string().max(500).optional(),
+  weights: scoringWeightsSchema,
+  referenceValues: referenceValuesSchema.optional(), // Defaults to the built-in thresholds
+  normalization: normalizationModeSchema.default("step"),
+  isDefault: z.boolean().optional(),
+});
+
+// Minutes an alert's fingerprint stays quiet after it closes: cooldown after it is
+// resolved or expires, suppression after it is dismissed
+export const suppressionWindowSchema = z.object({
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60),
+  suppressMinutes: z.number().int().min(0).max(30 * 24 * 60),
+});
+
+// Reading fields alert rules can test
+export const alertMetricSchema = z.enum([
+  "aqi", "pm25", "pm10", "ozone", "no2", "so2",
+  "waterStressLevel", "precipitationLevel", "groundwaterLevel", "floodRisk",
+  "ndvi", "vegetationCoverage",
+]);
+
+// Named alert thresholds a rule level can use instead of a fixed number
+export const alertThresholdKeySchema = z.enum([
+  "airQuality.warning", "airQuality.danger",
+  "waterSecurity.warning", "waterSecurity.danger",
+  "greenSpace.warning", "greenSpace.danger",
+  "floodRisk.warning", "floodRisk.danger",
+]);
+
+export const alertRuleLevelSchema = z.object({
+  type: z.enum(["info", "warning", "danger"]),
+  threshold: z.union([z.number(), alertThresholdKeySchema]),
+  title: z.string().trim().min(1).max(200),
+  // Placeholders {value}, {threshold}, {current} and {previous}; {value:1} rounds to one decimal
+  message: z.string().trim().min(1).max(1000),
+  // Arithmetic over value, threshold, current and previous, e.g. "value / threshold * 70"; clamped to 0-100
+  severity: z.string().trim().min(1).max(200),
+  // "generated" asks the recommendation service; an object is attached as is
+  recommendations: z.union([z.literal("generated"), z.record(z.string(), z.unknown())]).optional(),
+});
+
+const alertRuleFieldsSchema = z.object({
+  description: z.string().max(500).optional(),
+  metric: alertMetricSchema,
+  measure: z.enum(["value", "change", "rate"]).default("value"),
+  changeWindowMinutes: z.number().int().positive().max(7 * 24 * 60).nullable().optional(),
+  operator: z.enum(["gt", "gte", "lt", "lte"]),
+  persistenceMinutes: z.number().int().min(0).max(7 * 24 * 60).default(0),
+  levels: z.array(alertRuleLevelSchema).min(1).max(5),
+  actionable: z.boolean().default(true),
+  enabled: z.boolean().default(true),
+  ...suppressionWindowSchema.partial().shape,
+});
+
+export const alertRuleRequestSchema = alertRuleFieldsSchema.extend({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, {
+    message: "Id must be lowercase letters, digits, '-' or '_'",
+  }),
+});
+
+export const alertRuleUpdateSchema = alertRuleFieldsSchema.partial();
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules, {
+  levels: z.array(alertRuleLevelSchema),
+}).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+const thresholdPairSchema = (max: number, order: "ascending" | "descending") => z.object({
+  warning: z.number().min(0).max(max),
+  danger: z.number().min(0).max(max),
+}).partial().refine(({ warning, danger }) =>
+  warning === undefined || danger === undefined || (order === "ascending" ? warning < danger : warning > danger), {
+  message: order === "ascending" ? "warning must be below danger" : "warning must be above danger",
+});
+
+// Any subset of the alert thresholds; green space alerts fire below their thresholds
+export const alertThresholdValuesSchema = z.object({
+  airQuality: thresholdPairSchema(500, "ascending"),
+  waterSecurity: thresholdPairSchema(100, "ascending"),
+  greenSpace: thresholdPairSchema(100, "descending"),
+  floodRisk: thresholdPairSchema(100, "ascending"),
+}).partial().refine(values => Object.values(values).some(pair => Object.keys(pair).length > 0), {
+  message: "Set at least one threshold",
+});
+
+export const alertThresholdOverrideRequestSchema = z.object({
+  userId: z.string().trim().min(1).max(100).optional(),
+  area: z.object({
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180),
+    radiusKm: z.number().positive().max(1000),
+  }).optional(), // Everywhere when omitted
+  thresholds: alertThresholdValuesSchema,
+});
+
+export const insertAlertThresholdOverrideSchema = createInsertSchema(alertThresholdOverrides, {
+  thresholds: alertThresholdValuesSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Who changed an alert's status, and why
+export const alertTransitionRequestSchema = z.object({
+  actor: z.string().trim().min(1).max(100).optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const backfillRequestSchema = z.object({
+  point: z.object({
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180),
+  }).optional(),
+  bbox: z.object({
+    minLat: z.number().min(-90).max(90),
+    minLon: z.number().min(-180).max(180),
+    maxLat: z.number().min(-90).max(90),
+    maxLon: z.number().min(-180).max(180),
+  }).refine(b => b.minLat <= b.maxLat && b.minLon <= b.maxLon, {
+    message: "bbox minimums must not exceed maximums",
+  }).optional(),
+  resolution: z.number().positive().max(10).default(0.1), // Grid spacing in degrees for bbox requests
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  sources: z.array(z.string()).min(1).optional(), // Provider ids; defaults to every enabled provider
+}).refine(r => Boolean(r.point) !== Boolean(r.bbox), {
+  message: "Provide exactly one of 'point' or 'bbox'",
+}).refine(r => r.start < r.end, {
+  message: "'start' must be before 'end'",
+});
+
+export const watchedLocationRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  cadenceMinutes: z.number().int().min(5).max(7 * 24 * 60),
+  profile: z.string().nullable().optional(), // Defaults to the current default profile
+  userId: z.string().trim().min(1).max(100).nullable().optional(), // Subscriber whose thresholds apply
+  enabled: z.boolean().default(true),
+});
+
+export const watchedLocationUpdateSchema = watchedLocationRequestSchema.partial();
+
+// Notification channels: what each kind needs to deliver, and which alerts it receives
+export const alertCategorySchema = z.enum(["air_quality", "water_security", "green_space"]);
+export const notificationEventSchema = z.enum(["new", "escalated", "test"]);
+
+export const webhookChannelConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16).max(256), // Signs each request body with HMAC-SHA256
+});
+
+export const slackChannelConfigSchema = z.object({
+  url: z.string().url(), // Incoming webhook URL
+});
+
+export const emailChannelConfigSchema = z.object({
+  host: z.string().trim().min(1).max(255),
+  port: z.number().int().min(1).max(65535).default(25),
+  secure: z.boolean().default(false), // TLS from the start of the connection, typically port 465
+  username: z.string().min(1).max(255).optional(),
+  password: z.string().min(1).max(255).optional(),
+  from: z.string().email(),
+  to: z.array(z.string().email()).min(1).max(50),
+}).refine(c => (c.username === undefined) === (c.password === undefined), {
+  message: "Provide both 'username' and 'password' or neither",
+});
+
+export const notificationChannelConfigSchemas = {
+  webhook: webhookChannelConfigSchema,
+  slack: slackChannelConfigSchema,
+  email: emailChannelConfigSchema,
+};
+
+const notificationChannelFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  minSeverity: z.number().min(0).max(100).default(0),
+  categories: z.array(alertCategorySchema).min(1).nullable().optional(), // Every category when omitted
+  enabled: z.boolean().default(true),
+});
+
+export const notificationChannelRequestSchema = z.discriminatedUnion("kind", [
+  notificationChannelFieldsSchema.extend({ kind: z.literal("webhook"), config: webhookChannelConfigSchema }),
+  notificationChannelFieldsSchema.extend({ kind: z.literal("slack"), config: slackChannelConfigSchema }),
+  notificationChannelFieldsSchema.extend({ kind: z.literal("email"), config: emailChannelConfigSchema }),
+]);
+
+// The kind can't change; a new config is checked against the channel's kind
+export const notificationChannelUpdateSchema = notificationChannelFieldsSchema.partial().extend({
+  config: z.record(z.string(), z.unknown()).optional(),
+});
+
+// A named point (with an optional search radius) or polygon to score
+export const comparisonRegionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  point: z.object({
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180),
+  }).optional(),
+  radiusKm: z.number().positive().max(100).optional(), // Around a point; defaults to the reading radius
+  polygon: z.array(z.tuple([
+    z.number().min(-180).max(180),
+    z.number().min(-90).max(90),
+  ])).min(3).max(1000).optional(), // [lon, lat] vertices in GeoJSON order
+}).refine(r => Boolean(r.point) !== Boolean(r.polygon), {
+  message: "Provide exactly one of 'point' or 'polygon'",
+}).refine(r => !r.radiusKm || r.point, {
+  message: "'radiusKm' only applies to a point",
+});
+
+export const comparisonRequestSchema = z.object({
+  regions: z.array(comparisonRegionSchema).min(2).max(20),
+  profile: z.string().optional(),                     // Defaults to the current default profile
+  normalization: normalizationModeSchema.optional(),  // Defaults to the profile's mode
+  baseline: z.string().optional(),                    // Region deltas are measured against; defaults to the top ranked
+}).refine(r => new Set(r.regions.map(region => region.name)).size === r.regions.length, {
+  message: "Region names must be unique",
+}).refine(r => !r.baseline || r.regions.some(region => region.name === r.baseline), {
+  message: "'baseline' must name one of the regions",
 });
 
 // Types
@@ -108,11 +643,63 @@ export type InsertWaterSecurityData = z.infer<typeof insertWaterSecuritySchema>;
 export type GreenSpaceData = typeof greenSpaceData.$inferSelect;
 export type InsertGreenSpaceData = z.infer<typeof insertGreenSpaceSchema>;
 
+export type HeatData = typeof heatData.$inferSelect;
+export type InsertHeatData = z.infer<typeof insertHeatSchema>;
+
+export type FloodExposureData = typeof floodExposureData.$inferSelect;
+export type InsertFloodExposureData = z.infer<typeof insertFloodExposureSchema>;
+
+export type NoiseData = typeof noiseData.$inferSelect;
+export type InsertNoiseData = z.infer<typeof insertNoiseSchema>;
+
 export type LiveabilityScore = typeof livabilityScores.$inferSelect;
 export type InsertLivabilityScore = z.infer<typeof insertLivabilitySchema>;
 
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+export type ScoringWeights = z.infer<typeof scoringWeightsSchema>;
+export type ReferenceValues = z.infer<typeof referenceValuesSchema>;
+export type NormalizationMode = z.infer<typeof normalizationModeSchema>;
+export type ScoringProfileRequest = z.infer<typeof scoringProfileRequestSchema>;
+
 export type EnvironmentalAlert = typeof environmentalAlerts.$inferSelect;
 export type InsertEnvironmentalAlert = z.infer<typeof insertAlertSchema>;
+export type AlertStatus = z.infer<typeof alertStatusSchema>;
+export type AlertTransitionRequest = z.infer<typeof alertTransitionRequestSchema>;
+export type SuppressionWindow = z.infer<typeof suppressionWindowSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRuleLevel = z.infer<typeof alertRuleLevelSchema>;
+export type AlertMetric = z.infer<typeof alertMetricSchema>;
+export type AlertThresholdKey = z.infer<typeof alertThresholdKeySchema>;
+export type AlertRuleRequest = z.infer<typeof alertRuleRequestSchema>;
+export type AlertRuleUpdate = z.infer<typeof alertRuleUpdateSchema>;
+export type AlertThresholdValues = z.infer<typeof alertThresholdValuesSchema>;
+export type AlertThresholdOverride = typeof alertThresholdOverrides.$inferSelect;
+export type InsertAlertThresholdOverride = z.infer<typeof insertAlertThresholdOverrideSchema>;
+export type AlertThresholdOverrideRequest = z.infer<typeof alertThresholdOverrideRequestSchema>;
+
+export type BackfillJob = typeof backfillJobs.$inferSelect;
+export type InsertBackfillJob = z.infer<typeof insertBackfillJobSchema>;
+export type BackfillRequest = z.infer<typeof backfillRequestSchema>;
+export type WatchedLocation = typeof watchedLocations.$inferSelect;
+export type InsertWatchedLocation = z.infer<typeof insertWatchedLocationSchema>;
+export type WatchedLocationRequest = z.infer<typeof watchedLocationRequestSchema>;
+export type WatchedLocationUpdate = z.infer<typeof watchedLocationUpdateSchema>;
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type InsertNotificationChannel = z.infer<typeof insertNotificationChannelSchema>;
+export type NotificationChannelKind = keyof typeof notificationChannelConfigSchemas;
+export type NotificationChannelRequest = z.infer<typeof notificationChannelRequestSchema>;
+export type NotificationChannelUpdate = z.infer<typeof notificationChannelUpdateSchema>;
+export type WebhookChannelConfig = z.infer<typeof webhookChannelConfigSchema>;
+export type SlackChannelConfig = z.infer<typeof slackChannelConfigSchema>;
+export type EmailChannelConfig = z.infer<typeof emailChannelConfigSchema>;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type NotificationEvent = z.infer<typeof notificationEventSchema>;
+export type AlertCategory = z.infer<typeof alertCategorySchema>;
+export type ComparisonRegion = z.infer<typeof comparisonRegionSchema>;
+export type ComparisonRequest = z.infer<typeof comparisonRequestSchema>;
 
 // Legacy user schema (keeping for compatibility)
 export const users = pgTable("users", {